@@ -4,6 +4,7 @@ import helmet from "helmet";
 import mongoSanitize from "express-mongo-sanitize";
 import rateLimit from "express-rate-limit";
 import cookieParser from "cookie-parser";
+import { csrfProtection } from "./middleware/csrf";
 
 // Import routes
 import authRoutes from "./routes/authRoutes";
@@ -19,6 +20,17 @@ import notificationRoutes from "./routes/notificationRoutes";
 import uploadRoutes from "./routes/uploadRoutes";
 import configRoutes from "./routes/configRoutes";
 import analyticsRoutes from "./routes/analyticsRoutes";
+import verificationRoutes from "./routes/verificationRoutes";
+import householdRoutes from "./routes/householdRoutes";
+import registryRoutes from "./routes/registryRoutes";
+import zoneRoutes from "./routes/zoneRoutes";
+import documentRequestRoutes from "./routes/documentRequestRoutes";
+import verifyRoutes from "./routes/verifyRoutes";
+import paymentRoutes from "./routes/paymentRoutes";
+import caseRoutes from "./routes/caseRoutes";
+import businessRoutes from "./routes/businessRoutes";
+import aidRoutes from "./routes/aidRoutes";
+import disasterRoutes from "./routes/disasterRoutes";
 
 const app: Application = express();
 
@@ -47,6 +59,9 @@ app.use(cookieParser());
 // Data sanitization against NoSQL injection
 app.use(mongoSanitize());
 
+// CSRF protection for cookie-authenticated requests
+app.use(csrfProtection);
+
 // API routes
 app.use("/api/v1/auth", authRoutes);
 app.use("/api/v1/dashboard", dashboardRoutes);
@@ -67,6 +82,17 @@ app.use("/api/v1", uploadRoutes);
 
 app.use("/api/v1/config", configRoutes);
 app.use("/api/v1/analytics", analyticsRoutes);
+app.use("/api/v1/verifications", verificationRoutes);
+app.use("/api/v1/households", householdRoutes);
+app.use("/api/v1/registry", registryRoutes);
+app.use("/api/v1/zones", zoneRoutes);
+app.use("/api/v1/document-requests", documentRequestRoutes);
+app.use("/api/v1/verify", verifyRoutes);
+app.use("/api/v1/payments", paymentRoutes);
+app.use("/api/v1/cases", caseRoutes);
+app.use("/api/v1/businesses", businessRoutes);
+app.use("/api/v1/aid", aidRoutes);
+app.use("/api/v1/disaster", disasterRoutes);
 
 // Health check endpoint
 app.get("/health", (req: Request, res: Response) => {
@@ -95,6 +121,7 @@ app.use((err: any, req: Request, res: Response, next: NextFunction) => {
   res.status(statusCode).json({
     success: false,
     message,
+    ...(typeof err.code === "string" && { code: err.code }),
     ...(process.env.NODE_ENV === "development" && { stack: err.stack }),
   });
 });
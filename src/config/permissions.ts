@@ -0,0 +1,272 @@
+/**
+ * Permission catalog and the default role → permission mappings.
+ *
+ * Permissions are `resource:action` strings checked by requirePermission().
+ * Mappings are seeded into the Role collection on startup and can then be
+ * edited by admins; the admin role always holds every permission.
+ */
+
+export const PERMISSIONS = {
+  USER_MANAGE: "user:manage",
+  ROLE_MANAGE: "role:manage",
+  AUDIT_VIEW: "audit:view",
+  CONFIG_MANAGE: "config:manage",
+  CONFIG_LISTS: "config:lists",
+  DASHBOARD_VIEW: "dashboard:view",
+  DASHBOARD_STAFF_PERFORMANCE: "dashboard:staff_performance",
+  ANALYTICS_VIEW: "analytics:view",
+  COMPLAINT_VIEW_ALL: "complaint:view_all",
+  COMPLAINT_UPDATE_STATUS: "complaint:update_status",
+  COMPLAINT_ASSIGN: "complaint:assign",
+  COMPLAINT_HANDLE: "complaint:handle",
+  COMPLAINT_ESCALATE: "complaint:escalate",
+  COMPLAINT_MERGE: "complaint:merge",
+  COMPLAINT_UNSEAL: "complaint:unseal",
+  COMPLAINT_DELETE: "complaint:delete",
+  COMPLAINT_EXPORT: "complaint:export",
+  SERVICE_VIEW_ALL: "service:view_all",
+  SERVICE_APPROVE: "service:approve",
+  SERVICE_ASSIGN: "service:assign",
+  SERVICE_EXPORT: "service:export",
+  ANNOUNCEMENT_MANAGE: "announcement:manage",
+  ANNOUNCEMENT_PUBLISH: "announcement:publish",
+  ANNOUNCEMENT_DELETE: "announcement:delete",
+  EVENT_MANAGE: "event:manage",
+  EVENT_DELETE: "event:delete",
+  VERIFICATION_REVIEW: "verification:review",
+  HOUSEHOLD_MANAGE: "household:manage",
+  REGISTRY_MANAGE: "registry:manage",
+  ZONE_MANAGE: "zone:manage",
+  DOCUMENT_PROCESS: "document:process",
+  PAYMENT_COLLECT: "payment:collect",
+  PAYMENT_VOID: "payment:void",
+  PAYMENT_REPORT: "payment:report",
+  CASE_MANAGE: "case:manage",
+  CASE_SIGN: "case:sign",
+  BUSINESS_MANAGE: "business:manage",
+  BUSINESS_EXPORT: "business:export",
+  AID_MANAGE: "aid:manage",
+  AID_DISTRIBUTE: "aid:distribute",
+  DISASTER_MANAGE: "disaster:manage",
+  DISASTER_ALERT: "disaster:alert",
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  "user:manage": "Create, edit, verify, lock and delete user accounts",
+  "role:manage": "Edit roles and their permissions",
+  "audit:view": "View the audit log",
+  "config:manage": "Change security and verification settings",
+  "config:lists": "Edit complaint categories and service item types",
+  "dashboard:view": "View dashboard statistics",
+  "dashboard:staff_performance": "View staff performance on the dashboard",
+  "analytics:view": "View analytics and reports",
+  "complaint:view_all": "View every complaint, not just own or assigned",
+  "complaint:update_status": "Change complaint status",
+  "complaint:assign": "Assign complaints to personnel",
+  "complaint:handle": "Be assigned complaints to resolve",
+  "complaint:escalate": "Escalate complaints",
+  "complaint:merge": "Merge duplicate complaints into one",
+  "complaint:unseal":
+    "Reveal who filed an anonymous complaint (recorded in the audit log)",
+  "complaint:delete": "Bulk delete complaints",
+  "complaint:export": "Export complaints",
+  "service:view_all": "View every service request",
+  "service:approve": "Approve, reject and update service requests",
+  "service:assign": "Assign service requests",
+  "service:export": "Export service requests",
+  "announcement:manage": "Create, edit and pin announcements",
+  "announcement:publish": "Publish announcements and see drafts",
+  "announcement:delete": "Delete announcements",
+  "event:manage": "Create and edit events and export attendees",
+  "event:delete": "Delete any event",
+  "verification:review": "Review resident identity documents",
+  "household:manage": "View and edit every household record",
+  "registry:manage": "Search, edit and export the inhabitants registry (RBI)",
+  "zone:manage": "Create zones and assign the staff responsible for them",
+  "document:process": "Review, issue and release barangay certificates",
+  "payment:collect": "Record payments and issue official receipts",
+  "payment:void": "Void or refund recorded payments",
+  "payment:report": "View daily collection reports",
+  "case:manage": "Record and mediate Katarungang Pambarangay cases",
+  "case:sign": "Sign Katarungang Pambarangay forms as Lupon chairman",
+  "business:manage":
+    "Register businesses, inspect and approve business clearances",
+  "business:export": "View and export the business registry",
+  "aid:manage": "Set up aid programs and open or close distribution batches",
+  "aid:distribute": "Log aid claims and view distribution reports",
+  "disaster:manage":
+    "Run evacuation centers, check households in and out and track missing residents",
+  "disaster:alert": "Send emergency alerts to every user",
+};
+
+export interface RoleDefinition {
+  name: string;
+  displayName: string;
+  description: string;
+  permissions: Permission[];
+  isSystem: boolean;
+}
+
+// Rights admin/staff held before permissions existed
+const STAFF_PERMISSIONS: Permission[] = [
+  "config:lists",
+  "dashboard:view",
+  "analytics:view",
+  "complaint:view_all",
+  "complaint:update_status",
+  "complaint:assign",
+  "complaint:handle",
+  "complaint:escalate",
+  "complaint:merge",
+  "complaint:export",
+  "service:view_all",
+  "service:approve",
+  "service:assign",
+  "service:export",
+  "announcement:manage",
+  "announcement:publish",
+  "event:manage",
+  "verification:review",
+  "household:manage",
+  "registry:manage",
+  "document:process",
+  "payment:collect",
+  "business:manage",
+  "business:export",
+  "aid:distribute",
+  "disaster:manage",
+];
+
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  {
+    name: "admin",
+    displayName: "Administrator",
+    description: "Full access to the system",
+    permissions: ALL_PERMISSIONS,
+    isSystem: true,
+  },
+  {
+    name: "staff",
+    displayName: "Barangay Staff",
+    description:
+      "Handles complaints, service requests, events and announcements",
+    permissions: STAFF_PERMISSIONS,
+    isSystem: true,
+  },
+  {
+    name: "resident",
+    displayName: "Resident",
+    description: "Files complaints and service requests and joins events",
+    permissions: [],
+    isSystem: true,
+  },
+  {
+    name: "captain",
+    displayName: "Punong Barangay",
+    description: "Barangay captain",
+    permissions: [
+      ...STAFF_PERMISSIONS,
+      "dashboard:staff_performance",
+      "audit:view",
+      "announcement:delete",
+      "event:delete",
+      "zone:manage",
+      "payment:void",
+      "payment:report",
+      "case:manage",
+      "case:sign",
+      "aid:manage",
+      "disaster:alert",
+      "complaint:unseal",
+    ],
+    isSystem: false,
+  },
+  {
+    name: "kagawad",
+    displayName: "Barangay Kagawad",
+    description: "Council member overseeing complaints and community events",
+    permissions: [
+      "dashboard:view",
+      "analytics:view",
+      "complaint:view_all",
+      "complaint:update_status",
+      "complaint:handle",
+      "complaint:escalate",
+      "complaint:merge",
+      "announcement:manage",
+      "event:manage",
+      "aid:distribute",
+      "disaster:manage",
+    ],
+    isSystem: false,
+  },
+  {
+    name: "secretary",
+    displayName: "Barangay Secretary",
+    description: "Processes requests, records and announcements",
+    permissions: [
+      "dashboard:view",
+      "complaint:view_all",
+      "complaint:assign",
+      "complaint:merge",
+      "complaint:export",
+      "service:view_all",
+      "service:approve",
+      "service:export",
+      "announcement:manage",
+      "announcement:publish",
+      "event:manage",
+      "verification:review",
+      "household:manage",
+      "registry:manage",
+      "zone:manage",
+      "document:process",
+      "payment:collect",
+      "case:manage",
+      "business:manage",
+      "business:export",
+      "aid:manage",
+      "aid:distribute",
+      "disaster:manage",
+    ],
+    isSystem: false,
+  },
+  {
+    name: "treasurer",
+    displayName: "Barangay Treasurer",
+    description: "Oversees collections and financial reports",
+    permissions: [
+      "dashboard:view",
+      "analytics:view",
+      "service:view_all",
+      "service:export",
+      "payment:collect",
+      "payment:void",
+      "payment:report",
+      "business:export",
+    ],
+    isSystem: false,
+  },
+  {
+    name: "tanod",
+    displayName: "Barangay Tanod",
+    description: "Responds to assigned peace-and-order complaints",
+    permissions: [
+      "complaint:handle",
+      "complaint:update_status",
+      "disaster:manage",
+    ],
+    isSystem: false,
+  },
+  {
+    name: "sk_official",
+    displayName: "SK Official",
+    description: "Sangguniang Kabataan official running youth events",
+    permissions: ["dashboard:view", "announcement:manage", "event:manage"],
+    isSystem: false,
+  },
+];
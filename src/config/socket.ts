@@ -2,6 +2,8 @@ import { Server as HTTPServer } from "http";
 import { Server, Socket } from "socket.io";
 import jwt from "jsonwebtoken";
 import { JWTPayload } from "../types";
+import Role from "../models/Role";
+import User from "../models/User";
 
 interface AuthSocket extends Socket {
   userId?: string;
@@ -21,7 +23,7 @@ export const initializeSocket = (httpServer: HTTPServer): Server => {
   });
 
   // Authentication middleware for Socket.IO
-  io.use((socket: Socket, next: (err?: Error) => void) => {
+  io.use(async (socket: Socket, next: (err?: Error) => void) => {
     try {
       const authSocket = socket as AuthSocket;
       const token =
@@ -35,8 +37,20 @@ export const initializeSocket = (httpServer: HTTPServer): Server => {
       const jwtSecret = process.env.JWT_SECRET || "default_secret";
       const decoded = jwt.verify(token, jwtSecret) as JWTPayload;
 
+      // Same checks as the HTTP authenticate middleware
+      const user = await User.findById(decoded.id).select(
+        "role isActive tokenVersion",
+      );
+      if (
+        !user ||
+        !user.isActive ||
+        (decoded.tv || 0) !== (user.tokenVersion || 0)
+      ) {
+        return next(new Error("Authentication error: Token revoked"));
+      }
+
       authSocket.userId = decoded.id;
-      authSocket.userRole = decoded.role;
+      authSocket.userRole = user.role;
 
       next();
     } catch (error) {
@@ -55,9 +69,15 @@ export const initializeSocket = (httpServer: HTTPServer): Server => {
       socket.join(`user:${authSocket.userId}`);
     }
 
-    // Join role-specific rooms
-    if (authSocket.userRole === "admin" || authSocket.userRole === "staff") {
-      socket.join("staff-room");
+    // Users who can see every complaint receive staff broadcasts
+    if (authSocket.userRole) {
+      Role.hasPermission(authSocket.userRole, "complaint:view_all")
+        .then((canViewAll) => {
+          if (canViewAll) {
+            socket.join("staff-room");
+          }
+        })
+        .catch((error) => console.error("Failed to resolve role:", error));
     }
 
     // Handle complaint updates subscription
@@ -133,3 +153,10 @@ export const emitToAll = (event: string, data: any) => {
     io.emit(event, data);
   }
 };
+
+// Drop a user's live connections so they reconnect with a fresh token
+export const disconnectUser = (userId: string) => {
+  if (io) {
+    io.in(`user:${userId}`).disconnectSockets(true);
+  }
+};
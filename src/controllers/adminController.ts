@@ -2,6 +2,12 @@ import { Request, Response } from "express";
 import User from "../models/User";
 import Complaint from "../models/Complaint";
 import Service from "../models/Service";
+import AuditLog from "../models/AuditLog";
+import Notification from "../models/Notification";
+import Session from "../models/Session";
+import Role from "../models/Role";
+import { AuthRequest } from "../types";
+import { disconnectUser } from "../config/socket";
 import bcrypt from "bcryptjs";
 
 /**
@@ -123,6 +129,13 @@ export const createUser = async (req: Request, res: Response) => {
   try {
     const { email, password, name, role, phone, address } = req.body;
 
+    if (role && !(await Role.exists({ name: role }))) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid role",
+      });
+    }
+
     // Check if user already exists
     const existingUser = await User.findOne({ email });
     if (existingUser) {
@@ -178,6 +191,16 @@ export const updateUser = async (req: Request, res: Response) => {
       updateData.password = await bcrypt.hash(password, 10);
     }
 
+    // Changes to credentials or access invalidate existing tokens
+    if (
+      password ||
+      updateData.role !== undefined ||
+      updateData.isActive !== undefined
+    ) {
+      delete updateData.tokenVersion;
+      updateData.$inc = { tokenVersion: 1 };
+    }
+
     const user = await User.findByIdAndUpdate(req.params.id, updateData, {
       new: true,
       runValidators: true,
@@ -250,7 +273,10 @@ export const toggleUserStatus = async (req: Request, res: Response) => {
     }
 
     user.isActive = !user.isActive;
+    // Deactivation takes effect immediately, not when the token expires
+    user.tokenVersion = (user.tokenVersion || 0) + 1;
     await user.save();
+    disconnectUser(user._id.toString());
 
     const userResponse = user.toObject();
     delete userResponse.password;
@@ -274,11 +300,17 @@ export const toggleUserStatus = async (req: Request, res: Response) => {
  * @route PATCH /api/v1/admin/users/:id/verify
  * @access Admin
  */
-export const verifyUser = async (req: Request, res: Response) => {
+export const verifyUser = async (req: AuthRequest, res: Response) => {
   try {
     const user = await User.findByIdAndUpdate(
       req.params.id,
-      { isVerified: true },
+      {
+        isVerified: true,
+        verifiedBy: req.user?.id,
+        verifiedAt: new Date(),
+        verificationMethod: "manual",
+        $unset: { emailVerificationToken: 1, emailVerificationExpires: 1 },
+      },
       { new: true },
     ).select("-password");
 
@@ -312,7 +344,7 @@ export const assignRole = async (req: Request, res: Response) => {
   try {
     const { role } = req.body;
 
-    if (!["resident", "staff", "admin"].includes(role)) {
+    if (!role || !(await Role.exists({ name: role }))) {
       return res.status(400).json({
         success: false,
         message: "Invalid role",
@@ -321,7 +353,7 @@ export const assignRole = async (req: Request, res: Response) => {
 
     const user = await User.findByIdAndUpdate(
       req.params.id,
-      { role },
+      { role, $inc: { tokenVersion: 1 } },
       { new: true },
     ).select("-password");
 
@@ -332,6 +364,8 @@ export const assignRole = async (req: Request, res: Response) => {
       });
     }
 
+    disconnectUser(user._id.toString());
+
     res.json({
       success: true,
       message: "Role assigned successfully",
@@ -346,6 +380,210 @@ export const assignRole = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Reset a user's two-factor authentication (lost device)
+ * @route DELETE /api/v1/admin/users/:id/2fa
+ * @access Admin
+ */
+export const resetUserTwoFactor = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: "Two-factor authentication is not enabled for this user",
+      });
+    }
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        twoFactorEnabled: false,
+        $unset: {
+          twoFactorEnabledAt: 1,
+          twoFactorSecret: 1,
+          twoFactorPendingSecret: 1,
+          twoFactorRecoveryCodes: 1,
+          twoFactorLastUsedStep: 1,
+        },
+      },
+    );
+
+    // Whoever holds the lost device must not keep a live session
+    await Session.revokeAllForUser(user._id, "2fa_reset");
+
+    const adminUser = await User.findById(req.user?.id);
+    if (adminUser) {
+      await AuditLog.create({
+        userId: req.user?.id,
+        userName: `${adminUser.firstName} ${adminUser.lastName}`,
+        action: "reset_2fa",
+        targetType: "user",
+        targetId: user._id,
+        details: { userEmail: user.email, reason: req.body?.reason },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+    }
+
+    await Notification.create({
+      userId: user._id,
+      title: "Two-Factor Authentication Reset",
+      message:
+        "An administrator reset your two-factor authentication. Set it up again after you sign in.",
+      type: "warning",
+    });
+
+    res.json({
+      success: true,
+      message: "Two-factor authentication reset successfully",
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to reset two-factor authentication",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Unlock an account locked after repeated failed sign-ins
+ * @route PATCH /api/v1/admin/users/:id/unlock
+ * @access Admin
+ */
+export const unlockUser = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        failedLoginAttempts: 0,
+        lockoutCount: 0,
+        $unset: { lockUntil: 1 },
+      },
+    );
+
+    const adminUser = await User.findById(req.user?.id);
+    if (adminUser) {
+      await AuditLog.create({
+        userId: req.user?.id,
+        userName: `${adminUser.firstName} ${adminUser.lastName}`,
+        action: "unlock_account",
+        targetType: "user",
+        targetId: user._id,
+        details: { userEmail: user.email, wasLocked: user.isLocked() },
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Account unlocked successfully",
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to unlock account",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Update the specializations, availability, leaves and open-complaint cap
+ * used when auto-assigning complaints to a staff member
+ * @route PUT /api/v1/admin/users/:id/staff-profile
+ * @access Admin
+ */
+export const updateStaffProfile = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+    }
+
+    if (!(await Role.hasPermission(user.role, "complaint:handle"))) {
+      return res.status(400).json({
+        success: false,
+        message: "This user's role does not handle complaints",
+      });
+    }
+
+    const { specializations, isAvailable, leaves, maxOpenComplaints } =
+      req.body;
+    const update: any = { $set: {} };
+    if (specializations !== undefined) {
+      update.$set["staffProfile.specializations"] = [
+        ...new Set(specializations),
+      ];
+    }
+    if (isAvailable !== undefined) {
+      update.$set["staffProfile.isAvailable"] = isAvailable;
+    }
+    if (leaves !== undefined) {
+      update.$set["staffProfile.leaves"] = leaves;
+    }
+    if (maxOpenComplaints === null) {
+      update.$unset = { "staffProfile.maxOpenComplaints": 1 };
+    } else if (maxOpenComplaints !== undefined) {
+      update.$set["staffProfile.maxOpenComplaints"] = maxOpenComplaints;
+    }
+
+    const updated = await User.findByIdAndUpdate(user._id, update, {
+      new: true,
+      runValidators: true,
+    });
+
+    const adminUser = await User.findById(req.user?.id);
+    if (adminUser) {
+      await AuditLog.create({
+        userId: req.user?.id,
+        userName: `${adminUser.firstName} ${adminUser.lastName}`,
+        action: "update_staff_profile",
+        targetType: "user",
+        targetId: user._id,
+        details: req.body,
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Staff profile updated successfully",
+      data: updated?.staffProfile,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to update staff profile",
+      error: error.message,
+    });
+  }
+};
+
 /**
  * Get audit logs
  * @route GET /api/v1/admin/audit-logs
@@ -435,7 +673,19 @@ export const bulkUpdateUsers = async (req: Request, res: Response) => {
       });
     }
 
-    const result = await User.updateMany({ _id: { $in: userIds } }, updates);
+    if (updates?.role && !(await Role.exists({ name: updates.role }))) {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid role",
+      });
+    }
+
+    const result = await User.updateMany(
+      { _id: { $in: userIds } },
+      updates?.role !== undefined || updates?.isActive !== undefined
+        ? { ...updates, $inc: { tokenVersion: 1 } }
+        : updates,
+    );
 
     res.json({
       success: true,
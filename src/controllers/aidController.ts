@@ -0,0 +1,731 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import AidProgram, { IAidProgram } from "../models/AidProgram";
+import DistributionBatch, {
+  IDistributionBatch,
+} from "../models/DistributionBatch";
+import DistributionClaim from "../models/DistributionClaim";
+import Household from "../models/Household";
+import User from "../models/User";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest } from "../types";
+import { buildRegistryFilter } from "./registryController";
+import {
+  exportDistributionToExcel,
+  deleteExportFile,
+} from "../utils/exportHelper";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../utils/AppError";
+
+/**
+ * Aid Controller
+ * Beneficiary programs, distribution batches and per-household claims
+ */
+
+const PROGRAM_FIELDS = [
+  "name",
+  "type",
+  "description",
+  "eligibility",
+  "enrolledHouseholds",
+  "isActive",
+] as const;
+
+const statusFor = (error: any): number => {
+  if (error.name === "ValidationError") return 400;
+  if (error.code === 11000) return 409;
+  return error.statusCode || 500;
+};
+
+const recordAidEvent = async (
+  req: AuthRequest,
+  action: string,
+  targetId: unknown,
+  details: Record<string, any> = {},
+): Promise<void> => {
+  const actor = await User.findById(req.user?.id);
+  if (actor) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${actor.firstName} ${actor.lastName}`,
+      action,
+      targetType: "aid",
+      targetId,
+      details,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+const findProgram = async (id: string): Promise<IAidProgram> => {
+  const program = await AidProgram.findById(id);
+  if (!program) {
+    throw new NotFoundError("Aid program not found");
+  }
+  return program;
+};
+
+const findBatch = async (id: string): Promise<IDistributionBatch> => {
+  const batch = await DistributionBatch.findById(id);
+  if (!batch) {
+    throw new NotFoundError("Distribution batch not found");
+  }
+  return batch;
+};
+
+/**
+ * Households covered by a program: those with a verified member matching the
+ * eligibility criteria plus the enrolled ones. No criteria and no enrolment
+ * means every household.
+ */
+const getEligibleHouseholdIds = async (
+  program: IAidProgram,
+): Promise<mongoose.Types.ObjectId[]> => {
+  // The registry filter reads query strings
+  const criteria: Record<string, string> = {};
+  for (const [key, value] of Object.entries(
+    program.toObject().eligibility || {},
+  )) {
+    if (value !== undefined && value !== null && value !== "") {
+      criteria[key] = String(value);
+    }
+  }
+
+  const enrolled = program.enrolledHouseholds.map((id) => id.toString());
+  const hasCriteria = Object.keys(criteria).length > 0;
+
+  if (!hasCriteria && enrolled.length === 0) {
+    return Household.find().distinct("_id");
+  }
+
+  const ids = new Set(enrolled);
+  if (hasCriteria) {
+    const filter = await buildRegistryFilter(criteria);
+    // Residents fill in their own profile flags and birth date, so only
+    // verified accounts can qualify a household
+    const households = await User.find({
+      ...filter,
+      isVerified: true,
+      householdId: filter.householdId || { $ne: null },
+    }).distinct("householdId");
+    households.forEach((id: any) => ids.add(id.toString()));
+  }
+
+  return [...ids].map((id) => new mongoose.Types.ObjectId(id));
+};
+
+/**
+ * Claim counts for a batch, overall and per purok
+ */
+const summarizeBatch = async (batch: IDistributionBatch) => {
+  const [claims, households] = await Promise.all([
+    DistributionClaim.find({ batchId: batch._id }).lean(),
+    Household.find({ _id: { $in: batch.eligibleHouseholds } })
+      .select("purok")
+      .lean(),
+  ]);
+
+  const claimed = new Set(claims.map((claim) => claim.householdId.toString()));
+  const byPurok: Record<string, { eligible: number; claimed: number }> = {};
+  for (const household of households) {
+    const purok = household.purok || "Unassigned";
+    byPurok[purok] = byPurok[purok] || { eligible: 0, claimed: 0 };
+    byPurok[purok].eligible++;
+    if (claimed.has(household._id.toString())) byPurok[purok].claimed++;
+  }
+
+  const eligible = batch.eligibleHouseholds.length;
+  const overrides = claims.filter((claim) => claim.overrideReason).length;
+  const eligibleClaims = claims.length - overrides;
+
+  return {
+    eligible,
+    claimed: claims.length,
+    unclaimed: eligible - eligibleClaims,
+    overrides,
+    claimRate: eligible > 0 ? Math.round((eligibleClaims / eligible) * 100) : 0,
+    amountReleased: (batch.amountPerHousehold || 0) * claims.length,
+    byPurok: Object.entries(byPurok)
+      .map(([purok, counts]) => ({ purok, ...counts }))
+      .sort((a, b) => a.purok.localeCompare(b.purok)),
+  };
+};
+
+/**
+ * List aid programs
+ * @route GET /api/v1/aid/programs
+ * @access aid:distribute
+ */
+export const getPrograms = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { type, includeInactive } = req.query;
+
+    const filter: any = {};
+    if (includeInactive !== "true") filter.isActive = true;
+    if (type) filter.type = type;
+
+    const programs = await AidProgram.find(filter)
+      .select("-enrolledHouseholds")
+      .sort({ name: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: programs,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch aid programs",
+    });
+  }
+};
+
+/**
+ * Create an aid program
+ * @route POST /api/v1/aid/programs
+ * @access aid:manage
+ */
+export const createProgram = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const fields: any = {};
+    for (const field of PROGRAM_FIELDS) {
+      if (req.body[field] !== undefined) fields[field] = req.body[field];
+    }
+
+    const program = await AidProgram.create({
+      ...fields,
+      createdBy: req.user?.id,
+    });
+
+    await recordAidEvent(req, "create_aid_program", program._id, {
+      name: program.name,
+      type: program.type,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Aid program created successfully",
+      data: program,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message:
+        error.code === 11000
+          ? "A program with this name already exists"
+          : error.message || "Failed to create aid program",
+    });
+  }
+};
+
+/**
+ * Get an aid program with its batches
+ * @route GET /api/v1/aid/programs/:id
+ * @access aid:distribute
+ */
+export const getProgramById = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const program = await findProgram(req.params.id);
+    const batches = await DistributionBatch.find({ programId: program._id })
+      .select("-eligibleHouseholds")
+      .sort({ distributionDate: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: { ...program.toObject(), batches },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch aid program",
+    });
+  }
+};
+
+/**
+ * Update an aid program. Open batches keep the eligibility list they were
+ * opened with.
+ * @route PUT /api/v1/aid/programs/:id
+ * @access aid:manage
+ */
+export const updateProgram = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const program = await findProgram(req.params.id);
+
+    const fields: any = {};
+    for (const field of PROGRAM_FIELDS) {
+      if (req.body[field] !== undefined) fields[field] = req.body[field];
+    }
+
+    program.set(fields);
+    await program.save();
+
+    await recordAidEvent(req, "update_aid_program", program._id, {
+      fields: Object.keys(fields),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Aid program updated successfully",
+      data: program,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message:
+        error.code === 11000
+          ? "A program with this name already exists"
+          : error.message || "Failed to update aid program",
+    });
+  }
+};
+
+/**
+ * Households currently eligible for a program
+ * @route GET /api/v1/aid/programs/:id/eligible
+ * @access aid:distribute
+ */
+export const getEligibleHouseholds = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const program = await findProgram(req.params.id);
+    const ids = await getEligibleHouseholdIds(program);
+
+    const filter = { _id: { $in: ids } };
+    const [households, total] = await Promise.all([
+      Household.find(filter)
+        .select("address purok zoneId members")
+        .sort({ purok: 1, address: 1 })
+        .skip(skip)
+        .limit(limit),
+      Household.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: households,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch eligible households",
+    });
+  }
+};
+
+/**
+ * Open a distribution batch, fixing its eligibility list
+ * @route POST /api/v1/aid/programs/:id/batches
+ * @access aid:manage
+ */
+export const createBatch = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { name, distributionDate, location, items, amountPerHousehold } =
+      req.body;
+
+    const program = await findProgram(req.params.id);
+    if (!program.isActive) {
+      throw new ConflictError("This program is no longer active");
+    }
+
+    const eligibleHouseholds = await getEligibleHouseholdIds(program);
+
+    const batch = await DistributionBatch.create({
+      programId: program._id,
+      name,
+      distributionDate,
+      location,
+      items,
+      amountPerHousehold,
+      eligibleHouseholds,
+      createdBy: req.user?.id,
+    });
+
+    await recordAidEvent(req, "open_distribution_batch", batch._id, {
+      programId: program._id,
+      name,
+      eligible: eligibleHouseholds.length,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Distribution batch opened",
+      data: {
+        ...batch.toObject(),
+        eligibleHouseholds: undefined,
+        eligibleCount: eligibleHouseholds.length,
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to open distribution batch",
+    });
+  }
+};
+
+/**
+ * Get a batch with its claim summary
+ * @route GET /api/v1/aid/batches/:id
+ * @access aid:distribute
+ */
+export const getBatchById = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const batch = await findBatch(req.params.id);
+    await batch.populate("programId", "name type");
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...batch.toObject(),
+        eligibleHouseholds: undefined,
+        summary: await summarizeBatch(batch),
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch distribution batch",
+    });
+  }
+};
+
+/**
+ * Close a batch to further claims
+ * @route PUT /api/v1/aid/batches/:id/close
+ * @access aid:manage
+ */
+export const closeBatch = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const batch = await DistributionBatch.findOneAndUpdate(
+      { _id: req.params.id, status: "open" },
+      { status: "closed", closedBy: req.user?.id, closedAt: new Date() },
+      { new: true },
+    ).select("-eligibleHouseholds");
+
+    if (!batch) {
+      if (await DistributionBatch.exists({ _id: req.params.id })) {
+        throw new ConflictError("This batch is already closed");
+      }
+      throw new NotFoundError("Distribution batch not found");
+    }
+
+    await recordAidEvent(req, "close_distribution_batch", batch._id);
+
+    res.status(200).json({
+      success: true,
+      message: "Distribution batch closed",
+      data: batch,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to close distribution batch",
+    });
+  }
+};
+
+/**
+ * Log a household's claim. The claimant is a listed member
+ * (`claimantMemberId`) or a named representative. Households outside the
+ * batch's eligibility list need an `overrideReason`.
+ * @route POST /api/v1/aid/batches/:id/claims
+ * @access aid:distribute
+ */
+export const recordClaim = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const {
+      householdId,
+      claimantMemberId,
+      claimantName,
+      claimantRelationship,
+      notes,
+      overrideReason,
+    } = req.body;
+
+    const batch = await findBatch(req.params.id);
+    if (batch.status !== "open") {
+      throw new ConflictError("This batch is closed");
+    }
+
+    const household = await Household.findById(householdId);
+    if (!household) {
+      throw new NotFoundError("Household not found");
+    }
+
+    const eligible = batch.eligibleHouseholds.some((id) =>
+      id.equals(household._id as mongoose.Types.ObjectId),
+    );
+    if (!eligible && !overrideReason) {
+      throw new ConflictError(
+        "This household is not on the batch's eligibility list",
+      );
+    }
+
+    const claimant: any = { claimantName, claimantRelationship };
+    if (claimantMemberId) {
+      const member = household.members.id(claimantMemberId);
+      if (!member) {
+        throw new ValidationError("Claimant is not a member of this household");
+      }
+      claimant.claimantMemberId = member._id;
+      claimant.claimantUserId = member.userId;
+      claimant.claimantName = `${member.firstName} ${member.lastName}`;
+      claimant.claimantRelationship = member.relationship;
+    } else if (!claimantName) {
+      throw new ValidationError(
+        "Claimant must be a household member or a named representative",
+      );
+    }
+
+    // The unique (batchId, householdId) index turns a second claim into a 409
+    const claim = await DistributionClaim.create({
+      batchId: batch._id,
+      programId: batch.programId,
+      householdId: household._id,
+      ...claimant,
+      releasedBy: req.user?.id,
+      notes,
+      overrideReason: eligible ? undefined : overrideReason,
+    });
+
+    await recordAidEvent(req, "record_aid_claim", batch._id, {
+      claimId: claim._id,
+      householdId: household._id,
+      claimantName: claim.claimantName,
+      override: !eligible,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Claim recorded",
+      data: claim,
+    });
+  } catch (error: any) {
+    if (error.code === 11000) {
+      const existing = await DistributionClaim.findOne({
+        batchId: req.params.id,
+        householdId: req.body.householdId,
+      }).populate("releasedBy", "firstName lastName");
+
+      res.status(409).json({
+        success: false,
+        message: "This household has already claimed in this batch",
+        data: existing,
+      });
+      return;
+    }
+
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to record claim",
+    });
+  }
+};
+
+/**
+ * Claims in a batch, or with `unclaimed=true` the eligible households that
+ * have not claimed yet
+ * @route GET /api/v1/aid/batches/:id/claims
+ * @access aid:distribute
+ */
+export const getBatchClaims = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+    const { unclaimed, purok } = req.query;
+
+    const batch = await findBatch(req.params.id);
+
+    if (unclaimed === "true") {
+      const claimed = await DistributionClaim.find({
+        batchId: batch._id,
+      }).distinct("householdId");
+
+      const filter: any = {
+        _id: { $in: batch.eligibleHouseholds, $nin: claimed },
+      };
+      if (purok) filter.purok = purok;
+
+      const [households, total] = await Promise.all([
+        Household.find(filter)
+          .select("address purok members")
+          .sort({ purok: 1, address: 1 })
+          .skip(skip)
+          .limit(limit),
+        Household.countDocuments(filter),
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: households,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+      return;
+    }
+
+    const filter: any = { batchId: batch._id };
+    if (purok) {
+      filter.householdId = {
+        $in: await Household.find({ purok }).distinct("_id"),
+      };
+    }
+
+    const [claims, total] = await Promise.all([
+      DistributionClaim.find(filter)
+        .populate("householdId", "address purok")
+        .populate("releasedBy", "firstName lastName")
+        .sort({ claimedAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      DistributionClaim.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: claims,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch claims",
+    });
+  }
+};
+
+/**
+ * Download the batch's claims, unclaimed households and summary
+ * @route GET /api/v1/aid/batches/:id/export
+ * @access aid:distribute
+ */
+export const exportBatch = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const batch = await findBatch(req.params.id);
+    await batch.populate("programId", "name");
+
+    const [claims, summary] = await Promise.all([
+      DistributionClaim.find({ batchId: batch._id })
+        .populate("householdId", "address purok")
+        .populate("releasedBy", "firstName lastName")
+        .sort({ claimedAt: 1 })
+        .lean(),
+      summarizeBatch(batch),
+    ]);
+
+    const claimed = claims.map((claim: any) => claim.householdId?._id);
+    const unclaimed = await Household.find({
+      _id: { $in: batch.eligibleHouseholds, $nin: claimed },
+    })
+      .select("address purok members")
+      .sort({ purok: 1, address: 1 })
+      .lean();
+
+    const filename = `distribution-${batch._id}-${Date.now()}`;
+    const filePath = await exportDistributionToExcel(
+      batch.toObject(),
+      claims,
+      unclaimed,
+      summary,
+      filename,
+    );
+
+    await recordAidEvent(req, "export_distribution", batch._id, {
+      claims: claims.length,
+    });
+
+    res.download(filePath, `distribution-${batch._id}.xlsx`, () =>
+      deleteExportFile(filePath),
+    );
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to export distribution",
+    });
+  }
+};
+
+/**
+ * Everything a household has received
+ * @route GET /api/v1/aid/households/:id/claims
+ * @access aid:distribute
+ */
+export const getHouseholdClaims = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const claims = await DistributionClaim.find({ householdId: req.params.id })
+      .populate("programId", "name type")
+      .populate("batchId", "name distributionDate items amountPerHousehold")
+      .populate("releasedBy", "firstName lastName")
+      .sort({ claimedAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: claims,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch household claims",
+    });
+  }
+};
@@ -1,7 +1,31 @@
 import { Response } from "express";
+import { Types } from "mongoose";
 import Complaint from "../models/Complaint";
 import { AuthRequest } from "../types";
 
+// Optional ?zoneId= filter shared by every report. Aggregations do not cast,
+// so the id is converted here.
+const zoneMatch = (req: AuthRequest): Record<string, any> => {
+  const { zoneId } = req.query;
+  return zoneId && Types.ObjectId.isValid(zoneId as string)
+    ? { zoneId: new Types.ObjectId(zoneId as string) }
+    : {};
+};
+
+// 1 for complaints flagged with either SLA breach, for $sum
+const slaBreachedCount = {
+  $cond: [
+    {
+      $or: [
+        { $ifNull: ["$sla.responseBreachedAt", false] },
+        { $ifNull: ["$sla.resolutionBreachedAt", false] },
+      ],
+    },
+    1,
+    0,
+  ],
+};
+
 export const getTimeSeriesData = async (
   req: AuthRequest,
   res: Response,
@@ -35,6 +59,7 @@ export const getTimeSeriesData = async (
       {
         $match: {
           createdAt: { $gte: startDate },
+          ...zoneMatch(req),
         },
       },
       {
@@ -77,7 +102,7 @@ export const getStaffPerformance = async (
   try {
     const { startDate, endDate } = req.query;
 
-    const matchStage: any = {};
+    const matchStage: any = zoneMatch(req);
     if (startDate || endDate) {
       matchStage.createdAt = {};
       if (startDate) matchStage.createdAt.$gte = new Date(startDate as string);
@@ -99,6 +124,7 @@ export const getStaffPerformance = async (
           pending: {
             $sum: { $cond: [{ $eq: ["$status", "pending"] }, 1, 0] },
           },
+          slaBreached: { $sum: slaBreachedCount },
           avgRating: { $avg: "$rating" },
           totalRatings: {
             $sum: { $cond: [{ $ne: ["$rating", null] }, 1, 0] },
@@ -125,6 +151,7 @@ export const getStaffPerformance = async (
           resolved: 1,
           inProgress: 1,
           pending: 1,
+          slaBreached: 1,
           resolutionRate: {
             $cond: [
               { $eq: ["$totalAssigned", 0] },
@@ -154,11 +181,12 @@ export const getStaffPerformance = async (
 };
 
 export const getCategoryAnalytics = async (
-  _req: AuthRequest,
+  req: AuthRequest,
   res: Response,
 ): Promise<void> => {
   try {
     const categoryStats = await Complaint.aggregate([
+      { $match: zoneMatch(req) },
       {
         $group: {
           _id: "$category",
@@ -181,6 +209,7 @@ export const getCategoryAnalytics = async (
               ],
             },
           },
+          slaBreached: { $sum: slaBreachedCount },
           avgRating: { $avg: "$rating" },
         },
       },
@@ -191,6 +220,7 @@ export const getCategoryAnalytics = async (
           pending: 1,
           inProgress: 1,
           resolved: 1,
+          slaBreached: 1,
           resolutionRate: {
             $cond: [
               { $eq: ["$total", 0] },
@@ -222,7 +252,7 @@ export const getCategoryAnalytics = async (
 };
 
 export const getResponseTimeAnalytics = async (
-  _req: AuthRequest,
+  req: AuthRequest,
   res: Response,
 ): Promise<void> => {
   try {
@@ -230,6 +260,7 @@ export const getResponseTimeAnalytics = async (
       {
         $match: {
           resolvedAt: { $exists: true },
+          ...zoneMatch(req),
         },
       },
       {
@@ -298,6 +329,7 @@ export const getTrendAnalysis = async (
       {
         $match: {
           createdAt: { $gte: startDate },
+          ...zoneMatch(req),
         },
       },
       {
@@ -367,6 +399,7 @@ export const getMonthlyReport = async (
 
     const startDate = new Date(targetYear, targetMonth - 1, 1);
     const endDate = new Date(targetYear, targetMonth, 0, 23, 59, 59);
+    const zoneFilter = zoneMatch(req);
 
     const [complaintStats, staffStats, categoryStats] = await Promise.all([
       // Overall complaint statistics
@@ -374,6 +407,7 @@ export const getMonthlyReport = async (
         {
           $match: {
             createdAt: { $gte: startDate, $lte: endDate },
+            ...zoneFilter,
           },
         },
         {
@@ -401,6 +435,7 @@ export const getMonthlyReport = async (
                 ],
               },
             },
+            slaBreached: { $sum: slaBreachedCount },
             avgRating: { $avg: "$rating" },
           },
         },
@@ -412,6 +447,7 @@ export const getMonthlyReport = async (
           $match: {
             createdAt: { $gte: startDate, $lte: endDate },
             assignedTo: { $ne: null },
+            ...zoneFilter,
           },
         },
         {
@@ -421,6 +457,7 @@ export const getMonthlyReport = async (
             resolved: {
               $sum: { $cond: [{ $eq: ["$status", "resolved"] }, 1, 0] },
             },
+            slaBreached: { $sum: slaBreachedCount },
           },
         },
         {
@@ -439,6 +476,7 @@ export const getMonthlyReport = async (
             },
             assigned: 1,
             resolved: 1,
+            slaBreached: 1,
           },
         },
       ]),
@@ -448,6 +486,7 @@ export const getMonthlyReport = async (
         {
           $match: {
             createdAt: { $gte: startDate, $lte: endDate },
+            ...zoneFilter,
           },
         },
         {
@@ -469,6 +508,7 @@ export const getMonthlyReport = async (
           startDate,
           endDate,
         },
+        zoneId: req.query.zoneId || null,
         overview: complaintStats[0] || {},
         staffPerformance: staffStats,
         categoryBreakdown: categoryStats,
@@ -481,3 +521,238 @@ export const getMonthlyReport = async (
     });
   }
 };
+
+export const getZoneAnalytics = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    const matchStage: any = {};
+    if (startDate || endDate) {
+      matchStage.createdAt = {};
+      if (startDate) matchStage.createdAt.$gte = new Date(startDate as string);
+      if (endDate) matchStage.createdAt.$lte = new Date(endDate as string);
+    }
+
+    const zoneStats = await Complaint.aggregate([
+      { $match: matchStage },
+      {
+        $group: {
+          _id: "$zoneId",
+          total: { $sum: 1 },
+          pending: {
+            $sum: { $cond: [{ $eq: ["$status", "pending"] }, 1, 0] },
+          },
+          inProgress: {
+            $sum: { $cond: [{ $eq: ["$status", "in-progress"] }, 1, 0] },
+          },
+          resolved: {
+            $sum: { $cond: [{ $eq: ["$status", "resolved"] }, 1, 0] },
+          },
+          unassigned: {
+            $sum: { $cond: [{ $ifNull: ["$assignedTo", false] }, 0, 1] },
+          },
+          slaBreached: { $sum: slaBreachedCount },
+          avgResolutionTime: {
+            $avg: {
+              $cond: [
+                { $ne: ["$resolvedAt", null] },
+                { $subtract: ["$resolvedAt", "$createdAt"] },
+                null,
+              ],
+            },
+          },
+        },
+      },
+      {
+        $lookup: {
+          from: "zones",
+          localField: "_id",
+          foreignField: "_id",
+          as: "zone",
+        },
+      },
+      { $unwind: { path: "$zone", preserveNullAndEmptyArrays: true } },
+      {
+        $project: {
+          zoneId: "$_id",
+          // Complaints filed before zones existed, or by residents without one
+          zoneName: { $ifNull: ["$zone.name", "Unzoned"] },
+          total: 1,
+          pending: 1,
+          inProgress: 1,
+          resolved: 1,
+          unassigned: 1,
+          slaBreached: 1,
+          resolutionRate: {
+            $cond: [
+              { $eq: ["$total", 0] },
+              0,
+              {
+                $multiply: [{ $divide: ["$resolved", "$total"] }, 100],
+              },
+            ],
+          },
+          avgResolutionTimeHours: {
+            $round: [{ $divide: ["$avgResolutionTime", 3600000] }, 2],
+          },
+        },
+      },
+      { $sort: { total: -1 } },
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: zoneStats,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch zone analytics",
+    });
+  }
+};
+
+// SLA compliance by category and priority, for complaints filed with due dates
+export const getSlaAnalytics = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    const matchStage: any = {
+      "sla.resolutionDueAt": { $exists: true },
+      ...zoneMatch(req),
+    };
+    if (startDate || endDate) {
+      matchStage.createdAt = {};
+      if (startDate) matchStage.createdAt.$gte = new Date(startDate as string);
+      if (endDate) matchStage.createdAt.$lte = new Date(endDate as string);
+    }
+
+    const now = new Date();
+    const slaTotals = {
+      total: { $sum: 1 },
+      responseBreached: {
+        $sum: {
+          $cond: [{ $ifNull: ["$sla.responseBreachedAt", false] }, 1, 0],
+        },
+      },
+      resolutionBreached: {
+        $sum: {
+          $cond: [{ $ifNull: ["$sla.resolutionBreachedAt", false] }, 1, 0],
+        },
+      },
+      // Open and past due, including those the sweeper has not flagged yet
+      overdue: {
+        $sum: {
+          $cond: [
+            {
+              $and: [
+                { $in: ["$status", ["pending", "in-progress"]] },
+                { $lt: ["$sla.resolutionDueAt", now] },
+              ],
+            },
+            1,
+            0,
+          ],
+        },
+      },
+      avgFirstResponseTime: {
+        $avg: {
+          $cond: [
+            { $ifNull: ["$sla.firstRespondedAt", false] },
+            { $subtract: ["$sla.firstRespondedAt", "$createdAt"] },
+            null,
+          ],
+        },
+      },
+    };
+    const slaRates = {
+      total: 1,
+      responseBreached: 1,
+      resolutionBreached: 1,
+      overdue: 1,
+      responseCompliance: {
+        $round: [
+          {
+            $multiply: [
+              {
+                $divide: [
+                  { $subtract: ["$total", "$responseBreached"] },
+                  "$total",
+                ],
+              },
+              100,
+            ],
+          },
+          2,
+        ],
+      },
+      resolutionCompliance: {
+        $round: [
+          {
+            $multiply: [
+              {
+                $divide: [
+                  { $subtract: ["$total", "$resolutionBreached"] },
+                  "$total",
+                ],
+              },
+              100,
+            ],
+          },
+          2,
+        ],
+      },
+      avgFirstResponseHours: {
+        $round: [{ $divide: ["$avgFirstResponseTime", 3600000] }, 2],
+      },
+    };
+
+    const [slaStats] = await Complaint.aggregate([
+      { $match: matchStage },
+      {
+        $facet: {
+          overall: [
+            { $group: { _id: null, ...slaTotals } },
+            { $project: { _id: 0, ...slaRates } },
+          ],
+          breakdown: [
+            {
+              $group: {
+                _id: { category: "$category", priority: "$priority" },
+                ...slaTotals,
+              },
+            },
+            {
+              $project: {
+                _id: 0,
+                category: "$_id.category",
+                priority: "$_id.priority",
+                ...slaRates,
+              },
+            },
+            { $sort: { category: 1, priority: 1 } },
+          ],
+        },
+      },
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        overall: slaStats.overall[0] || null,
+        breakdown: slaStats.breakdown,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch SLA analytics",
+    });
+  }
+};
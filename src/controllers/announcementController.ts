@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import Announcement from "../models/Announcement";
+import Role from "../models/Role";
 import { broadcastToAll } from "../websocket/websocketServer";
 
 /**
@@ -24,8 +25,11 @@ export const getAnnouncements = async (req: Request, res: Response) => {
     // Build filter
     const filter: any = {};
 
-    // Non-admin users can only see published announcements
-    if (!user || (user.role !== "admin" && user.role !== "staff")) {
+    // Only users who can publish see drafts
+    if (
+      !user ||
+      !(await Role.hasPermission(user.role, "announcement:publish"))
+    ) {
       filter.isPublished = true;
     }
 
@@ -88,7 +92,7 @@ export const getAnnouncementById = async (req: Request, res: Response) => {
     const user = (req as any).user;
     if (
       !announcement.isPublished &&
-      (!user || (user.role !== "admin" && user.role !== "staff"))
+      (!user || !(await Role.hasPermission(user.role, "announcement:publish")))
     ) {
       return res.status(403).json({
         success: false,
@@ -1,18 +1,35 @@
 import { Request, Response } from "express";
 import jwt from "jsonwebtoken";
 import crypto from "crypto";
-import User from "../models/User";
+import User, { toProfileUpdate } from "../models/User";
 import AuditLog from "../models/AuditLog";
 import Notification from "../models/Notification";
-import { AuthRequest } from "../types";
+import Session, { ISession } from "../models/Session";
+import { AuthRequest, IUser } from "../types";
+import SystemConfig from "../models/SystemConfig";
+import Role from "../models/Role";
+import Zone from "../models/Zone";
+import { sendMail } from "../utils/mailer";
+import { generateSecret, verifyTotp, buildOtpauthUri } from "../utils/totp";
 import {
   UnauthorizedError,
   NotFoundError,
   ConflictError,
   ValidationError,
+  TooManyRequestsError,
+  ForbiddenError,
+  LockedError,
 } from "../utils/AppError";
-
-const generateToken = (id: string, role: string): string => {
+import { emitToUser, disconnectUser } from "../config/socket";
+import {
+  setAuthCookies,
+  clearAuthCookies,
+  REFRESH_TOKEN_COOKIE,
+} from "../utils/authCookies";
+import { generateCsrfToken, getCookieSessionId } from "../middleware/csrf";
+
+// tv (token version) lets every token of a user be invalidated at once
+const generateToken = (user: IUser, sid: string): string => {
   const jwtSecret = process.env.JWT_SECRET;
   const jwtExpire = process.env.JWT_EXPIRE || "7d";
 
@@ -20,12 +37,19 @@ const generateToken = (id: string, role: string): string => {
     throw new Error("JWT_SECRET is not configured");
   }
 
-  return jwt.sign({ id, role }, jwtSecret, {
-    expiresIn: jwtExpire,
-  } as jwt.SignOptions);
+  return jwt.sign(
+    {
+      id: user._id.toString(),
+      role: user.role,
+      sid,
+      tv: user.tokenVersion || 0,
+    },
+    jwtSecret,
+    { expiresIn: jwtExpire } as jwt.SignOptions,
+  );
 };
 
-const generateRefreshToken = (id: string): string => {
+const generateRefreshToken = (user: IUser, sid: string): string => {
   const jwtRefreshSecret = process.env.JWT_REFRESH_SECRET;
   const jwtRefreshExpire = process.env.JWT_REFRESH_EXPIRE || "30d";
 
@@ -33,21 +57,403 @@ const generateRefreshToken = (id: string): string => {
     throw new Error("JWT_REFRESH_SECRET is not configured");
   }
 
-  return jwt.sign({ id }, jwtRefreshSecret, {
-    expiresIn: jwtRefreshExpire,
+  // jti makes every rotated token unique even within the same second
+  return jwt.sign(
+    {
+      id: user._id.toString(),
+      sid,
+      tv: user.tokenVersion || 0,
+      jti: crypto.randomBytes(16).toString("hex"),
+    },
+    jwtRefreshSecret,
+    { expiresIn: jwtRefreshExpire } as jwt.SignOptions,
+  );
+};
+
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const recordAuthEvent = async (
+  req: Request,
+  user: IUser,
+  action: string,
+  details: Record<string, any> = {},
+): Promise<void> => {
+  await AuditLog.create({
+    userId: user._id,
+    userName: `${user.firstName} ${user.lastName}`,
+    action,
+    targetType: "user",
+    targetId: user._id,
+    details: { userEmail: user.email, ...details },
+    ipAddress: req.ip,
+    userAgent: req.get("user-agent"),
+  });
+};
+
+const MAX_KNOWN_DEVICES = 20;
+
+/**
+ * Reject sign-in attempts while the account is locked out
+ */
+const assertNotLocked = (user: IUser): void => {
+  if (user.isLocked()) {
+    const minutes = Math.ceil(
+      ((user.lockUntil as Date).getTime() - Date.now()) / 60000,
+    );
+    throw new LockedError(
+      `Account is temporarily locked due to repeated failed sign-ins. Try again in ${minutes} minute(s).`,
+    );
+  }
+};
+
+/**
+ * Count a failed sign-in; lock the account once the limit is reached.
+ * Each consecutive lockout doubles in length.
+ */
+const registerFailedLogin = async (
+  req: Request,
+  user: IUser,
+): Promise<void> => {
+  const maxAttempts = parseInt(process.env.LOGIN_MAX_ATTEMPTS || "5");
+  const baseMinutes = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15");
+  const maxMinutes = parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || "1440");
+
+  // Atomic increment so parallel guesses are all counted
+  const updated = await User.findByIdAndUpdate(
+    user._id,
+    { $inc: { failedLoginAttempts: 1 } },
+    { new: true },
+  );
+  if (!updated || updated.failedLoginAttempts < maxAttempts) {
+    return;
+  }
+
+  const minutes = Math.min(
+    baseMinutes * 2 ** (updated.lockoutCount || 0),
+    maxMinutes,
+  );
+  const lockUntil = new Date(Date.now() + minutes * 60 * 1000);
+
+  const result = await User.updateOne(
+    { _id: user._id, failedLoginAttempts: { $gte: maxAttempts } },
+    {
+      failedLoginAttempts: 0,
+      lockUntil,
+      $inc: { lockoutCount: 1 },
+    },
+  );
+  if (result.modifiedCount === 0) {
+    return;
+  }
+
+  await recordAuthEvent(req, user, "account_locked", {
+    lockUntil,
+    lockoutCount: (updated.lockoutCount || 0) + 1,
+  });
+
+  await Notification.create({
+    userId: user._id,
+    title: "Account Temporarily Locked",
+    message: `Your account was locked for ${minutes} minutes after repeated failed sign-in attempts. If this was not you, reset your password.`,
+    type: "warning",
+  });
+};
+
+const clearFailedLogins = async (user: IUser): Promise<void> => {
+  if (user.failedLoginAttempts || user.lockoutCount || user.lockUntil) {
+    await User.updateOne(
+      { _id: user._id },
+      {
+        failedLoginAttempts: 0,
+        lockoutCount: 0,
+        $unset: { lockUntil: 1 },
+      },
+    );
+  }
+};
+
+/**
+ * Remember the device of a successful sign-in and alert the user when the
+ * IP/user-agent combination has never been seen before
+ */
+const recordSignInDevice = async (req: Request, user: IUser): Promise<void> => {
+  const ipAddress = req.ip;
+  const userAgent = req.get("user-agent") || "unknown";
+  const fingerprint = hashToken(`${ipAddress}|${userAgent}`);
+  const now = new Date();
+
+  const current = await User.findById(user._id).select("+knownDevices");
+  const devices = current?.knownDevices || [];
+
+  if (devices.some((device) => device.fingerprint === fingerprint)) {
+    await User.updateOne(
+      { _id: user._id, "knownDevices.fingerprint": fingerprint },
+      { $set: { "knownDevices.$.lastSeenAt": now } },
+    );
+    return;
+  }
+
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $push: {
+        knownDevices: {
+          $each: [
+            {
+              fingerprint,
+              ipAddress,
+              userAgent,
+              firstSeenAt: now,
+              lastSeenAt: now,
+            },
+          ],
+          $slice: -MAX_KNOWN_DEVICES,
+        },
+      },
+    },
+  );
+
+  // The very first device (registration) is not suspicious
+  if (devices.length === 0) {
+    return;
+  }
+
+  const message = `New sign-in to your account from ${userAgent} (IP ${ipAddress}) at ${now.toLocaleString()}. If this was not you, change your password and sign out other sessions.`;
+
+  await Notification.create({
+    userId: user._id,
+    title: "New Sign-In Detected",
+    message,
+    type: "warning",
+  });
+
+  emitToUser(user._id.toString(), "auth:new-sign-in", {
+    ipAddress,
+    userAgent,
+    signedInAt: now,
+  });
+
+  await recordAuthEvent(req, user, "new_device_sign_in", {
+    ipAddress,
+    userAgent,
+  });
+};
+
+/**
+ * Start a new session for the user and issue its access and refresh tokens
+ */
+const createSession = async (
+  req: Request,
+  user: IUser,
+): Promise<{ token: string; refreshToken: string; csrfToken: string }> => {
+  const session = new Session({
+    userId: user._id,
+    userAgent: req.get("user-agent"),
+    ipAddress: req.ip,
+  });
+
+  const refreshToken = generateRefreshToken(user, session._id.toString());
+  const { exp } = jwt.decode(refreshToken) as { exp: number };
+
+  session.tokenHash = hashToken(refreshToken);
+  session.expiresAt = new Date(exp * 1000);
+  await session.save();
+
+  try {
+    await recordSignInDevice(req, user);
+  } catch (deviceError) {
+    console.error("Failed to record sign-in device:", deviceError);
+  }
+
+  return {
+    token: generateToken(user, session._id.toString()),
+    refreshToken,
+    csrfToken: generateCsrfToken(session._id.toString()),
+  };
+};
+
+/**
+ * Issue a new token pair for an existing session, rotating its refresh token.
+ * With `currentHash` the rotation only happens while that hash is still the
+ * session's, so of two concurrent refreshes with one token only one wins.
+ * Returns null when the session was revoked or already rotated.
+ */
+const rotateSessionTokens = async (
+  req: Request,
+  user: IUser,
+  session: ISession,
+  currentHash?: string,
+): Promise<{ token: string; refreshToken: string } | null> => {
+  const refreshToken = generateRefreshToken(user, session._id.toString());
+
+  const rotated = await Session.findOneAndUpdate(
+    {
+      _id: session._id,
+      revokedAt: null,
+      ...(currentHash && { tokenHash: currentHash }),
+    },
+    {
+      tokenHash: hashToken(refreshToken),
+      lastUsedAt: new Date(),
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    },
+  );
+  if (!rotated) return null;
+
+  return {
+    token: generateToken(user, session._id.toString()),
+    refreshToken,
+  };
+};
+
+type TwoFactorChallengePurpose = "2fa" | "2fa-setup";
+
+// Challenge tokens use their own key so they can never pass as access tokens
+const getChallengeSecret = (): string => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+  return crypto
+    .createHmac("sha256", jwtSecret)
+    .update("two-factor-challenge")
+    .digest("hex");
+};
+
+const generateChallengeToken = (
+  id: string,
+  purpose: TwoFactorChallengePurpose,
+): string =>
+  jwt.sign({ id, purpose }, getChallengeSecret(), {
+    expiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRE || "5m",
   } as jwt.SignOptions);
+
+const verifyChallengeToken = (
+  challengeToken: string,
+  purpose: TwoFactorChallengePurpose,
+): string => {
+  try {
+    const decoded = jwt.verify(challengeToken, getChallengeSecret()) as {
+      id: string;
+      purpose: string;
+    };
+    if (decoded.purpose !== purpose) {
+      throw new Error("Unexpected challenge purpose");
+    }
+    return decoded.id;
+  } catch (error) {
+    throw new UnauthorizedError(
+      "Verification session is invalid or has expired. Please login again.",
+    );
+  }
+};
+
+const isTwoFactorRequiredForRole = async (role: string): Promise<boolean> => {
+  const config = await SystemConfig.findOne({
+    key: "two_factor_required_roles",
+  });
+  const roles: string[] = config?.value || [];
+  return roles.includes(role);
+};
+
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: 10 }, () => {
+    const code = crypto.randomBytes(4).toString("hex");
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+
+const toAuthUser = (user: IUser) => ({
+  id: user._id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  email: user.email,
+  role: user.role,
+  address: user.address,
+  phoneNumber: user.phoneNumber,
+  isVerified: user.isVerified,
+  twoFactorEnabled: user.twoFactorEnabled,
+});
+
+/**
+ * Check a TOTP code (or, when allowed, a recovery code) for a user loaded with
+ * +twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep.
+ * Consumes the code so it cannot be replayed.
+ */
+const consumeSecondFactor = async (
+  user: IUser,
+  code?: string,
+  recoveryCode?: string,
+): Promise<"totp" | "recovery_code" | null> => {
+  if (code && user.twoFactorSecret) {
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (
+      step !== null &&
+      (user.twoFactorLastUsedStep === undefined ||
+        step > user.twoFactorLastUsedStep)
+    ) {
+      user.twoFactorLastUsedStep = step;
+      await user.save({ validateBeforeSave: false });
+      return "totp";
+    }
+    return null;
+  }
+
+  if (recoveryCode) {
+    const hashed = hashToken(recoveryCode.trim().toLowerCase());
+    const remaining = user.twoFactorRecoveryCodes || [];
+    if (remaining.includes(hashed)) {
+      user.twoFactorRecoveryCodes = remaining.filter((c) => c !== hashed);
+      await user.save({ validateBeforeSave: false });
+      return "recovery_code";
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Generate a fresh verification token for the user and email the link
+ */
+const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const verificationToken = crypto.randomBytes(32).toString("hex");
+  const expireHours = parseInt(
+    process.env.EMAIL_VERIFICATION_EXPIRE_HOURS || "24",
+  );
+
+  user.emailVerificationToken = hashToken(verificationToken);
+  user.emailVerificationExpires = new Date(
+    Date.now() + expireHours * 60 * 60 * 1000,
+  );
+  user.emailVerificationSentAt = new Date();
+  await user.save({ validateBeforeSave: false });
+
+  const frontendUrl = process.env.FRONTEND_URL || "http://localhost:3000";
+  const verifyUrl = `${frontendUrl}/verify-email?token=${verificationToken}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Verify your iBarangay email address",
+    text:
+      `Hello ${user.firstName},\n\n` +
+      `Please confirm your email address by opening the link below:\n\n` +
+      `${verifyUrl}\n\n` +
+      `This link expires in ${expireHours} hours.`,
+  });
 };
 
 /**
- * Get CSRF token
+ * Get a CSRF token for the session in the auth cookies. Only cookie-based
+ * clients need one; without a cookie session the token is null.
  */
 export const getCsrfToken = async (
-  _req: Request,
+  req: Request,
   res: Response,
 ): Promise<void> => {
   try {
-    // Generate a random CSRF token
-    const csrfToken = crypto.randomBytes(32).toString("hex");
+    const sessionId = getCookieSessionId(req);
+    const csrfToken = sessionId ? generateCsrfToken(sessionId) : null;
 
     res.status(200).json({
       success: true,
@@ -88,26 +494,24 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       role: "resident",
     });
 
+    // A mail outage should not block registration; the user can resend later
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError: any) {
+      console.error("Failed to send verification email:", mailError);
+    }
+
     // Generate tokens
-    const token = generateToken(user._id.toString(), user.role);
-    const refreshToken = generateRefreshToken(user._id.toString());
+    const session = await createSession(req, user);
+    setAuthCookies(res, session);
 
     res.status(201).json({
       success: true,
-      message: "Registration successful",
+      message:
+        "Registration successful. Please check your email to verify your account.",
       data: {
-        user: {
-          id: user._id,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          email: user.email,
-          role: user.role,
-          address: user.address,
-          phoneNumber: user.phoneNumber,
-          isVerified: user.isVerified,
-        },
-        token,
-        refreshToken,
+        user: toAuthUser(user),
+        ...session,
       },
     });
   } catch (error: any) {
@@ -131,32 +535,64 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       throw new UnauthorizedError("Invalid email or password");
     }
 
+    assertNotLocked(user);
+
     // Check password
     const isPasswordValid = await user.comparePassword(password);
     if (!isPasswordValid) {
+      await registerFailedLogin(req, user);
       throw new UnauthorizedError("Invalid email or password");
     }
 
+    if (!user.isActive) {
+      throw new ForbiddenError(
+        "Your account has been deactivated. Please contact the barangay office.",
+      );
+    }
+
+    // Second step: exchange the challenge token at /2fa/verify. Failed
+    // attempts are only cleared there so the code cannot be brute-forced
+    // by signing in again with the password.
+    if (user.twoFactorEnabled) {
+      res.status(200).json({
+        success: true,
+        message: "Two-factor authentication required",
+        data: {
+          twoFactorRequired: true,
+          challengeToken: generateChallengeToken(user._id.toString(), "2fa"),
+        },
+      });
+      return;
+    }
+
+    await clearFailedLogins(user);
+
+    // Roles that must use 2FA enroll before receiving a session
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      res.status(200).json({
+        success: true,
+        message: "Two-factor authentication setup required",
+        data: {
+          twoFactorSetupRequired: true,
+          challengeToken: generateChallengeToken(
+            user._id.toString(),
+            "2fa-setup",
+          ),
+        },
+      });
+      return;
+    }
+
     // Generate tokens
-    const token = generateToken(user._id.toString(), user.role);
-    const refreshToken = generateRefreshToken(user._id.toString());
+    const session = await createSession(req, user);
+    setAuthCookies(res, session);
 
     res.status(200).json({
       success: true,
       message: "Login successful",
       data: {
-        user: {
-          id: user._id,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          email: user.email,
-          role: user.role,
-          address: user.address,
-          phoneNumber: user.phoneNumber,
-          isVerified: user.isVerified,
-        },
-        token,
-        refreshToken,
+        user: toAuthUser(user),
+        ...session,
       },
     });
   } catch (error: any) {
@@ -167,6 +603,365 @@ export const login = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+/**
+ * Complete login with a TOTP or recovery code
+ */
+export const verifyTwoFactorLogin = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const userId = verifyChallengeToken(challengeToken, "2fa");
+    const user = await User.findById(userId).select(
+      "+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep",
+    );
+
+    if (!user || !user.twoFactorEnabled || !user.isActive) {
+      throw new UnauthorizedError("Invalid verification session");
+    }
+
+    assertNotLocked(user);
+
+    const method = await consumeSecondFactor(user, code, recoveryCode);
+    if (!method) {
+      await registerFailedLogin(req, user);
+      throw new UnauthorizedError("Invalid authentication code");
+    }
+
+    await clearFailedLogins(user);
+
+    if (method === "recovery_code") {
+      await recordAuthEvent(req, user, "2fa_recovery_code_used", {
+        remainingCodes: user.twoFactorRecoveryCodes?.length || 0,
+      });
+    }
+
+    const session = await createSession(req, user);
+    setAuthCookies(res, session);
+
+    res.status(200).json({
+      success: true,
+      message: "Login successful",
+      data: {
+        user: toAuthUser(user),
+        ...session,
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Two-factor verification failed",
+    });
+  }
+};
+
+/**
+ * Resolve the user enrolling in 2FA: either the signed-in user or the holder
+ * of a setup challenge issued at login
+ */
+const resolveEnrollingUser = async (
+  req: AuthRequest,
+  select: string,
+): Promise<{ user: IUser; viaChallenge: boolean }> => {
+  const { challengeToken } = req.body;
+  const userId = challengeToken
+    ? verifyChallengeToken(challengeToken, "2fa-setup")
+    : req.user?.id;
+
+  const user = await User.findById(userId).select(select);
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  return { user, viaChallenge: Boolean(challengeToken) };
+};
+
+/**
+ * Start 2FA enrollment: generate a secret and otpauth URI
+ */
+export const setupTwoFactor = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { user } = await resolveEnrollingUser(req, "+twoFactorPendingSecret");
+
+    if (user.twoFactorEnabled) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      message: "Scan the QR code with your authenticator app",
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email),
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to start two-factor setup",
+    });
+  }
+};
+
+/**
+ * Confirm 2FA enrollment with a code from the authenticator app
+ */
+export const enableTwoFactor = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+    const { user, viaChallenge } = await resolveEnrollingUser(
+      req,
+      "+twoFactorPendingSecret",
+    );
+
+    if (user.twoFactorEnabled) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      throw new ValidationError("Start two-factor setup first");
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      throw new ValidationError("Invalid authentication code");
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    user.twoFactorEnabled = true;
+    user.twoFactorEnabledAt = new Date();
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorLastUsedStep = step;
+    user.twoFactorRecoveryCodes = recoveryCodes.map(hashToken);
+    await user.save({ validateBeforeSave: false });
+
+    await recordAuthEvent(req, user, "2fa_enabled");
+
+    // Enrollment forced at login finishes the login as well
+    const session = viaChallenge ? await createSession(req, user) : undefined;
+    if (session) {
+      setAuthCookies(res, session);
+    }
+
+    res.status(200).json({
+      success: true,
+      message:
+        "Two-factor authentication enabled. Store your recovery codes somewhere safe.",
+      data: {
+        recoveryCodes,
+        ...(session && { user: toAuthUser(user), ...session }),
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to enable two-factor authentication",
+    });
+  }
+};
+
+/**
+ * Disable 2FA for the current user
+ */
+export const disableTwoFactor = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { password, code } = req.body;
+
+    const user = await User.findById(req.user?.id).select(
+      "+password +twoFactorSecret +twoFactorLastUsedStep",
+    );
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new ValidationError("Two-factor authentication is not enabled");
+    }
+
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      throw new ForbiddenError(
+        "Two-factor authentication is required for your role",
+      );
+    }
+
+    if (!(await user.comparePassword(password))) {
+      throw new UnauthorizedError("Password is incorrect");
+    }
+
+    if (!(await consumeSecondFactor(user, code))) {
+      throw new UnauthorizedError("Invalid authentication code");
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorEnabledAt = undefined;
+    user.twoFactorSecret = undefined;
+    user.twoFactorRecoveryCodes = undefined;
+    user.twoFactorLastUsedStep = undefined;
+    await user.save({ validateBeforeSave: false });
+
+    await recordAuthEvent(req, user, "2fa_disabled");
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to disable two-factor authentication",
+    });
+  }
+};
+
+/**
+ * Replace the recovery codes of the current user
+ */
+export const regenerateRecoveryCodes = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    const user = await User.findById(req.user?.id).select(
+      "+twoFactorSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep",
+    );
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new ValidationError("Two-factor authentication is not enabled");
+    }
+
+    if (!(await consumeSecondFactor(user, code))) {
+      throw new UnauthorizedError("Invalid authentication code");
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    user.twoFactorRecoveryCodes = recoveryCodes.map(hashToken);
+    await user.save({ validateBeforeSave: false });
+
+    await recordAuthEvent(req, user, "2fa_recovery_codes_regenerated");
+
+    res.status(200).json({
+      success: true,
+      message: "Recovery codes regenerated",
+      data: { recoveryCodes },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to regenerate recovery codes",
+    });
+  }
+};
+
+/**
+ * Verify email address using the emailed token
+ */
+export const verifyEmail = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const token = req.query.token as string;
+
+    const user = await User.findOne({
+      emailVerificationToken: hashToken(token),
+      emailVerificationExpires: { $gt: new Date() },
+    }).select("+emailVerificationToken +emailVerificationExpires");
+
+    if (!user) {
+      throw new ValidationError("Verification link is invalid or has expired");
+    }
+
+    // An email confirmation never downgrades an identity verification
+    if (!user.isVerified) {
+      user.isVerified = true;
+      user.verifiedAt = new Date();
+      user.verificationMethod = "email";
+    }
+    user.emailVerificationToken = undefined;
+    user.emailVerificationExpires = undefined;
+    await user.save({ validateBeforeSave: false });
+
+    await recordAuthEvent(req, user, "email_verified");
+
+    res.status(200).json({
+      success: true,
+      message: "Email verified successfully",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to verify email",
+    });
+  }
+};
+
+/**
+ * Resend the email verification link
+ */
+export const resendVerificationEmail = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?.id);
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (user.isVerified) {
+      throw new ValidationError("Account is already verified");
+    }
+
+    const cooldownSeconds = parseInt(
+      process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS || "60",
+    );
+    if (user.emailVerificationSentAt) {
+      const elapsedSeconds =
+        (Date.now() - user.emailVerificationSentAt.getTime()) / 1000;
+      if (elapsedSeconds < cooldownSeconds) {
+        throw new TooManyRequestsError(
+          `Please wait ${Math.ceil(cooldownSeconds - elapsedSeconds)} seconds before requesting another verification email`,
+        );
+      }
+    }
+
+    await sendVerificationEmail(user);
+
+    res.status(200).json({
+      success: true,
+      message: "Verification email sent",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to resend verification email",
+    });
+  }
+};
+
 /**
  * Get user profile
  */
@@ -192,6 +987,10 @@ export const getProfile = async (
         address: user.address,
         phoneNumber: user.phoneNumber,
         isVerified: user.isVerified,
+        householdId: user.householdId,
+        zoneId: user.zoneId,
+        profile: user.profile,
+        twoFactorEnabled: user.twoFactorEnabled,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       },
@@ -212,11 +1011,23 @@ export const updateProfile = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const { firstName, lastName, address, phoneNumber } = req.body;
+    const { firstName, lastName, address, phoneNumber, zoneId, profile } =
+      req.body;
+
+    if (zoneId && !(await Zone.exists({ _id: zoneId, isActive: true }))) {
+      throw new ValidationError("Invalid zone");
+    }
 
     const user = await User.findByIdAndUpdate(
       req.user?.id,
-      { firstName, lastName, address, phoneNumber },
+      {
+        firstName,
+        lastName,
+        address,
+        phoneNumber,
+        zoneId,
+        ...toProfileUpdate(profile),
+      },
       { new: true, runValidators: true },
     );
 
@@ -236,6 +1047,8 @@ export const updateProfile = async (
         address: user.address,
         phoneNumber: user.phoneNumber,
         isVerified: user.isVerified,
+        zoneId: user.zoneId,
+        profile: user.profile,
       },
     });
   } catch (error: any) {
@@ -268,13 +1081,37 @@ export const changePassword = async (
       throw new UnauthorizedError("Current password is incorrect");
     }
 
-    // Update password
+    // Update password; every previously issued token stops working
     user.password = newPassword;
+    user.tokenVersion = (user.tokenVersion || 0) + 1;
     await user.save();
 
+    // Sign out other devices and keep the current one signed in
+    await Session.updateMany(
+      {
+        userId: user._id,
+        revokedAt: null,
+        ...(req.user?.sessionId && { _id: { $ne: req.user.sessionId } }),
+      },
+      { revokedAt: new Date(), revokedReason: "password_changed" },
+    );
+
+    const currentSession = req.user?.sessionId
+      ? await Session.findById(req.user.sessionId)
+      : null;
+    const tokens =
+      (currentSession &&
+        (await rotateSessionTokens(req, user, currentSession))) ||
+      (await createSession(req, user));
+    setAuthCookies(res, tokens);
+
+    disconnectUser(user._id.toString());
+    await recordAuthEvent(req, user, "password_changed");
+
     res.status(200).json({
       success: true,
       message: "Password changed successfully",
+      data: tokens,
     });
   } catch (error: any) {
     res.status(error.statusCode || 500).json({
@@ -285,14 +1122,134 @@ export const changePassword = async (
 };
 
 /**
- * Refresh access token
+ * Request a password reset email
+ */
+export const forgotPassword = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email });
+
+    // Always answer the same way so the endpoint cannot be used to probe emails
+    if (user && user.isActive !== false) {
+      const resetToken = crypto.randomBytes(32).toString("hex");
+      const expireMinutes = parseInt(
+        process.env.PASSWORD_RESET_EXPIRE_MINUTES || "30",
+      );
+
+      user.passwordResetToken = hashToken(resetToken);
+      user.passwordResetExpires = new Date(
+        Date.now() + expireMinutes * 60 * 1000,
+      );
+      await user.save({ validateBeforeSave: false });
+
+      const frontendUrl = process.env.FRONTEND_URL || "http://localhost:3000";
+      const resetUrl = `${frontendUrl}/reset-password?token=${resetToken}`;
+
+      try {
+        await sendMail({
+          to: user.email,
+          subject: "Reset your iBarangay password",
+          text:
+            `Hello ${user.firstName},\n\n` +
+            `We received a request to reset your password. Open the link below to choose a new one:\n\n` +
+            `${resetUrl}\n\n` +
+            `This link expires in ${expireMinutes} minutes and can only be used once. ` +
+            `If you did not request a reset, you can ignore this email.`,
+        });
+      } catch (mailError) {
+        // An error here would only ever show up for registered emails, so
+        // the response stays the same
+        console.error("Failed to send password reset email:", mailError);
+        user.passwordResetToken = undefined;
+        user.passwordResetExpires = undefined;
+        await user.save({ validateBeforeSave: false });
+      }
+
+      if (user.passwordResetToken) {
+        await recordAuthEvent(req, user, "password_reset_requested");
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message:
+        "If an account exists for that email, a password reset link has been sent.",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to process password reset request",
+    });
+  }
+};
+
+/**
+ * Reset password using a reset token
+ */
+export const resetPassword = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body;
+
+    const user = await User.findOne({
+      passwordResetToken: hashToken(token),
+      passwordResetExpires: { $gt: new Date() },
+    }).select("+password +passwordResetToken +passwordResetExpires");
+
+    if (!user) {
+      throw new ValidationError(
+        "Password reset token is invalid or has expired",
+      );
+    }
+
+    // Saving the new password also invalidates every previously issued token
+    user.password = newPassword;
+    user.passwordResetToken = undefined;
+    user.passwordResetExpires = undefined;
+    user.tokenVersion = (user.tokenVersion || 0) + 1;
+    await user.save();
+    await Session.revokeAllForUser(user._id, "password_reset");
+    disconnectUser(user._id.toString());
+
+    await recordAuthEvent(req, user, "password_reset");
+
+    await Notification.create({
+      userId: user._id,
+      title: "Password Changed",
+      message:
+        "Your password was reset. If you did not do this, contact the barangay office immediately.",
+      type: "warning",
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Password has been reset. Please log in with your new password.",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to reset password",
+    });
+  }
+};
+
+/**
+ * Refresh access token, rotating the refresh token
  */
 export const refreshToken = async (
   req: Request,
   res: Response,
 ): Promise<void> => {
   try {
-    const { refreshToken } = req.body;
+    // Browser clients send the refresh token as a cookie
+    const refreshToken =
+      req.body.refreshToken || req.cookies?.[REFRESH_TOKEN_COOKIE];
 
     if (!refreshToken) {
       throw new ValidationError("Refresh token is required");
@@ -306,22 +1263,68 @@ export const refreshToken = async (
     // Verify refresh token
     const decoded = jwt.verify(refreshToken, jwtRefreshSecret) as {
       id: string;
+      sid?: string;
+      tv?: number;
+      iat: number;
     };
 
+    if (!decoded.sid) {
+      throw new UnauthorizedError("Invalid refresh token");
+    }
+
+    const session = await Session.findOne({
+      _id: decoded.sid,
+      userId: decoded.id,
+    }).select("+tokenHash");
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new UnauthorizedError("Session has ended. Please login again.");
+    }
+
     // Get user
     const user = await User.findById(decoded.id);
-    if (!user) {
+    if (
+      !user ||
+      !user.isActive ||
+      (decoded.tv || 0) !== (user.tokenVersion || 0) ||
+      user.changedPasswordAfter(decoded.iat)
+    ) {
       throw new UnauthorizedError("Invalid refresh token");
     }
 
-    // Generate new access token
-    const newToken = generateToken(user._id.toString(), user.role);
+    // A valid but superseded token means it was copied: end the whole session.
+    // Losing a concurrent rotation with the same token counts as reuse too.
+    const presentedHash = hashToken(refreshToken);
+    const tokens =
+      session.tokenHash === presentedHash
+        ? await rotateSessionTokens(req, user, session, presentedHash)
+        : null;
+    if (!tokens) {
+      await Session.updateOne(
+        { _id: session._id, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: "refresh_token_reuse" },
+      );
+
+      await recordAuthEvent(req, user, "refresh_token_reuse", {
+        sessionId: session._id,
+      });
+
+      await Notification.create({
+        userId: user._id,
+        title: "Suspicious Session Activity",
+        message:
+          "An old sign-in token was reused, so that device has been signed out. If this was not you, change your password.",
+        type: "warning",
+      });
+
+      throw new UnauthorizedError("Session has ended. Please login again.");
+    }
+
+    setAuthCookies(res, tokens);
 
     res.status(200).json({
       success: true,
-      data: {
-        token: newToken,
-      },
+      data: tokens,
     });
   } catch (error: any) {
     if (
@@ -341,6 +1344,127 @@ export const refreshToken = async (
   }
 };
 
+/**
+ * Logout from the current session
+ */
+export const logout = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    if (req.user?.sessionId) {
+      await Session.updateOne(
+        { _id: req.user.sessionId, userId: req.user.id, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: "logout" },
+      );
+    }
+
+    clearAuthCookies(res);
+
+    res.status(200).json({
+      success: true,
+      message: "Logged out successfully",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to logout",
+    });
+  }
+};
+
+/**
+ * Logout from every session of the current user
+ */
+export const logoutAll = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const revoked = await Session.revokeAllForUser(
+      req.user?.id as string,
+      "logout_all",
+    );
+
+    clearAuthCookies(res);
+
+    res.status(200).json({
+      success: true,
+      message: "Logged out from all devices",
+      data: { revoked },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to logout from all devices",
+    });
+  }
+};
+
+/**
+ * List active sessions of the current user
+ */
+export const getSessions = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const sessions = await Session.find({
+      userId: req.user?.id,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: sessions.map((session) => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === req.user?.sessionId,
+      })),
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to fetch sessions",
+    });
+  }
+};
+
+/**
+ * Revoke one of the current user's sessions
+ */
+export const revokeSession = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const session = await Session.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user?.id, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: "revoked_by_user" },
+      { new: true },
+    );
+
+    if (!session) {
+      throw new NotFoundError("Session not found");
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Session revoked successfully",
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to revoke session",
+    });
+  }
+};
+
 /**
  * Get all users (admin only)
  */
@@ -409,13 +1533,14 @@ export const updateUserRole = async (
     const { role } = req.body;
     const { id } = req.params;
 
-    if (!["admin", "staff", "resident"].includes(role)) {
+    if (!role || !(await Role.exists({ name: role }))) {
       throw new ValidationError("Invalid role");
     }
 
+    // Tokens carrying the old role stop working
     const user = await User.findByIdAndUpdate(
       id,
-      { role },
+      { role, $inc: { tokenVersion: 1 } },
       { new: true, runValidators: true },
     ).select("-password");
 
@@ -423,6 +1548,8 @@ export const updateUserRole = async (
       throw new NotFoundError("User not found");
     }
 
+    disconnectUser(user._id.toString());
+
     // Create audit log
     const adminUser = await User.findById(req.user?.id);
     if (adminUser) {
@@ -463,7 +1590,13 @@ export const verifyUser = async (
 
     const user = await User.findByIdAndUpdate(
       id,
-      { isVerified: true },
+      {
+        isVerified: true,
+        verifiedBy: req.user?.id,
+        verifiedAt: new Date(),
+        verificationMethod: "manual",
+        $unset: { emailVerificationToken: 1, emailVerificationExpires: 1 },
+      },
       { new: true },
     ).select("-password");
 
@@ -543,9 +1676,9 @@ export const createStaffAdmin = async (
     const { firstName, lastName, email, password, address, phoneNumber, role } =
       req.body;
 
-    // Validate role
-    if (!["admin", "staff"].includes(role)) {
-      throw new ValidationError("Role must be either admin or staff");
+    // Validate role: any official role, residents register themselves
+    if (role === "resident" || !role || !(await Role.exists({ name: role }))) {
+      throw new ValidationError("Role must be an existing non-resident role");
     }
 
     // Check if user exists
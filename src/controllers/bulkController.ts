@@ -1,7 +1,16 @@
 import { Request, Response } from "express";
 import Complaint from "../models/Complaint";
+import Role from "../models/Role";
 import Service from "../models/Service";
 import { Parser } from "json2csv";
+import { AuthRequest } from "../types";
+import {
+  getComplaintWorkflow,
+  checkStatusChange,
+  buildStatusUpdate,
+  notifyStatusChange,
+} from "../utils/complaintWorkflow";
+import { foldDuplicate } from "../utils/complaintDuplicates";
 
 /**
  * Bulk Operations Controller
@@ -9,16 +18,18 @@ import { Parser } from "json2csv";
  */
 
 /**
- * Bulk update complaints status
+ * Bulk update complaints status. Each complaint goes through the same
+ * workflow and assignment checks as a single update; those that fail are
+ * skipped and reported with the reason.
  * @route POST /api/v1/bulk/complaints/status
  * @access Admin, Staff
  */
 export const bulkUpdateComplaintsStatus = async (
-  req: Request,
+  req: AuthRequest,
   res: Response,
 ) => {
   try {
-    const { complaintIds, status } = req.body;
+    const { complaintIds, status, response, duplicateOf } = req.body;
 
     if (!Array.isArray(complaintIds) || complaintIds.length === 0) {
       return res.status(400).json({
@@ -27,17 +38,70 @@ export const bulkUpdateComplaintsStatus = async (
       });
     }
 
-    const result = await Complaint.updateMany(
-      { _id: { $in: complaintIds } },
-      { status, updatedAt: new Date() },
+    const workflow = await getComplaintWorkflow();
+    const change = { status, response, duplicateOf };
+    const complaints = await Complaint.find({ _id: { $in: complaintIds } });
+    const canViewAll = await Role.hasPermission(
+      req.user!.role,
+      "complaint:view_all",
     );
 
+    const updated: string[] = [];
+    const skipped: { id: string; reason: string }[] = [];
+
+    for (const complaint of complaints) {
+      // Handlers without complaint:view_all may only update their assignments
+      if (!canViewAll && complaint.assignedTo?.toString() !== req.user?.id) {
+        skipped.push({
+          id: complaint._id.toString(),
+          reason: "Not authorized to update this complaint",
+        });
+        continue;
+      }
+
+      const previousStatus = complaint.status;
+      try {
+        await checkStatusChange(workflow, complaint, change);
+      } catch (error: any) {
+        skipped.push({ id: complaint._id.toString(), reason: error.message });
+        continue;
+      }
+
+      const updatedComplaint = await Complaint.findOneAndUpdate(
+        { _id: complaint._id, status: previousStatus },
+        buildStatusUpdate(complaint, change, req.user?.id),
+        { new: true, runValidators: true },
+      );
+      if (!updatedComplaint) {
+        skipped.push({
+          id: complaint._id.toString(),
+          reason: "Updated by someone else meanwhile",
+        });
+        continue;
+      }
+
+      if (updatedComplaint.status === "duplicate") {
+        await foldDuplicate(updatedComplaint, req.user?.id);
+      }
+      await notifyStatusChange(updatedComplaint, previousStatus, req.user?.id);
+      updated.push(complaint._id.toString());
+    }
+
+    const found = new Set(complaints.map((c) => c._id.toString()));
+    for (const id of complaintIds) {
+      if (!found.has(String(id))) {
+        skipped.push({ id: String(id), reason: "Complaint not found" });
+      }
+    }
+
     res.json({
       success: true,
-      message: `${result.modifiedCount} complaints updated successfully`,
+      message: `${updated.length} complaints updated successfully`,
       data: {
-        matched: result.matchedCount,
-        modified: result.modifiedCount,
+        matched: complaints.length,
+        modified: updated.length,
+        updated,
+        skipped,
       },
     });
   } catch (error: any) {
@@ -54,7 +118,10 @@ export const bulkUpdateComplaintsStatus = async (
  * @route POST /api/v1/bulk/complaints/assign
  * @access Admin, Staff
  */
-export const bulkAssignComplaints = async (req: Request, res: Response) => {
+export const bulkAssignComplaints = async (
+  req: AuthRequest,
+  res: Response,
+) => {
   try {
     const { complaintIds, assignedTo } = req.body;
 
@@ -65,10 +132,56 @@ export const bulkAssignComplaints = async (req: Request, res: Response) => {
       });
     }
 
+    // Terminal complaints stay as they are; pending ones move to
+    // in-progress when the workflow allows it
+    const workflow = await getComplaintWorkflow();
+    const openStatuses = Object.keys(workflow.transitions).filter(
+      (status) => (workflow.transitions as any)[status].length > 0,
+    );
+
     const result = await Complaint.updateMany(
-      { _id: { $in: complaintIds } },
-      { assignedTo, status: "in-progress", updatedAt: new Date() },
+      { _id: { $in: complaintIds }, status: { $in: openStatuses } },
+      { assignedTo, updatedAt: new Date() },
     );
+    if (workflow.transitions.pending.includes("in-progress")) {
+      // The status change is the first response, as in buildStatusUpdate;
+      // flag late ones before recording the response
+      const now = new Date();
+      const awaitingResponse = {
+        _id: { $in: complaintIds },
+        status: "pending",
+        "sla.resolutionDueAt": { $exists: true },
+        "sla.firstRespondedAt": { $exists: false },
+      };
+      await Complaint.updateMany(
+        {
+          ...awaitingResponse,
+          "sla.firstResponseDueAt": { $lt: now },
+          "sla.responseBreachedAt": { $exists: false },
+        },
+        { $set: { "sla.responseBreachedAt": now } },
+      );
+      await Complaint.updateMany(awaitingResponse, {
+        $set: { "sla.firstRespondedAt": now },
+      });
+
+      await Complaint.updateMany(
+        { _id: { $in: complaintIds }, status: "pending" },
+        {
+          status: "in-progress",
+          $push: {
+            history: {
+              action: "Status updated",
+              performedBy: req.user?.id,
+              previousStatus: "pending",
+              newStatus: "in-progress",
+              notes: "Assigned in bulk",
+              timestamp: new Date(),
+            },
+          },
+        },
+      );
+    }
 
     res.json({
       success: true,
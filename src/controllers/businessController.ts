@@ -0,0 +1,779 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import Business, { IBusiness } from "../models/Business";
+import BusinessClearance, {
+  IBusinessClearance,
+} from "../models/BusinessClearance";
+import SystemConfig from "../models/SystemConfig";
+import User from "../models/User";
+import Role from "../models/Role";
+import Zone from "../models/Zone";
+import Counter from "../models/Counter";
+import Notification from "../models/Notification";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest } from "../types";
+import { emitToStaff, emitToUser } from "../config/socket";
+import {
+  exportBusinessesToExcel,
+  deleteExportFile,
+} from "../utils/exportHelper";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "../utils/AppError";
+
+/**
+ * Business Controller
+ * Business registry and the yearly barangay business clearance
+ */
+
+const BUSINESS_FIELDS = [
+  "name",
+  "address",
+  "zoneId",
+  "lineOfBusiness",
+  "contactNumber",
+  "email",
+  "tin",
+  "capitalization",
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const statusFor = (error: any): number =>
+  error.name === "ValidationError" ? 400 : error.statusCode || 500;
+
+const canManage = (req: AuthRequest): Promise<boolean> =>
+  Role.hasPermission(req.user!.role, "business:manage");
+
+const pickBusinessFields = (body: any): Partial<IBusiness> => {
+  const fields: any = {};
+  for (const field of BUSINESS_FIELDS) {
+    if (body[field] !== undefined) fields[field] = body[field];
+  }
+  return fields;
+};
+
+export const getBusinessClearancePolicy = async (): Promise<{
+  fee: number;
+  reminderDays: number[];
+}> => {
+  const config = await SystemConfig.findOne({
+    key: "business_clearance_policy",
+  });
+  return { fee: 0, reminderDays: [], ...config?.value };
+};
+
+const recordBusinessEvent = async (
+  req: AuthRequest,
+  action: string,
+  businessId: unknown,
+  details: Record<string, any> = {},
+): Promise<void> => {
+  const actor = await User.findById(req.user?.id);
+  if (actor) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${actor.firstName} ${actor.lastName}`,
+      action,
+      targetType: "business",
+      targetId: businessId,
+      details,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+const notifyOwner = async (
+  business: IBusiness,
+  clearance: IBusinessClearance,
+  title: string,
+  message: string,
+  type: "info" | "success" | "warning",
+  event: string,
+): Promise<void> => {
+  if (!business.ownerId) return;
+
+  await Notification.create({
+    userId: business.ownerId,
+    title,
+    message,
+    type,
+    relatedId: clearance._id,
+    relatedType: "business",
+  });
+  emitToUser(business.ownerId.toString(), event, {
+    businessId: business._id,
+    clearanceId: clearance._id,
+    status: clearance.status,
+  });
+};
+
+/**
+ * Owners see their own businesses; managers see any
+ */
+const findBusinessForUser = async (
+  req: AuthRequest,
+  id: string,
+): Promise<IBusiness> => {
+  const business = await Business.findById(id);
+  if (!business) {
+    throw new NotFoundError("Business not found");
+  }
+
+  if (
+    business.ownerId?.toString() !== req.user?.id &&
+    !(await canManage(req)) &&
+    !(await Role.hasPermission(req.user!.role, "business:export"))
+  ) {
+    throw new ForbiddenError("Not authorized to access this business");
+  }
+
+  return business;
+};
+
+const findPendingClearance = async (
+  id: string,
+): Promise<{ clearance: IBusinessClearance; business: IBusiness }> => {
+  const clearance = await BusinessClearance.findById(id);
+  if (!clearance) {
+    throw new NotFoundError("Clearance application not found");
+  }
+  if (clearance.status !== "pending") {
+    throw new ConflictError(`This application is already ${clearance.status}`);
+  }
+
+  const business = await Business.findById(clearance.businessId);
+  if (!business) {
+    throw new NotFoundError("Business not found");
+  }
+
+  return { clearance, business };
+};
+
+/**
+ * Registry filter shared by the list and the export
+ */
+const buildBusinessFilter = (query: AuthRequest["query"]): any => {
+  const {
+    search,
+    zoneId,
+    lineOfBusiness,
+    clearance,
+    expiringWithinDays,
+    includeInactive,
+  } = query;
+
+  const filter: any = {};
+  if (includeInactive !== "true") filter.isActive = true;
+  if (zoneId) filter.zoneId = zoneId;
+  if (lineOfBusiness) {
+    filter.lineOfBusiness = { $regex: lineOfBusiness, $options: "i" };
+  }
+
+  const now = new Date();
+  if (clearance === "none") filter.clearanceExpiresAt = { $exists: false };
+  if (clearance === "expired") filter.clearanceExpiresAt = { $lt: now };
+  if (clearance === "active") filter.clearanceExpiresAt = { $gte: now };
+  if (clearance === "expiring") {
+    filter.clearanceExpiresAt = {
+      $gte: now,
+      $lte: new Date(
+        now.getTime() + (Number(expiringWithinDays) || 30) * DAY_MS,
+      ),
+    };
+  }
+
+  if (search) {
+    filter.$or = [
+      { name: { $regex: search, $options: "i" } },
+      { ownerName: { $regex: search, $options: "i" } },
+      { address: { $regex: search, $options: "i" } },
+    ];
+  }
+
+  return filter;
+};
+
+/**
+ * Register a business. Residents register their own; managers can register
+ * walk-in owners by name or link them to an account.
+ * @route POST /api/v1/businesses
+ * @access Authenticated
+ */
+export const createBusiness = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const manager = await canManage(req);
+    const ownerId = manager ? req.body.ownerId : req.user?.id;
+
+    let ownerName = manager ? req.body.ownerName : undefined;
+    if (ownerId) {
+      const owner = await User.findById(ownerId).select("firstName lastName");
+      if (!owner) {
+        throw new ValidationError("Owner account not found");
+      }
+      ownerName = ownerName || `${owner.firstName} ${owner.lastName}`;
+    }
+
+    const fields = pickBusinessFields(req.body);
+    if (!fields.zoneId && ownerId) {
+      fields.zoneId = await Zone.resolveForUser(ownerId);
+    }
+
+    const business = await Business.create({
+      ...fields,
+      ownerId,
+      ownerName,
+      registeredBy: req.user?.id,
+    });
+
+    await recordBusinessEvent(req, "register_business", business._id, {
+      name: business.name,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Business registered successfully",
+      data: business,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to register business",
+    });
+  }
+};
+
+/**
+ * List the current user's businesses with their latest clearance
+ * @route GET /api/v1/businesses/me
+ * @access Authenticated
+ */
+export const getMyBusinesses = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const businesses = await Business.find({ ownerId: req.user?.id }).sort({
+      name: 1,
+    });
+
+    const data = await Promise.all(
+      businesses.map(async (business) => ({
+        ...business.toObject(),
+        latestClearance: await BusinessClearance.findOne({
+          businessId: business._id,
+        }).sort({ year: -1, createdAt: -1 }),
+      })),
+    );
+
+    res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch businesses",
+    });
+  }
+};
+
+/**
+ * Business registry. `clearance` filters by standing: active, expiring
+ * (within `expiringWithinDays`, default 30), expired or none.
+ * @route GET /api/v1/businesses
+ * @access business:export
+ */
+export const getBusinesses = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const filter = buildBusinessFilter(req.query);
+
+    const [businesses, total] = await Promise.all([
+      Business.find(filter)
+        .populate("zoneId", "name code")
+        .sort({ name: 1 })
+        .skip(skip)
+        .limit(limit),
+      Business.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: businesses,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch businesses",
+    });
+  }
+};
+
+/**
+ * Download the business registry with each business's clearance for the
+ * year (default: current year)
+ * @route GET /api/v1/businesses/export
+ * @access business:export
+ */
+export const exportBusinesses = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const year = Number(req.query.year) || new Date().getFullYear();
+    const filter = buildBusinessFilter(req.query);
+
+    const businesses = await Business.find(filter)
+      .populate("zoneId", "name")
+      .sort({ name: 1 })
+      .lean();
+    const clearances = await BusinessClearance.find({
+      businessId: { $in: businesses.map((business) => business._id) },
+      year,
+      status: { $ne: "rejected" },
+    }).lean();
+
+    const byBusiness = new Map(
+      clearances.map((clearance) => [
+        clearance.businessId.toString(),
+        clearance,
+      ]),
+    );
+
+    const filename = `businesses-${year}-${Date.now()}`;
+    const filePath = await exportBusinessesToExcel(
+      businesses.map((business) => ({
+        ...business,
+        clearance: byBusiness.get(business._id.toString()),
+      })),
+      filename,
+    );
+
+    await recordBusinessEvent(req, "export_businesses", undefined, {
+      year,
+      count: businesses.length,
+      filters: req.query,
+    });
+
+    res.download(filePath, `businesses-${year}.xlsx`, () =>
+      deleteExportFile(filePath),
+    );
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to export businesses",
+    });
+  }
+};
+
+/**
+ * Get a business with its clearance history
+ * @route GET /api/v1/businesses/:id
+ * @access Owner, business:manage or business:export
+ */
+export const getBusinessById = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const business = await findBusinessForUser(req, req.params.id);
+    await business.populate("zoneId", "name code");
+
+    const clearances = await BusinessClearance.find({
+      businessId: business._id,
+    }).sort({ year: -1, createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: { ...business.toObject(), clearances },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch business",
+    });
+  }
+};
+
+/**
+ * Update business details. Only managers can close a business or change
+ * its owner.
+ * @route PUT /api/v1/businesses/:id
+ * @access Owner or business:manage
+ */
+export const updateBusiness = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const business = await findBusinessForUser(req, req.params.id);
+    const manager = await canManage(req);
+    if (!manager && business.ownerId?.toString() !== req.user?.id) {
+      throw new ForbiddenError("Not authorized to update this business");
+    }
+
+    const fields: any = pickBusinessFields(req.body);
+    if (manager) {
+      if (req.body.isActive !== undefined) fields.isActive = req.body.isActive;
+      if (req.body.ownerName !== undefined) {
+        fields.ownerName = req.body.ownerName;
+      }
+      if (req.body.ownerId !== undefined) fields.ownerId = req.body.ownerId;
+    }
+
+    business.set(fields);
+    await business.save();
+
+    await recordBusinessEvent(req, "update_business", business._id, {
+      fields: Object.keys(fields),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Business updated successfully",
+      data: business,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update business",
+    });
+  }
+};
+
+/**
+ * Apply for (or renew) the clearance for a year, the current one by default
+ * @route POST /api/v1/businesses/:id/clearances
+ * @access Owner or business:manage
+ */
+export const applyForClearance = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const business = await findBusinessForUser(req, req.params.id);
+    if (
+      business.ownerId?.toString() !== req.user?.id &&
+      !(await canManage(req))
+    ) {
+      throw new ForbiddenError("Only the owner can apply for this business");
+    }
+    if (!business.isActive) {
+      throw new ConflictError("This business is marked as closed");
+    }
+
+    const currentYear = new Date().getFullYear();
+    const year = Number(req.body.year) || currentYear;
+    if (year !== currentYear && year !== currentYear + 1) {
+      throw new ValidationError(
+        "Clearances can be applied for this year or the next",
+      );
+    }
+
+    if (
+      await BusinessClearance.exists({
+        businessId: business._id,
+        year,
+        status: { $ne: "rejected" },
+      })
+    ) {
+      throw new ConflictError(
+        `This business already has a ${year} clearance application`,
+      );
+    }
+
+    const hadClearance = await BusinessClearance.exists({
+      businessId: business._id,
+      status: { $in: ["approved", "expired"] },
+    });
+    const policy = await getBusinessClearancePolicy();
+
+    const clearance = await BusinessClearance.create({
+      businessId: business._id,
+      year,
+      type: hadClearance ? "renewal" : "new",
+      fee: policy.fee,
+      applicantId: req.user?.id,
+      notes: req.body.notes,
+    });
+
+    emitToStaff("business:clearance_submitted", {
+      businessId: business._id,
+      clearanceId: clearance._id,
+      name: business.name,
+      type: clearance.type,
+    });
+
+    await recordBusinessEvent(req, "apply_business_clearance", business._id, {
+      clearanceId: clearance._id,
+      year,
+      type: clearance.type,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Clearance application submitted",
+      data: clearance,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to apply for clearance",
+    });
+  }
+};
+
+/**
+ * Clearance applications, oldest first
+ * @route GET /api/v1/businesses/clearances
+ * @access business:manage
+ */
+export const getClearanceApplications = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+    const { status, year, type } = req.query;
+
+    const filter: any = {};
+    if (status) filter.status = status;
+    if (year) filter.year = Number(year);
+    if (type) filter.type = type;
+
+    const [clearances, total] = await Promise.all([
+      BusinessClearance.find(filter)
+        .populate("businessId", "name ownerName address lineOfBusiness")
+        .populate("inspection.inspectedBy", "firstName lastName")
+        .sort({ createdAt: status === "pending" ? 1 : -1 })
+        .skip(skip)
+        .limit(limit),
+      BusinessClearance.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: clearances,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch clearance applications",
+    });
+  }
+};
+
+/**
+ * Record the site inspection. Approval requires a passed inspection.
+ * @route PUT /api/v1/businesses/clearances/:clearanceId/inspection
+ * @access business:manage
+ */
+export const recordInspection = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { findings, passed, inspectedAt } = req.body;
+    const { clearance, business } = await findPendingClearance(
+      req.params.clearanceId,
+    );
+
+    clearance.inspection = {
+      inspectedBy: new Types.ObjectId(req.user!.id),
+      inspectedAt: inspectedAt ? new Date(inspectedAt) : new Date(),
+      findings,
+      passed,
+    };
+    await clearance.save();
+
+    if (!passed) {
+      await notifyOwner(
+        business,
+        clearance,
+        "Business Inspection Findings",
+        `The inspection of ${business.name} found issues to correct: ${findings}`,
+        "warning",
+        "business:inspected",
+      );
+    }
+
+    await recordBusinessEvent(req, "inspect_business", business._id, {
+      clearanceId: clearance._id,
+      passed,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Inspection recorded",
+      data: clearance,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to record inspection",
+    });
+  }
+};
+
+/**
+ * Approve an inspected application and issue the clearance number
+ * @route PUT /api/v1/businesses/clearances/:clearanceId/approve
+ * @access business:manage
+ */
+export const approveClearance = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { fee, notes } = req.body;
+    const { clearance, business } = await findPendingClearance(
+      req.params.clearanceId,
+    );
+
+    if (!clearance.inspection?.passed) {
+      throw new ConflictError("Record a passed inspection before approving");
+    }
+
+    const sequence = await Counter.next(`business_clearance:${clearance.year}`);
+    const issuedAt = new Date();
+    // Valid through December 31 of the clearance year
+    const validUntil = new Date(clearance.year, 11, 31, 23, 59, 59, 999);
+
+    // Only a pending application can be approved, and only once
+    const approved = await BusinessClearance.findOneAndUpdate(
+      { _id: clearance._id, status: "pending" },
+      {
+        status: "approved",
+        clearanceNumber: `BBC-${clearance.year}-${String(sequence).padStart(6, "0")}`,
+        issuedAt,
+        validUntil,
+        fee: fee !== undefined ? fee : clearance.fee,
+        notes: notes !== undefined ? notes : clearance.notes,
+        approvedBy: req.user?.id,
+        approvedAt: issuedAt,
+      },
+      { new: true, runValidators: true },
+    );
+    if (!approved) {
+      throw new ConflictError("This application has already been processed");
+    }
+
+    if (
+      !business.clearanceExpiresAt ||
+      business.clearanceExpiresAt < validUntil
+    ) {
+      business.clearanceExpiresAt = validUntil;
+      await business.save();
+    }
+
+    await notifyOwner(
+      business,
+      approved,
+      "Business Clearance Approved",
+      `The ${approved.year} barangay business clearance for ${business.name} (${approved.clearanceNumber}) is ready for pickup.`,
+      "success",
+      "business:clearance_approved",
+    );
+
+    await recordBusinessEvent(req, "approve_business_clearance", business._id, {
+      clearanceId: approved._id,
+      clearanceNumber: approved.clearanceNumber,
+      fee: approved.fee,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Business clearance approved",
+      data: approved,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to approve clearance",
+    });
+  }
+};
+
+/**
+ * Reject an application
+ * @route PUT /api/v1/businesses/clearances/:clearanceId/reject
+ * @access business:manage
+ */
+export const rejectClearance = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { rejectionReason } = req.body;
+    const { clearance, business } = await findPendingClearance(
+      req.params.clearanceId,
+    );
+
+    const rejected = await BusinessClearance.findOneAndUpdate(
+      { _id: clearance._id, status: "pending" },
+      {
+        status: "rejected",
+        rejectionReason,
+        rejectedBy: req.user?.id,
+        rejectedAt: new Date(),
+      },
+      { new: true, runValidators: true },
+    );
+    if (!rejected) {
+      throw new ConflictError("This application has already been processed");
+    }
+
+    await notifyOwner(
+      business,
+      rejected,
+      "Business Clearance Rejected",
+      `The ${rejected.year} clearance application for ${business.name} was rejected: ${rejectionReason}`,
+      "warning",
+      "business:clearance_rejected",
+    );
+
+    await recordBusinessEvent(req, "reject_business_clearance", business._id, {
+      clearanceId: rejected._id,
+      rejectionReason,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Business clearance rejected",
+      data: rejected,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to reject clearance",
+    });
+  }
+};
@@ -0,0 +1,863 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import Case, {
+  ACTIVE_CASE_STATUSES,
+  CaseStatus,
+  ICase,
+  ICaseParty,
+} from "../models/Case";
+import User from "../models/User";
+import Role from "../models/Role";
+import Counter from "../models/Counter";
+import Notification from "../models/Notification";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest } from "../types";
+import { emitToUser } from "../config/socket";
+import { KP_FORMS, KpForm, KpFormSigner, writeKpForm } from "../utils/kpForms";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "../utils/AppError";
+
+/**
+ * Case Controller
+ * Katarungang Pambarangay: blotter, mediation, conciliation and settlement
+ */
+
+// Mediation and conciliation each run for 15 days (RA 7160, Sec. 410)
+const STAGE_DAYS = 15;
+// Parties may repudiate a settlement within 10 days (Sec. 418)
+const REPUDIATION_DAYS = 10;
+
+const CASE_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  filed: ["mediation", "dismissed", "withdrawn"],
+  mediation: ["conciliation", "certified", "dismissed", "withdrawn"],
+  conciliation: ["certified", "dismissed", "withdrawn"],
+  settled: ["repudiated"],
+  repudiated: ["certified"],
+  certified: [],
+  dismissed: [],
+  withdrawn: [],
+};
+
+const PARTY_FIELDS = ["userId", "name", "address", "contactNumber"] as const;
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+const statusFor = (error: any): number =>
+  error.name === "ValidationError" ? 400 : error.statusCode || 500;
+
+const canManage = (req: AuthRequest): Promise<boolean> =>
+  Role.hasPermission(req.user!.role, "case:manage");
+
+const isParty = (kpCase: ICase, userId?: string): boolean =>
+  [...kpCase.complainants, ...kpCase.respondents].some(
+    (party) => party.userId?.toString() === userId,
+  );
+
+const recordCaseEvent = async (
+  req: AuthRequest,
+  action: string,
+  kpCase: ICase,
+  details: Record<string, any> = {},
+): Promise<void> => {
+  const actor = await User.findById(req.user?.id);
+  if (actor) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${actor.firstName} ${actor.lastName}`,
+      action,
+      targetType: "case",
+      targetId: kpCase._id,
+      details: { caseNumber: kpCase.caseNumber, ...details },
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+/**
+ * Tell every party with an account about a change to their case
+ */
+const notifyParties = async (
+  kpCase: ICase,
+  title: string,
+  message: string,
+  event: string,
+): Promise<void> => {
+  const userIds = new Set(
+    [...kpCase.complainants, ...kpCase.respondents]
+      .map((party) => party.userId?.toString())
+      .filter(Boolean) as string[],
+  );
+
+  for (const userId of userIds) {
+    await Notification.create({
+      userId,
+      title,
+      message,
+      type: "info",
+      relatedId: kpCase._id,
+      relatedType: "case",
+    });
+    emitToUser(userId, event, {
+      caseId: kpCase._id,
+      caseNumber: kpCase.caseNumber,
+      status: kpCase.status,
+    });
+  }
+};
+
+/**
+ * Keep only known party fields and fill names from linked accounts
+ */
+const resolveParties = async (parties: any[] = []): Promise<ICaseParty[]> => {
+  const resolved: ICaseParty[] = [];
+
+  for (const input of parties) {
+    const party: any = {};
+    for (const field of PARTY_FIELDS) {
+      if (input?.[field] !== undefined) party[field] = input[field];
+    }
+
+    if (party.userId) {
+      const user = await User.findById(party.userId).select(
+        "firstName lastName address phoneNumber",
+      );
+      if (!user) {
+        throw new ValidationError("A linked party account was not found");
+      }
+      party.name = party.name || `${user.firstName} ${user.lastName}`;
+      party.address = party.address || user.address;
+      party.contactNumber = party.contactNumber || user.phoneNumber;
+    }
+
+    resolved.push(party);
+  }
+
+  return resolved;
+};
+
+/**
+ * Cases are signed by the Lupon chairman, the holder of case:sign (the
+ * Punong Barangay by default); the Pangkat chairman attests settlements
+ * reached in conciliation
+ */
+const resolveSigner = async (
+  req: AuthRequest,
+  kpCase: ICase,
+  form: KpForm,
+): Promise<KpFormSigner> => {
+  if (
+    form === "settlement" &&
+    kpCase.conciliationStartedAt &&
+    kpCase.pangkatMembers.length > 0
+  ) {
+    return { name: kpCase.pangkatMembers[0], position: "Pangkat Chairman" };
+  }
+
+  // Admins hold every permission but are not barangay officials
+  const signerRoles = await Role.find({
+    permissions: "case:sign",
+    name: { $ne: "admin" },
+  }).distinct("name");
+  const chairman = await User.findOne({
+    role: { $in: signerRoles },
+    isActive: true,
+  });
+  if (chairman) {
+    return {
+      name: `${chairman.firstName} ${chairman.lastName}`,
+      position: "Punong Barangay / Lupon Chairman",
+    };
+  }
+
+  const user = await User.findById(req.user?.id);
+  const role = user ? await Role.findOne({ name: user.role }) : null;
+  return {
+    name: user ? `${user.firstName} ${user.lastName}` : "",
+    position: role?.displayName || "",
+  };
+};
+
+const findCase = async (id: string): Promise<ICase> => {
+  const kpCase = await Case.findById(id);
+  if (!kpCase) {
+    throw new NotFoundError("Case not found");
+  }
+  return kpCase;
+};
+
+/**
+ * Hearings must fall inside the running stage
+ */
+const assertWithinStage = (kpCase: ICase, scheduledAt: Date): void => {
+  if (scheduledAt.getTime() <= Date.now()) {
+    throw new ValidationError("Hearing must be scheduled in the future");
+  }
+  if (kpCase.deadline && scheduledAt > kpCase.deadline) {
+    throw new ValidationError(
+      `Hearing falls after the ${kpCase.status} deadline (${kpCase.deadline.toISOString()})`,
+    );
+  }
+};
+
+/**
+ * Record a blotter entry
+ * @route POST /api/v1/cases
+ * @access case:manage
+ */
+export const createCase = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const {
+      title,
+      nature,
+      description,
+      incidentDate,
+      incidentLocation,
+      complainants,
+      respondents,
+      zoneId,
+      complaintId,
+    } = req.body;
+
+    const kpCase = new Case({
+      title,
+      nature,
+      description,
+      incidentDate,
+      incidentLocation,
+      complainants: await resolveParties(complainants),
+      respondents: await resolveParties(respondents),
+      zoneId,
+      complaintId,
+      recordedBy: req.user?.id,
+      history: [
+        {
+          action: "filed",
+          performedBy: req.user?.id,
+          newStatus: "filed",
+          timestamp: new Date(),
+        },
+      ],
+    });
+
+    // Validate before drawing a case number so bad input leaves no gap
+    await kpCase.validate({ pathsToSkip: ["caseNumber"] });
+    const year = new Date().getFullYear();
+    const sequence = await Counter.next(`case:${year}`);
+    kpCase.caseNumber = `KP-${year}-${String(sequence).padStart(4, "0")}`;
+    await kpCase.save();
+
+    await notifyParties(
+      kpCase,
+      "Barangay Case Filed",
+      `Barangay case ${kpCase.caseNumber} (${kpCase.title}) has been recorded and names you as a party.`,
+      "case:filed",
+    );
+
+    await recordCaseEvent(req, "file_case", kpCase, { nature });
+
+    res.status(201).json({
+      success: true,
+      message: "Case recorded successfully",
+      data: kpCase,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to record case",
+    });
+  }
+};
+
+/**
+ * List cases
+ * @route GET /api/v1/cases
+ * @access case:manage
+ */
+export const getCases = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+    const { status, nature, zoneId, overdue, search } = req.query;
+
+    const filter: any = {};
+    if (status) filter.status = status;
+    if (nature) filter.nature = nature;
+    if (zoneId) filter.zoneId = zoneId;
+    if (overdue === "true") {
+      filter.status = { $in: ACTIVE_CASE_STATUSES };
+      filter.deadline = { $lt: new Date() };
+    }
+    if (search) {
+      filter.$or = [
+        { caseNumber: { $regex: search, $options: "i" } },
+        { title: { $regex: search, $options: "i" } },
+        { "complainants.name": { $regex: search, $options: "i" } },
+        { "respondents.name": { $regex: search, $options: "i" } },
+      ];
+    }
+
+    const [cases, total] = await Promise.all([
+      Case.find(filter)
+        .select("-history")
+        .populate("zoneId", "name code")
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Case.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: cases,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch cases",
+    });
+  }
+};
+
+/**
+ * List cases the current user is a party to
+ * @route GET /api/v1/cases/me
+ * @access Authenticated
+ */
+export const getMyCases = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const cases = await Case.find({
+      $or: [
+        { "complainants.userId": req.user?.id },
+        { "respondents.userId": req.user?.id },
+      ],
+    })
+      .select("-history")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: cases,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch cases",
+    });
+  }
+};
+
+/**
+ * Get a case. Parties see it without the internal history.
+ * @route GET /api/v1/cases/:id
+ * @access case:manage or party
+ */
+export const getCaseById = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const kpCase = await findCase(req.params.id);
+
+    const manager = await canManage(req);
+    if (!manager && !isParty(kpCase, req.user?.id)) {
+      throw new ForbiddenError("Not authorized to view this case");
+    }
+
+    await kpCase.populate([
+      { path: "zoneId", select: "name code" },
+      { path: "recordedBy", select: "firstName lastName" },
+      { path: "history.performedBy", select: "firstName lastName" },
+    ]);
+
+    const data: any = kpCase.toObject();
+    if (!manager) delete data.history;
+
+    res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch case",
+    });
+  }
+};
+
+/**
+ * Correct the details of an open case
+ * @route PUT /api/v1/cases/:id
+ * @access case:manage
+ */
+export const updateCase = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const kpCase = await findCase(req.params.id);
+
+    if (!["filed", ...ACTIVE_CASE_STATUSES].includes(kpCase.status)) {
+      throw new ConflictError(
+        `A ${kpCase.status} case can no longer be edited`,
+      );
+    }
+
+    const fields = [
+      "title",
+      "nature",
+      "description",
+      "incidentDate",
+      "incidentLocation",
+      "zoneId",
+    ] as const;
+    const changed: string[] = [];
+    for (const field of fields) {
+      if (req.body[field] !== undefined) {
+        kpCase.set(field, req.body[field]);
+        changed.push(field);
+      }
+    }
+    for (const side of ["complainants", "respondents"] as const) {
+      if (req.body[side] !== undefined) {
+        kpCase.set(side, await resolveParties(req.body[side]));
+        changed.push(side);
+      }
+    }
+
+    kpCase.history.push({
+      action: "updated",
+      performedBy: new Types.ObjectId(req.user!.id),
+      notes: changed.join(", "),
+      timestamp: new Date(),
+    });
+    await kpCase.save();
+
+    await recordCaseEvent(req, "update_case", kpCase, { fields: changed });
+
+    res.status(200).json({
+      success: true,
+      message: "Case updated successfully",
+      data: kpCase,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update case",
+    });
+  }
+};
+
+/**
+ * Move a case through the KP process. Starting mediation or conciliation
+ * starts that stage's 15-day period.
+ * @route PUT /api/v1/cases/:id/status
+ * @access case:manage
+ */
+export const updateCaseStatus = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { status, notes, pangkatMembers, reason } = req.body;
+    const kpCase = await findCase(req.params.id);
+    const previousStatus = kpCase.status;
+
+    if (!CASE_TRANSITIONS[previousStatus].includes(status)) {
+      throw new ConflictError(
+        `Cannot move a ${previousStatus} case to ${status}`,
+      );
+    }
+
+    const now = new Date();
+    switch (status as CaseStatus) {
+      case "mediation":
+        kpCase.mediationStartedAt = now;
+        kpCase.deadline = addDays(now, STAGE_DAYS);
+        break;
+      case "conciliation":
+        if (!Array.isArray(pangkatMembers) || pangkatMembers.length === 0) {
+          throw new ValidationError(
+            "Name the Pangkat members (chairman first) to start conciliation",
+          );
+        }
+        kpCase.pangkatMembers = pangkatMembers;
+        kpCase.conciliationStartedAt = now;
+        kpCase.conciliationExtended = false;
+        kpCase.deadline = addDays(now, STAGE_DAYS);
+        break;
+      case "repudiated":
+        if (
+          kpCase.settlement?.repudiationDeadline &&
+          kpCase.settlement.repudiationDeadline < now
+        ) {
+          throw new ConflictError(
+            "The 10-day period to repudiate this settlement has passed",
+          );
+        }
+        if (!notes) {
+          throw new ValidationError("State the grounds for repudiation");
+        }
+        kpCase.deadline = undefined;
+        break;
+      case "certified":
+        if (!reason) {
+          throw new ValidationError(
+            "A reason is required to certify the case for filing",
+          );
+        }
+        kpCase.certification = {
+          reason,
+          issuedAt: now,
+          issuedBy: new Types.ObjectId(req.user!.id),
+        };
+        kpCase.deadline = undefined;
+        kpCase.closedAt = now;
+        break;
+      default:
+        kpCase.deadline = undefined;
+        kpCase.closedAt = now;
+    }
+
+    kpCase.status = status;
+    kpCase.history.push({
+      action: "status_changed",
+      performedBy: new Types.ObjectId(req.user!.id),
+      previousStatus,
+      newStatus: status,
+      notes: notes || reason,
+      timestamp: now,
+    });
+    await kpCase.save();
+
+    await notifyParties(
+      kpCase,
+      "Barangay Case Update",
+      `Barangay case ${kpCase.caseNumber} is now ${status}.`,
+      "case:status_changed",
+    );
+
+    await recordCaseEvent(req, "update_case_status", kpCase, {
+      previousStatus,
+      newStatus: status,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Case status updated successfully",
+      data: kpCase,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update case status",
+    });
+  }
+};
+
+/**
+ * Extend conciliation once by another 15 days
+ * @route PUT /api/v1/cases/:id/extend
+ * @access case:manage
+ */
+export const extendConciliation = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const kpCase = await findCase(req.params.id);
+
+    if (kpCase.status !== "conciliation") {
+      throw new ConflictError("Only cases in conciliation can be extended");
+    }
+    if (kpCase.conciliationExtended) {
+      throw new ConflictError("Conciliation has already been extended");
+    }
+
+    kpCase.deadline = addDays(kpCase.deadline || new Date(), STAGE_DAYS);
+    kpCase.conciliationExtended = true;
+    kpCase.history.push({
+      action: "conciliation_extended",
+      performedBy: new Types.ObjectId(req.user!.id),
+      notes: req.body.notes,
+      timestamp: new Date(),
+    });
+    await kpCase.save();
+
+    await recordCaseEvent(req, "extend_conciliation", kpCase, {
+      deadline: kpCase.deadline,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Conciliation extended",
+      data: kpCase,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to extend conciliation",
+    });
+  }
+};
+
+/**
+ * Record an amicable settlement reached in mediation or conciliation
+ * @route POST /api/v1/cases/:id/settlement
+ * @access case:manage
+ */
+export const recordSettlement = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { terms } = req.body;
+    const kpCase = await findCase(req.params.id);
+    const previousStatus = kpCase.status;
+
+    if (!ACTIVE_CASE_STATUSES.includes(previousStatus)) {
+      throw new ConflictError(
+        "Settlements are recorded during mediation or conciliation",
+      );
+    }
+
+    const now = new Date();
+    kpCase.settlement = {
+      terms,
+      settledAt: now,
+      repudiationDeadline: addDays(now, REPUDIATION_DAYS),
+      recordedBy: new Types.ObjectId(req.user!.id),
+    };
+    kpCase.status = "settled";
+    kpCase.deadline = kpCase.settlement.repudiationDeadline;
+    kpCase.history.push({
+      action: "settled",
+      performedBy: new Types.ObjectId(req.user!.id),
+      previousStatus,
+      newStatus: "settled",
+      timestamp: now,
+    });
+    await kpCase.save();
+
+    await notifyParties(
+      kpCase,
+      "Barangay Case Settled",
+      `An amicable settlement was recorded for case ${kpCase.caseNumber}. It may be repudiated within ${REPUDIATION_DAYS} days.`,
+      "case:settled",
+    );
+
+    await recordCaseEvent(req, "settle_case", kpCase, { previousStatus });
+
+    res.status(200).json({
+      success: true,
+      message: "Settlement recorded successfully",
+      data: kpCase,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to record settlement",
+    });
+  }
+};
+
+/**
+ * Schedule a hearing for the current stage and notify the parties
+ * @route POST /api/v1/cases/:id/hearings
+ * @access case:manage
+ */
+export const scheduleHearing = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { scheduledAt, venue, notes } = req.body;
+    const kpCase = await findCase(req.params.id);
+
+    if (!ACTIVE_CASE_STATUSES.includes(kpCase.status)) {
+      throw new ConflictError(
+        "Start mediation or conciliation before scheduling hearings",
+      );
+    }
+
+    const date = new Date(scheduledAt);
+    assertWithinStage(kpCase, date);
+
+    kpCase.hearings.push({
+      stage: kpCase.status as "mediation" | "conciliation",
+      scheduledAt: date,
+      venue,
+      notes,
+      status: "scheduled",
+      scheduledBy: new Types.ObjectId(req.user!.id),
+      noticesSentAt: new Date(),
+    });
+    kpCase.history.push({
+      action: "hearing_scheduled",
+      performedBy: new Types.ObjectId(req.user!.id),
+      notes: `${date.toISOString()} at ${venue}`,
+      timestamp: new Date(),
+    });
+    await kpCase.save();
+
+    await notifyParties(
+      kpCase,
+      "Hearing Scheduled",
+      `A ${kpCase.status} hearing for case ${kpCase.caseNumber} is set on ${date.toLocaleString("en-PH")} at ${venue}. Your attendance is required.`,
+      "case:hearing_scheduled",
+    );
+
+    await recordCaseEvent(req, "schedule_hearing", kpCase, {
+      scheduledAt: date,
+      venue,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Hearing scheduled and notices sent",
+      data: kpCase,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to schedule hearing",
+    });
+  }
+};
+
+/**
+ * Record a hearing's outcome or move it to another date
+ * @route PUT /api/v1/cases/:id/hearings/:hearingId
+ * @access case:manage
+ */
+export const updateHearing = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { status, notes, scheduledAt, venue } = req.body;
+    const kpCase = await findCase(req.params.id);
+
+    const hearing = kpCase.hearings.find(
+      (entry) => entry._id?.toString() === req.params.hearingId,
+    );
+    if (!hearing) {
+      throw new NotFoundError("Hearing not found");
+    }
+
+    const rescheduled = scheduledAt !== undefined || venue !== undefined;
+    if (rescheduled) {
+      if (!ACTIVE_CASE_STATUSES.includes(kpCase.status)) {
+        throw new ConflictError("Hearings of a closed stage cannot be moved");
+      }
+      if (scheduledAt !== undefined) {
+        hearing.scheduledAt = new Date(scheduledAt);
+        assertWithinStage(kpCase, hearing.scheduledAt);
+      }
+      if (venue !== undefined) hearing.venue = venue;
+      hearing.status = "scheduled";
+      hearing.noticesSentAt = new Date();
+    }
+    if (status !== undefined) hearing.status = status;
+    if (notes !== undefined) hearing.notes = notes;
+
+    kpCase.history.push({
+      action: rescheduled ? "hearing_rescheduled" : "hearing_updated",
+      performedBy: new Types.ObjectId(req.user!.id),
+      notes: rescheduled
+        ? `${hearing.scheduledAt.toISOString()} at ${hearing.venue}`
+        : hearing.status,
+      timestamp: new Date(),
+    });
+    await kpCase.save();
+
+    if (rescheduled) {
+      await notifyParties(
+        kpCase,
+        "Hearing Rescheduled",
+        `The hearing for case ${kpCase.caseNumber} has been moved to ${hearing.scheduledAt.toLocaleString("en-PH")} at ${hearing.venue}.`,
+        "case:hearing_scheduled",
+      );
+    }
+
+    await recordCaseEvent(req, "update_hearing", kpCase, {
+      hearingId: req.params.hearingId,
+      status: hearing.status,
+      rescheduled,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Hearing updated successfully",
+      data: kpCase,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update hearing",
+    });
+  }
+};
+
+/**
+ * Download a printable KP form for a case
+ * @route GET /api/v1/cases/:id/forms/:form
+ * @access case:manage
+ */
+export const getCaseForm = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const form = req.params.form as KpForm;
+    if (!(form in KP_FORMS)) {
+      throw new NotFoundError(
+        `Unknown form. Available forms: ${Object.keys(KP_FORMS).join(", ")}`,
+      );
+    }
+
+    const kpCase = await findCase(req.params.id);
+    if (form === "settlement" && !kpCase.settlement?.terms) {
+      throw new ConflictError("No settlement has been recorded for this case");
+    }
+    if (form === "cfa" && kpCase.status !== "certified") {
+      throw new ConflictError("This case has not been certified for filing");
+    }
+
+    const signer = await resolveSigner(req, kpCase, form);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${kpCase.caseNumber}-${form}.pdf"`,
+    );
+    res.setHeader("Cache-Control", "private, no-store");
+    writeKpForm(kpCase, form, signer, res);
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to generate form",
+    });
+  }
+};
@@ -1,48 +1,89 @@
-import { Response } from "express";
+import { Request, Response } from "express";
+import { Types } from "mongoose";
 import Complaint from "../models/Complaint";
+import AuditLog from "../models/AuditLog";
 import Notification from "../models/Notification";
 import User from "../models/User";
+import Role from "../models/Role";
+import Zone from "../models/Zone";
 import { AuthRequest } from "../types";
 import { emitToUser, emitToStaff, emitToComplaint } from "../config/socket";
-
-// Auto-assign complaint to staff based on category
-const autoAssignComplaint = async (complaintId: string, category: string) => {
+import {
+  getComplaintWorkflow,
+  checkStatusChange,
+  buildStatusUpdate,
+  notifyStatusChange,
+} from "../utils/complaintWorkflow";
+import {
+  getAssignmentPolicy,
+  rankAssignees,
+  describeAssignment,
+} from "../utils/complaintAssignment";
+import { toPoint } from "../utils/geo";
+import { generateTrackingCode, hashTrackingCode } from "../utils/trackingCode";
+import {
+  getDuplicatePolicy,
+  findSimilarComplaints,
+  foldDuplicate,
+} from "../utils/complaintDuplicates";
+import {
+  getSlaPolicy,
+  computeSlaDueDates,
+  slaProgressUpdate,
+  slaFilter,
+  raiseEscalation,
+  SLA_OPEN_STATUSES,
+} from "../utils/complaintSla";
+
+// Auto-assign a new complaint using the configured assignment strategy.
+// The reasoning is kept in the history; no user performed the assignment.
+const autoAssignComplaint = async (
+  complaintId: string,
+  category: string,
+  zoneId?: Types.ObjectId,
+) => {
   try {
-    // Find available staff members
-    const staff = await User.find({ role: "staff", isVerified: true });
-
-    if (staff.length > 0) {
-      // Simple round-robin assignment (can be improved with workload balancing)
-      const randomStaff = staff[Math.floor(Math.random() * staff.length)];
-
-      await Complaint.findByIdAndUpdate(complaintId, {
-        assignedTo: randomStaff._id,
+    const policy = await getAssignmentPolicy();
+    const { candidates } = await rankAssignees(category, zoneId, policy);
+    const chosen = candidates[0];
+    if (!chosen) return;
+
+    const now = new Date();
+    const assigned = await Complaint.findOneAndUpdate(
+      { _id: complaintId, assignedTo: { $exists: false } },
+      {
+        assignedTo: chosen.user._id,
         $push: {
           history: {
             action: "Auto-assigned to staff",
-            performedBy: randomStaff._id,
-            notes: `Automatically assigned based on category: ${category}`,
-            timestamp: new Date(),
+            notes: describeAssignment(policy.strategy, chosen, category),
+            timestamp: now,
           },
         },
-      });
+      },
+    );
+    if (!assigned) return;
 
-      // Notify assigned staff
-      await Notification.create({
-        userId: randomStaff._id,
-        title: "New Complaint Assigned",
-        message: `A new complaint has been assigned to you in category: ${category}`,
-        type: "info",
-        relatedId: complaintId,
-        relatedType: "complaint",
-      });
+    await User.updateOne(
+      { _id: chosen.user._id },
+      { "staffProfile.lastAutoAssignedAt": now },
+    );
 
-      // Real-time notification
-      emitToUser(randomStaff._id.toString(), "complaint:assigned", {
-        complaintId,
-        category,
-      });
-    }
+    // Notify assigned staff
+    await Notification.create({
+      userId: chosen.user._id,
+      title: "New Complaint Assigned",
+      message: `A new complaint has been assigned to you in category: ${category}`,
+      type: "info",
+      relatedId: complaintId,
+      relatedType: "complaint",
+    });
+
+    // Real-time notification
+    emitToUser(chosen.user._id.toString(), "complaint:assigned", {
+      complaintId,
+      category,
+    });
   } catch (error) {
     console.error("Auto-assignment failed:", error);
   }
@@ -53,38 +94,114 @@ export const createComplaint = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const { title, description, category, priority, attachments } = req.body;
+    const {
+      title,
+      description,
+      category,
+      priority,
+      attachments,
+      zoneId,
+      location,
+      landmark,
+      locationIsResidence,
+      isAnonymous,
+    } = req.body;
+
+    // A residence pin would point straight back at the filer
+    if (isAnonymous && locationIsResidence) {
+      res.status(400).json({
+        success: false,
+        message: "Anonymous complaints cannot be pinned to your residence",
+      });
+      return;
+    }
+
+    // The filer may point at another zone; otherwise use their household's
+    if (zoneId && !(await Zone.exists({ _id: zoneId, isActive: true }))) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid zone",
+      });
+      return;
+    }
+    // Anonymous complaints never fall back to the filer's own zone
+    const complaintZone =
+      zoneId ||
+      (isAnonymous ? undefined : await Zone.resolveForUser(req.user!.id));
+    const filedAt = new Date();
+
+    const complaintLocation = location
+      ? toPoint(location.latitude, location.longitude)
+      : undefined;
+
+    const similar = await findSimilarComplaints(
+      {
+        category,
+        title,
+        description,
+        zoneId: complaintZone,
+        location: complaintLocation,
+      },
+      await getDuplicatePolicy(),
+    );
+
+    // Handed to an anonymous filer once; only its hash is kept
+    const trackingCode = isAnonymous ? generateTrackingCode() : undefined;
 
     const complaint = await Complaint.create({
-      userId: req.user?.id,
+      userId: isAnonymous ? undefined : req.user?.id,
+      isAnonymous: !!isAnonymous,
+      sealedReporterId: isAnonymous ? req.user?.id : undefined,
+      trackingCodeHash: trackingCode && hashTrackingCode(trackingCode),
       title,
       description,
       category,
+      zoneId: complaintZone,
+      location: complaintLocation,
+      landmark,
+      locationIsResidence: !!location && !!locationIsResidence,
       priority: priority || "medium",
       attachments,
       status: "pending",
+      possibleDuplicates: similar.map(({ complaintId, score }) => ({
+        complaintId,
+        score,
+      })),
+      sla: computeSlaDueDates(
+        await getSlaPolicy(),
+        category,
+        priority || "medium",
+        filedAt,
+      ),
       history: [
         {
           action: "Complaint created",
-          performedBy: req.user?.id,
+          performedBy: isAnonymous ? undefined : req.user?.id,
           newStatus: "pending",
-          timestamp: new Date(),
+          timestamp: filedAt,
         },
       ],
     });
 
     // Auto-assign to staff
-    await autoAssignComplaint(complaint._id.toString(), category);
+    await autoAssignComplaint(
+      complaint._id.toString(),
+      category,
+      complaint.zoneId,
+    );
 
-    // Create notification for user
-    await Notification.create({
-      userId: req.user?.id,
-      title: "Complaint Submitted",
-      message: `Your complaint "${title}" has been submitted successfully and will be reviewed shortly.`,
-      type: "success",
-      relatedId: complaint._id,
-      relatedType: "complaint",
-    });
+    // Create notification for user; an anonymous filer's notification list
+    // must not tie them to the complaint
+    if (!isAnonymous) {
+      await Notification.create({
+        userId: req.user?.id,
+        title: "Complaint Submitted",
+        message: `Your complaint "${title}" has been submitted successfully and will be reviewed shortly.`,
+        type: "success",
+        relatedId: complaint._id,
+        relatedType: "complaint",
+      });
+    }
 
     // Real-time notification to staff
     emitToStaff("complaint:new", {
@@ -92,12 +209,24 @@ export const createComplaint = async (
       title,
       category,
       priority,
+      possibleDuplicates: similar.length,
     });
 
+    const data: any = complaint.toObject();
+    delete data.sealedReporterId;
+    delete data.trackingCodeHash;
+    // Kept for staff review; it may name anonymous complaints
+    delete data.possibleDuplicates;
+
+    // The filer can join one of these instead and withdraw their own
     res.status(201).json({
       success: true,
       message: "Complaint submitted successfully",
-      data: complaint,
+      data,
+      // Anonymous complaints are only shown to staff, as possibleDuplicates
+      similarComplaints: similar.filter((match) => !match.isAnonymous),
+      // Shown once; it cannot be recovered later
+      ...(trackingCode && { trackingCode }),
     });
   } catch (error: any) {
     res.status(500).json({
@@ -107,32 +236,94 @@ export const createComplaint = async (
   }
 };
 
+/**
+ * Open complaints that look like the one about to be filed, so the resident
+ * can join one instead. Pass ?lat&lng when the problem is pinned.
+ * @route GET /api/v1/complaints/similar
+ * @access Verified residents
+ */
+export const getSimilarComplaints = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { category, title, description, zoneId, lat, lng } =
+      req.query as Record<string, string>;
+
+    const similar = await findSimilarComplaints(
+      {
+        category,
+        title,
+        description: description || "",
+        zoneId: zoneId || (await Zone.resolveForUser(req.user!.id)),
+        location: lat ? toPoint(Number(lat), Number(lng)) : undefined,
+      },
+      await getDuplicatePolicy(),
+      { excludeAnonymous: true },
+    );
+
+    res.status(200).json({
+      success: true,
+      data: similar,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to find similar complaints",
+    });
+  }
+};
+
 export const getComplaints = async (
   req: AuthRequest,
   res: Response,
 ): Promise<void> => {
   try {
-    const { status, priority, category, assignedTo } = req.query;
+    const {
+      status,
+      priority,
+      category,
+      assignedTo,
+      zoneId,
+      slaBreached,
+      overdue,
+    } = req.query;
     const query: any = {};
 
-    // Role-based filtering
-    if (req.user?.role === "resident") {
-      query.userId = req.user.id;
-    } else if (req.user?.role === "staff" && !assignedTo) {
-      // Staff sees assigned complaints by default
-      query.assignedTo = req.user.id;
+    // Without complaint:view_all users see only their own or assigned complaints
+    if (!(await Role.hasPermission(req.user!.role, "complaint:view_all"))) {
+      query.$or = [{ userId: req.user!.id }, { assignedTo: req.user!.id }];
+    } else if (!assignedTo && !zoneId) {
+      // Staff responsible for zones see their area's queue by default,
+      // other complaint handlers their assigned complaints. Admins are never
+      // assigned (see rankAssignees) and see everything. zoneId=all shows
+      // everything.
+      const zoneIds = await Zone.getStaffZoneIds(req.user!.id);
+      if (zoneIds.length > 0) {
+        query.zoneId = { $in: zoneIds };
+      } else if (
+        req.user!.role !== "admin" &&
+        (await Role.hasPermission(req.user!.role, "complaint:handle"))
+      ) {
+        query.assignedTo = req.user!.id;
+      }
     }
 
     if (status) query.status = status;
     if (priority) query.priority = priority;
     if (category) query.category = category;
     if (assignedTo) query.assignedTo = assignedTo;
+    if (zoneId && zoneId !== "all") query.zoneId = zoneId;
+
+    const slaConditions = slaFilter(slaBreached, overdue);
+    if (slaConditions.length > 0) query.$and = slaConditions;
 
     const complaints = await Complaint.find(query)
       .populate("userId", "firstName lastName email")
       .populate("assignedTo", "firstName lastName")
       .populate("resolvedBy", "firstName lastName")
       .populate("comments.userId", "firstName lastName")
+      .populate("zoneId", "name code")
       .sort({ createdAt: -1 });
 
     res.status(200).json({
@@ -168,13 +359,44 @@ export const getComplaintById = async (
     }
 
     // Check authorization
+    const isReporter = complaint.reporters.some(
+      (reporter) => reporter.userId.toString() === req.user?.id,
+    );
     if (
-      req.user?.role === "resident" &&
-      complaint.userId.toString() !== req.user.id
+      complaint.userId?._id.toString() !== req.user?.id &&
+      complaint.assignedTo?._id.toString() !== req.user?.id &&
+      !(await Role.hasPermission(req.user!.role, "complaint:view_all"))
     ) {
-      res.status(403).json({
-        success: false,
-        message: "Not authorized to view this complaint",
+      if (!isReporter) {
+        res.status(403).json({
+          success: false,
+          message: "Not authorized to view this complaint",
+        });
+        return;
+      }
+
+      // Linked reporters follow progress without seeing who filed it
+      const filerId = complaint.userId?._id.toString();
+      const shared: any = complaint.toObject();
+      delete shared.userId;
+      delete shared.reporters;
+      delete shared.possibleDuplicates;
+      delete shared.history;
+      if (shared.locationIsResidence) {
+        delete shared.location;
+        delete shared.landmark;
+      }
+      shared.comments = shared.comments
+        .filter((comment: any) => !comment.isInternal)
+        .map((comment: any) =>
+          comment.userId?._id.toString() === filerId
+            ? { ...comment, userId: undefined }
+            : comment,
+        );
+
+      res.status(200).json({
+        success: true,
+        data: shared,
       });
       return;
     }
@@ -196,7 +418,7 @@ export const updateComplaintStatus = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const { status, response } = req.body;
+    const { status, response, duplicateOf } = req.body;
 
     const complaint = await Complaint.findById(req.params.id);
 
@@ -208,76 +430,169 @@ export const updateComplaintStatus = async (
       return;
     }
 
+    // Handlers without complaint:view_all may only update their assignments
+    if (
+      complaint.assignedTo?.toString() !== req.user?.id &&
+      !(await Role.hasPermission(req.user!.role, "complaint:view_all"))
+    ) {
+      res.status(403).json({
+        success: false,
+        message: "Not authorized to update this complaint",
+      });
+      return;
+    }
+
     const previousStatus = complaint.status;
-    const updateData: any = { status };
+    const change = { status, response, duplicateOf };
+
+    const workflow = await getComplaintWorkflow();
+    await checkStatusChange(workflow, complaint, change);
 
-    if (response) {
-      updateData.response = response;
+    // Only apply the change to the status it was checked against
+    const updatedComplaint = await Complaint.findOneAndUpdate(
+      { _id: complaint._id, status: previousStatus },
+      buildStatusUpdate(complaint, change, req.user?.id),
+      { new: true, runValidators: true },
+    );
+
+    if (!updatedComplaint) {
+      res.status(409).json({
+        success: false,
+        message: "The complaint was updated by someone else; reload it",
+      });
+      return;
     }
 
-    if (status === "resolved" || status === "closed") {
-      updateData.resolvedBy = req.user?.id;
-      updateData.resolvedAt = new Date();
+    if (updatedComplaint.status === "duplicate") {
+      await foldDuplicate(updatedComplaint, req.user?.id);
     }
+    await notifyStatusChange(updatedComplaint, previousStatus, req.user?.id);
 
-    // Add to history
-    updateData.$push = {
-      history: {
-        action: "Status updated",
-        performedBy: req.user?.id,
-        previousStatus,
-        newStatus: status,
-        notes: response,
-        timestamp: new Date(),
-      },
-    };
+    res.status(200).json({
+      success: true,
+      message: "Complaint updated successfully",
+      data: updatedComplaint,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to update complaint",
+    });
+  }
+};
 
-    const updatedComplaint = await Complaint.findByIdAndUpdate(
-      req.params.id,
-      updateData,
-      { new: true, runValidators: true },
+/**
+ * Reopen a resolved complaint the resident is not satisfied with, within
+ * the workflow's reopen window
+ * @route POST /api/v1/complaints/:id/reopen
+ * @access Complaint owner
+ */
+export const reopenComplaint = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { reason } = req.body;
+
+    const complaint = await Complaint.findById(req.params.id);
+
+    if (!complaint) {
+      res.status(404).json({
+        success: false,
+        message: "Complaint not found",
+      });
+      return;
+    }
+
+    if (complaint.userId?.toString() !== req.user?.id) {
+      res.status(403).json({
+        success: false,
+        message: "Only the resident who filed this complaint can reopen it",
+      });
+      return;
+    }
+
+    const workflow = await getComplaintWorkflow();
+    if (!workflow.reopenableStatuses.includes(complaint.status)) {
+      res.status(409).json({
+        success: false,
+        message: `A ${complaint.status} complaint cannot be reopened`,
+      });
+      return;
+    }
+
+    const since = complaint.resolvedAt || complaint.updatedAt;
+    const deadline = new Date(
+      since.getTime() + workflow.reopenWindowDays * 24 * 60 * 60 * 1000,
     );
+    if (new Date() > deadline) {
+      res.status(409).json({
+        success: false,
+        message: `Complaints can only be reopened within ${workflow.reopenWindowDays} days of being resolved`,
+      });
+      return;
+    }
 
-    // Create notification for user
-    const notificationMessages: Record<string, string> = {
-      "in-progress": "Your complaint is now being processed by our team.",
-      resolved: "Your complaint has been resolved. Please provide feedback!",
-      closed: "Your complaint has been closed.",
-    };
+    const previousStatus = complaint.status;
+    const reopened = await Complaint.findOneAndUpdate(
+      { _id: complaint._id, status: previousStatus },
+      {
+        status: workflow.reopenStatus,
+        reopenedAt: new Date(),
+        $inc: { reopenCount: 1 },
+        $unset: { resolvedAt: 1, resolvedBy: 1 },
+        $push: {
+          history: {
+            action: "Complaint reopened",
+            performedBy: req.user?.id,
+            previousStatus,
+            newStatus: workflow.reopenStatus,
+            notes: reason,
+            timestamp: new Date(),
+          },
+        },
+      },
+      { new: true },
+    );
 
-    await Notification.create({
-      userId: complaint.userId,
-      title: "Complaint Update",
-      message:
-        notificationMessages[status] ||
-        "Your complaint status has been updated.",
-      type: status === "resolved" ? "success" : "info",
-      relatedId: complaint._id,
-      relatedType: "complaint",
-    });
+    if (!reopened) {
+      res.status(409).json({
+        success: false,
+        message: "The complaint was updated by someone else; reload it",
+      });
+      return;
+    }
 
-    // Real-time notifications
-    emitToUser(complaint.userId.toString(), "complaint:status-changed", {
-      complaintId: complaint._id,
-      status,
-      previousStatus,
-    });
+    if (reopened.assignedTo) {
+      await Notification.create({
+        userId: reopened.assignedTo,
+        title: "Complaint Reopened",
+        message: `The resident reopened "${reopened.title}": ${reason}`,
+        type: "warning",
+        relatedId: reopened._id,
+        relatedType: "complaint",
+      });
+      emitToUser(reopened.assignedTo.toString(), "complaint:reopened", {
+        complaintId: reopened._id,
+        reason,
+      });
+    }
 
-    emitToComplaint(complaint._id.toString(), "status:updated", {
-      status,
-      response,
-      updatedBy: req.user?.id,
+    emitToStaff("complaint:reopened", {
+      complaintId: reopened._id,
+      title: reopened.title,
+      reopenCount: reopened.reopenCount,
     });
 
     res.status(200).json({
       success: true,
-      message: "Complaint updated successfully",
-      data: updatedComplaint,
+      message: "Complaint reopened",
+      data: reopened,
     });
   } catch (error: any) {
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
-      message: error.message || "Failed to update complaint",
+      message: error.message || "Failed to reopen complaint",
     });
   }
 };
@@ -290,7 +605,7 @@ export const assignComplaint = async (
     const { staffId } = req.body;
 
     const staff = await User.findById(staffId);
-    if (!staff || staff.role !== "staff") {
+    if (!staff || !(await Role.hasPermission(staff.role, "complaint:handle"))) {
       res.status(400).json({
         success: false,
         message: "Invalid staff member",
@@ -351,6 +666,350 @@ export const assignComplaint = async (
   }
 };
 
+// Ranked staff for a complaint as the auto-assignment sees them, to help
+// whoever assigns it by hand
+export const getAssignmentCandidates = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const complaint = await Complaint.findById(req.params.id).select(
+      "category zoneId",
+    );
+
+    if (!complaint) {
+      res.status(404).json({
+        success: false,
+        message: "Complaint not found",
+      });
+      return;
+    }
+
+    const { strategy, candidates, excluded } = await rankAssignees(
+      complaint.category,
+      complaint.zoneId,
+      await getAssignmentPolicy(),
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        strategy,
+        candidates: candidates.map((candidate) => ({
+          userId: candidate.user._id,
+          name: `${candidate.user.firstName} ${candidate.user.lastName}`,
+          role: candidate.user.role,
+          openComplaints: candidate.openComplaints,
+          specialized: candidate.specialized,
+          inZone: candidate.inZone,
+        })),
+        excluded,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to rank assignment candidates",
+    });
+  }
+};
+
+/**
+ * Add the resident as a reporter of an open complaint about the same problem
+ * instead of filing their own. They get its status updates from then on.
+ * @route POST /api/v1/complaints/:id/join
+ * @access Verified residents
+ */
+export const joinComplaint = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const complaint = await Complaint.findById(req.params.id).select(
+      "userId status isAnonymous",
+    );
+
+    // Anonymous complaints cannot be joined, so whoever was reported cannot
+    // find and follow them this way
+    if (!complaint || complaint.isAnonymous) {
+      res.status(404).json({
+        success: false,
+        message: "Complaint not found",
+      });
+      return;
+    }
+
+    if (!SLA_OPEN_STATUSES.includes(complaint.status)) {
+      res.status(409).json({
+        success: false,
+        message: "Only open complaints can be joined",
+      });
+      return;
+    }
+
+    const joined = await Complaint.findOneAndUpdate(
+      {
+        _id: complaint._id,
+        userId: { $ne: req.user?.id },
+        "reporters.userId": { $ne: req.user?.id },
+      },
+      {
+        $push: {
+          reporters: { userId: req.user?.id, joinedAt: new Date() },
+          history: {
+            action: "Reporter joined",
+            performedBy: req.user?.id,
+            timestamp: new Date(),
+          },
+        },
+      },
+      { new: true },
+    );
+
+    if (!joined) {
+      res.status(409).json({
+        success: false,
+        message: "You already reported this complaint",
+      });
+      return;
+    }
+
+    emitToComplaint(joined._id.toString(), "reporter:joined", {
+      reporterCount: joined.reporters.length + 1,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "You will be notified of updates to this complaint",
+      data: {
+        complaintId: joined._id,
+        title: joined.title,
+        status: joined.status,
+        reporterCount: joined.reporters.length + 1,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to join complaint",
+    });
+  }
+};
+
+/**
+ * Merge duplicates into a primary complaint. Each is marked duplicate under
+ * the complaint workflow; its filer, reporters, comments and attachments
+ * move to the primary. Complaints that cannot be merged are skipped.
+ * @route POST /api/v1/complaints/:id/merge
+ * @access complaint:merge
+ */
+export const mergeComplaints = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { complaintIds, response } = req.body;
+
+    const primary = await Complaint.findById(req.params.id);
+
+    if (!primary) {
+      res.status(404).json({
+        success: false,
+        message: "Complaint not found",
+      });
+      return;
+    }
+
+    const workflow = await getComplaintWorkflow();
+    const change = {
+      status: "duplicate" as const,
+      duplicateOf: primary._id.toString(),
+      response,
+    };
+    const merged: string[] = [];
+    const skipped: { id: string; reason: string }[] = [];
+
+    for (const id of new Set<string>(complaintIds)) {
+      const duplicate = await Complaint.findById(id);
+      if (!duplicate) {
+        skipped.push({ id, reason: "Complaint not found" });
+        continue;
+      }
+
+      const previousStatus = duplicate.status;
+      try {
+        await checkStatusChange(workflow, duplicate, change);
+      } catch (error: any) {
+        skipped.push({ id, reason: error.message });
+        continue;
+      }
+
+      const updated = await Complaint.findOneAndUpdate(
+        { _id: duplicate._id, status: previousStatus },
+        buildStatusUpdate(duplicate, change, req.user?.id),
+        { new: true, runValidators: true },
+      );
+      if (!updated) {
+        skipped.push({ id, reason: "Updated by someone else meanwhile" });
+        continue;
+      }
+
+      await foldDuplicate(updated, req.user?.id);
+      await notifyStatusChange(updated, previousStatus, req.user?.id);
+      merged.push(id);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `${merged.length} complaint(s) merged`,
+      data: {
+        complaint: await Complaint.findById(primary._id),
+        merged,
+        skipped,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to merge complaints",
+    });
+  }
+};
+
+/**
+ * Follow an anonymous complaint with its tracking code: status, the official
+ * response and public replies. Nothing about the filer or staff is returned.
+ * @route GET /api/v1/complaints/track/:code
+ * @access Public
+ */
+export const trackComplaint = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    const complaint = await Complaint.findOne({
+      trackingCodeHash: hashTrackingCode(req.params.code),
+    }).select(
+      "title category status landmark response resolvedAt comments createdAt updatedAt",
+    );
+
+    if (!complaint) {
+      res.status(404).json({
+        success: false,
+        message: "No complaint matches this tracking code",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        title: complaint.title,
+        category: complaint.category,
+        status: complaint.status,
+        landmark: complaint.landmark,
+        response: complaint.response,
+        resolvedAt: complaint.resolvedAt,
+        createdAt: complaint.createdAt,
+        updatedAt: complaint.updatedAt,
+        replies: complaint.comments
+          .filter((comment) => !comment.isInternal)
+          .map(({ message, createdAt }) => ({ message, createdAt })),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to track complaint",
+    });
+  }
+};
+
+/**
+ * Reveal who filed an anonymous complaint. Every unseal is written to the
+ * audit log with the stated reason.
+ * @route POST /api/v1/complaints/:id/unseal
+ * @access complaint:unseal
+ */
+export const unsealComplaint = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const complaint = await Complaint.findById(req.params.id).select(
+      "+sealedReporterId isAnonymous title",
+    );
+
+    if (!complaint) {
+      res.status(404).json({
+        success: false,
+        message: "Complaint not found",
+      });
+      return;
+    }
+
+    if (!complaint.isAnonymous || !complaint.sealedReporterId) {
+      res.status(400).json({
+        success: false,
+        message: "This complaint was not filed anonymously",
+      });
+      return;
+    }
+
+    const [reporter, officer] = await Promise.all([
+      User.findById(complaint.sealedReporterId).select(
+        "firstName lastName email phoneNumber",
+      ),
+      User.findById(req.user?.id).select("firstName lastName"),
+    ]);
+
+    // The identity is only returned once the unseal is on record
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: officer ? `${officer.firstName} ${officer.lastName}` : "",
+      action: "unseal_reporter",
+      targetType: "complaint",
+      targetId: complaint._id,
+      details: { reason: req.body.reason },
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+
+    // Staff reading the complaint can see that it was unsealed, not by whom
+    // it was filed
+    await Complaint.updateOne(
+      { _id: complaint._id },
+      {
+        $push: {
+          history: {
+            action: "Reporter identity unsealed",
+            performedBy: req.user?.id,
+            timestamp: new Date(),
+          },
+        },
+      },
+    );
+
+    res.status(200).json({
+      success: true,
+      data: reporter
+        ? {
+            id: reporter._id,
+            firstName: reporter.firstName,
+            lastName: reporter.lastName,
+            email: reporter.email,
+            phoneNumber: reporter.phoneNumber,
+          }
+        : null,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to unseal complaint",
+    });
+  }
+};
+
 export const addComment = async (
   req: AuthRequest,
   res: Response,
@@ -388,21 +1047,39 @@ export const addComment = async (
     }
 
     // Notify complaint owner if not internal
-    if (!isInternal && complaint.userId.toString() !== req.user?.id) {
-      await Notification.create({
-        userId: complaint.userId,
-        title: "New Comment on Your Complaint",
-        message: `A new comment has been added to your complaint: ${complaint.title}`,
-        type: "info",
-        relatedId: complaint._id,
-        relatedType: "complaint",
-      });
-
-      // Real-time notification
-      emitToUser(complaint.userId.toString(), "complaint:new-comment", {
-        complaintId: complaint._id,
-        message,
-      });
+    if (!isInternal && complaint.userId?.toString() !== req.user?.id) {
+      // A public reply from staff counts as the first response; residents
+      // adding to the thread do not stop the SLA clock
+      const isStaffReply =
+        (await Role.hasPermission(req.user!.role, "complaint:handle")) ||
+        (await Role.hasPermission(req.user!.role, "complaint:view_all"));
+      const slaUpdate = isStaffReply
+        ? slaProgressUpdate(complaint, undefined, new Date())
+        : {};
+      if (slaUpdate["sla.firstRespondedAt"]) {
+        await Complaint.updateOne(
+          { _id: complaint._id, "sla.firstRespondedAt": { $exists: false } },
+          { $set: slaUpdate },
+        );
+      }
+
+      // Anonymous filers read replies through their tracking code
+      if (complaint.userId) {
+        await Notification.create({
+          userId: complaint.userId,
+          title: "New Comment on Your Complaint",
+          message: `A new comment has been added to your complaint: ${complaint.title}`,
+          type: "info",
+          relatedId: complaint._id,
+          relatedType: "complaint",
+        });
+
+        // Real-time notification
+        emitToUser(complaint.userId.toString(), "complaint:new-comment", {
+          complaintId: complaint._id,
+          message,
+        });
+      }
     }
 
     // Real-time update to complaint subscribers
@@ -454,7 +1131,7 @@ export const rateComplaint = async (
     }
 
     // Only complaint owner can rate
-    if (complaint.userId.toString() !== req.user?.id) {
+    if (complaint.userId?.toString() !== req.user?.id) {
       res.status(403).json({
         success: false,
         message: "Not authorized to rate this complaint",
@@ -520,42 +1197,16 @@ export const escalateComplaint = async (
       return;
     }
 
-    complaint.escalationLevel += 1;
-    complaint.lastEscalatedAt = new Date();
-    complaint.priority = "high";
-
-    complaint.history.push({
-      action: "Complaint escalated",
-      performedBy: req.user?.id as any,
-      notes: `Escalation level increased to ${complaint.escalationLevel}`,
-      timestamp: new Date(),
-    });
-
-    await complaint.save();
-
-    // Notify admins
-    const admins = await User.find({ role: "admin" });
-    for (const admin of admins) {
-      await Notification.create({
-        userId: admin._id,
-        title: "Complaint Escalated",
-        message: `Complaint "${complaint.title}" has been escalated (Level ${complaint.escalationLevel})`,
-        type: "warning",
-        relatedId: complaint._id,
-        relatedType: "complaint",
-      });
-
-      // Real-time notification
-      emitToUser(admin._id.toString(), "complaint:escalated", {
-        complaintId: complaint._id,
-        escalationLevel: complaint.escalationLevel,
-      });
-    }
+    const escalated = await raiseEscalation(
+      complaint._id,
+      req.body.reason || "Escalated by staff",
+      { performedBy: req.user?.id },
+    );
 
     res.status(200).json({
       success: true,
       message: "Complaint escalated successfully",
-      data: complaint,
+      data: escalated,
     });
   } catch (error: any) {
     res.status(500).json({
@@ -583,7 +1234,7 @@ export const deleteComplaint = async (
     // Only allow deletion if pending and user owns it
     if (
       complaint.status !== "pending" ||
-      complaint.userId.toString() !== req.user?.id
+      complaint.userId?.toString() !== req.user?.id
     ) {
       res.status(403).json({
         success: false,
@@ -1,6 +1,23 @@
 import { Response } from "express";
 import SystemConfig from "../models/SystemConfig";
+import Role from "../models/Role";
+import { IDocumentTypeConfig } from "../models/DocumentRequest";
+import {
+  COMPLAINT_ASSIGNMENT_STRATEGIES,
+  COMPLAINT_PRIORITIES,
+  COMPLAINT_STATUSES,
+  COMPLAINT_TRANSITION_FIELDS,
+  ComplaintAssignmentPolicy,
+  ComplaintDuplicatePolicy,
+  ComplaintSlaPolicy,
+  ComplaintWorkflow,
+  DEFAULT_COMPLAINT_ASSIGNMENT_POLICY,
+  DEFAULT_COMPLAINT_DUPLICATE_POLICY,
+  DEFAULT_COMPLAINT_SLA_POLICY,
+  DEFAULT_COMPLAINT_WORKFLOW,
+} from "../models/Complaint";
 import { AuthRequest } from "../types";
+import { MAX_NEAR_RADIUS_METERS } from "../utils/geo";
 
 export const getComplaintCategories = async (
   _req: AuthRequest,
@@ -147,3 +164,652 @@ export const updateServiceItemTypes = async (
     });
   }
 };
+
+export const getVerificationPolicy = async (
+  _req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const config = await SystemConfig.findOne({
+      key: "resident_verification_policy",
+    });
+
+    if (!config) {
+      res.status(404).json({
+        success: false,
+        message: "Configuration not found",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: config.value,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch verification policy",
+    });
+  }
+};
+
+export const updateVerificationPolicy = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { allowUnverifiedSubmissions } = req.body;
+
+    if (typeof allowUnverifiedSubmissions !== "boolean") {
+      res.status(400).json({
+        success: false,
+        message: "allowUnverifiedSubmissions must be a boolean",
+      });
+      return;
+    }
+
+    const config = await SystemConfig.findOneAndUpdate(
+      { key: "resident_verification_policy" },
+      {
+        value: { allowUnverifiedSubmissions },
+        updatedBy: req.user?.id,
+      },
+      { new: true, upsert: true },
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Verification policy updated successfully",
+      data: config.value,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to update verification policy",
+    });
+  }
+};
+
+export const getTwoFactorRequiredRoles = async (
+  _req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const config = await SystemConfig.findOne({
+      key: "two_factor_required_roles",
+    });
+
+    res.status(200).json({
+      success: true,
+      data: config?.value || [],
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch two-factor roles",
+    });
+  }
+};
+
+export const updateTwoFactorRequiredRoles = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { roles } = req.body;
+
+    if (!Array.isArray(roles)) {
+      res.status(400).json({
+        success: false,
+        message: "Roles must be an array of role names",
+      });
+      return;
+    }
+
+    const existingRoles = await Role.find({ name: { $in: roles } }).distinct(
+      "name",
+    );
+    const unknownRoles = roles.filter((role) => !existingRoles.includes(role));
+    if (unknownRoles.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Unknown role(s): ${unknownRoles.join(", ")}`,
+      });
+      return;
+    }
+
+    const config = await SystemConfig.findOneAndUpdate(
+      { key: "two_factor_required_roles" },
+      { value: [...new Set(roles)], updatedBy: req.user?.id },
+      { new: true, upsert: true },
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor requirements updated successfully",
+      data: config.value,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to update two-factor roles",
+    });
+  }
+};
+
+export const getDocumentTypes = async (
+  _req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const config = await SystemConfig.findOne({ key: "document_types" });
+
+    res.status(200).json({
+      success: true,
+      data: config?.value || [],
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch document types",
+    });
+  }
+};
+
+/**
+ * Returns a message describing the first problem with a document type entry
+ */
+const checkDocumentType = (entry: any): string | null => {
+  if (typeof entry?.type !== "string" || !/^[a-z0-9_]+$/.test(entry.type)) {
+    return "Each document type needs a lowercase type key (letters, digits, _)";
+  }
+  if (typeof entry.name !== "string" || !entry.name.trim()) {
+    return `Document type "${entry.type}" needs a name`;
+  }
+  if (
+    typeof entry.serialPrefix !== "string" ||
+    !/^[A-Z]{1,5}$/.test(entry.serialPrefix)
+  ) {
+    return `Document type "${entry.type}" needs a serial prefix of 1-5 capital letters`;
+  }
+  if (typeof entry.template !== "string" || !entry.template.trim()) {
+    return `Document type "${entry.type}" needs a template`;
+  }
+  if (typeof entry.fee !== "number" || entry.fee < 0) {
+    return `Document type "${entry.type}" needs a fee of zero or more`;
+  }
+  if (
+    entry.validityDays !== undefined &&
+    (!Number.isInteger(entry.validityDays) || entry.validityDays < 1)
+  ) {
+    return `Document type "${entry.type}" has an invalid validity period`;
+  }
+  if (
+    !Array.isArray(entry.requirements) ||
+    !entry.requirements.every(
+      (requirement: any) =>
+        typeof requirement?.key === "string" &&
+        /^[a-z0-9_]+$/.test(requirement.key) &&
+        typeof requirement.label === "string" &&
+        requirement.label.trim(),
+    )
+  ) {
+    return `Document type "${entry.type}" has an invalid requirement list`;
+  }
+  return null;
+};
+
+export const updateDocumentTypes = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { documentTypes } = req.body;
+
+    if (!Array.isArray(documentTypes) || documentTypes.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: "Document types must be a non-empty array",
+      });
+      return;
+    }
+
+    for (const entry of documentTypes) {
+      const problem = checkDocumentType(entry);
+      if (problem) {
+        res.status(400).json({ success: false, message: problem });
+        return;
+      }
+    }
+
+    const keys = documentTypes.map((entry) => entry.type);
+    if (new Set(keys).size !== keys.length) {
+      res.status(400).json({
+        success: false,
+        message: "Document type keys must be unique",
+      });
+      return;
+    }
+
+    // Types are deactivated rather than removed once requests refer to them
+    const value: IDocumentTypeConfig[] = documentTypes.map((entry) => ({
+      type: entry.type,
+      name: entry.name.trim(),
+      requirements: entry.requirements.map((requirement: any) => ({
+        key: requirement.key,
+        label: requirement.label.trim(),
+        required: requirement.required !== false,
+      })),
+      fee: entry.fee,
+      validityDays: entry.validityDays,
+      serialPrefix: entry.serialPrefix,
+      template: entry.template,
+      isActive: entry.isActive !== false,
+    }));
+
+    const config = await SystemConfig.findOneAndUpdate(
+      { key: "document_types" },
+      { value, updatedBy: req.user?.id },
+      { new: true, upsert: true },
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Document types updated successfully",
+      data: config.value,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to update document types",
+    });
+  }
+};
+
+export const getComplaintWorkflow = async (
+  _req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const config = await SystemConfig.findOne({ key: "complaint_workflow" });
+
+    res.status(200).json({
+      success: true,
+      data: { ...DEFAULT_COMPLAINT_WORKFLOW, ...config?.value },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch complaint workflow",
+    });
+  }
+};
+
+/**
+ * Returns a message describing the first problem with a complaint workflow
+ */
+const checkComplaintWorkflow = (workflow: any): string | null => {
+  const isStatus = (value: any) => COMPLAINT_STATUSES.includes(value);
+
+  const transitions = workflow?.transitions;
+  if (!transitions || typeof transitions !== "object") {
+    return "transitions must map each status to the statuses it can move to";
+  }
+  for (const status of COMPLAINT_STATUSES) {
+    const targets = transitions[status];
+    if (!Array.isArray(targets) || !targets.every(isStatus)) {
+      return `transitions.${status} must be an array of complaint statuses`;
+    }
+    if (targets.includes(status)) {
+      return `transitions.${status} cannot include itself`;
+    }
+  }
+
+  const requiredFields = workflow.requiredFields || {};
+  for (const [status, fields] of Object.entries(requiredFields)) {
+    if (
+      !isStatus(status) ||
+      !Array.isArray(fields) ||
+      !fields.every((field) => COMPLAINT_TRANSITION_FIELDS.includes(field))
+    ) {
+      return `requiredFields.${status} must list fields from: ${COMPLAINT_TRANSITION_FIELDS.join(", ")}`;
+    }
+  }
+
+  if (
+    !Array.isArray(workflow.reopenableStatuses) ||
+    !workflow.reopenableStatuses.every(isStatus)
+  ) {
+    return "reopenableStatuses must be an array of complaint statuses";
+  }
+  if (
+    !Number.isInteger(workflow.reopenWindowDays) ||
+    workflow.reopenWindowDays < 0
+  ) {
+    return "reopenWindowDays must be a whole number of days";
+  }
+  if (
+    !isStatus(workflow.reopenStatus) ||
+    transitions[workflow.reopenStatus].length === 0
+  ) {
+    return "reopenStatus must be a status that can still change";
+  }
+
+  return null;
+};
+
+export const updateComplaintWorkflow = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const problem = checkComplaintWorkflow(req.body);
+    if (problem) {
+      res.status(400).json({ success: false, message: problem });
+      return;
+    }
+
+    const { transitions, requiredFields, reopenableStatuses } = req.body;
+    const value: ComplaintWorkflow = {
+      transitions,
+      requiredFields: requiredFields || {},
+      reopenableStatuses,
+      reopenWindowDays: req.body.reopenWindowDays,
+      reopenStatus: req.body.reopenStatus,
+    };
+
+    const config = await SystemConfig.findOneAndUpdate(
+      { key: "complaint_workflow" },
+      { value, updatedBy: req.user?.id },
+      { new: true, upsert: true },
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Complaint workflow updated successfully",
+      data: config.value,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to update complaint workflow",
+    });
+  }
+};
+
+export const getComplaintSlaPolicy = async (
+  _req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const config = await SystemConfig.findOne({ key: "complaint_sla_policy" });
+
+    res.status(200).json({
+      success: true,
+      data: { ...DEFAULT_COMPLAINT_SLA_POLICY, ...config?.value },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch complaint SLA policy",
+    });
+  }
+};
+
+/**
+ * Returns a message describing the first problem with a complaint SLA policy
+ */
+const checkComplaintSlaPolicy = (policy: any): string | null => {
+  const isHours = (value: any) => typeof value === "number" && value > 0;
+
+  if (!Array.isArray(policy?.rules)) {
+    return "rules must be an array of SLA rules";
+  }
+  const seen = new Set<string>();
+  for (const [index, rule] of policy.rules.entries()) {
+    if (
+      rule.category !== undefined &&
+      (typeof rule.category !== "string" || !rule.category.trim())
+    ) {
+      return `rules[${index}].category must be a category name`;
+    }
+    if (
+      rule.priority !== undefined &&
+      !COMPLAINT_PRIORITIES.includes(rule.priority)
+    ) {
+      return `rules[${index}].priority must be one of: ${COMPLAINT_PRIORITIES.join(", ")}`;
+    }
+    if (!isHours(rule.firstResponseHours) || !isHours(rule.resolutionHours)) {
+      return `rules[${index}] needs positive firstResponseHours and resolutionHours`;
+    }
+    if (rule.firstResponseHours > rule.resolutionHours) {
+      return `rules[${index}].firstResponseHours cannot exceed resolutionHours`;
+    }
+    const scope = `${rule.category || "*"}/${rule.priority || "*"}`;
+    if (seen.has(scope)) {
+      return `rules[${index}] repeats the category and priority of an earlier rule`;
+    }
+    seen.add(scope);
+  }
+
+  const escalation = policy.escalation;
+  if (!isHours(escalation?.repeatHours)) {
+    return "escalation.repeatHours must be a positive number of hours";
+  }
+  if (!Number.isInteger(escalation.maxLevel) || escalation.maxLevel < 0) {
+    return "escalation.maxLevel must be a whole number";
+  }
+
+  return null;
+};
+
+export const updateComplaintSlaPolicy = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const problem = checkComplaintSlaPolicy(req.body);
+    if (problem) {
+      res.status(400).json({ success: false, message: problem });
+      return;
+    }
+
+    const value: ComplaintSlaPolicy = {
+      rules: req.body.rules.map((rule: any) => ({
+        category: rule.category?.trim(),
+        priority: rule.priority,
+        firstResponseHours: rule.firstResponseHours,
+        resolutionHours: rule.resolutionHours,
+      })),
+      escalation: {
+        repeatHours: req.body.escalation.repeatHours,
+        maxLevel: req.body.escalation.maxLevel,
+      },
+    };
+
+    const config = await SystemConfig.findOneAndUpdate(
+      { key: "complaint_sla_policy" },
+      { value, updatedBy: req.user?.id },
+      { new: true, upsert: true },
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Complaint SLA policy updated successfully",
+      data: config.value,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to update complaint SLA policy",
+    });
+  }
+};
+
+export const getComplaintAssignmentPolicy = async (
+  _req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const config = await SystemConfig.findOne({
+      key: "complaint_assignment_policy",
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { ...DEFAULT_COMPLAINT_ASSIGNMENT_POLICY, ...config?.value },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch complaint assignment policy",
+    });
+  }
+};
+
+export const updateComplaintAssignmentPolicy = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { strategy, preferZoneStaff, maxOpenComplaints } = req.body;
+
+    if (!COMPLAINT_ASSIGNMENT_STRATEGIES.includes(strategy)) {
+      res.status(400).json({
+        success: false,
+        message: `strategy must be one of: ${COMPLAINT_ASSIGNMENT_STRATEGIES.join(", ")}`,
+      });
+      return;
+    }
+    if (typeof preferZoneStaff !== "boolean") {
+      res.status(400).json({
+        success: false,
+        message: "preferZoneStaff must be true or false",
+      });
+      return;
+    }
+    if (!Number.isInteger(maxOpenComplaints) || maxOpenComplaints < 0) {
+      res.status(400).json({
+        success: false,
+        message: "maxOpenComplaints must be a whole number (0 for no cap)",
+      });
+      return;
+    }
+
+    const value: ComplaintAssignmentPolicy = {
+      strategy,
+      preferZoneStaff,
+      maxOpenComplaints,
+    };
+
+    const config = await SystemConfig.findOneAndUpdate(
+      { key: "complaint_assignment_policy" },
+      { value, updatedBy: req.user?.id },
+      { new: true, upsert: true },
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Complaint assignment policy updated successfully",
+      data: config.value,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to update complaint assignment policy",
+    });
+  }
+};
+
+export const getComplaintDuplicatePolicy = async (
+  _req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const config = await SystemConfig.findOne({
+      key: "complaint_duplicate_policy",
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { ...DEFAULT_COMPLAINT_DUPLICATE_POLICY, ...config?.value },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to fetch complaint duplicate policy",
+    });
+  }
+};
+
+export const updateComplaintDuplicatePolicy = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { windowDays, minScore, maxSuggestions, nearbyMeters } = req.body;
+
+    if (!Number.isInteger(windowDays) || windowDays < 1) {
+      res.status(400).json({
+        success: false,
+        message: "windowDays must be a whole number of days",
+      });
+      return;
+    }
+    if (typeof minScore !== "number" || minScore <= 0 || minScore > 1) {
+      res.status(400).json({
+        success: false,
+        message: "minScore must be above 0 and at most 1",
+      });
+      return;
+    }
+    if (
+      !Number.isInteger(maxSuggestions) ||
+      maxSuggestions < 1 ||
+      maxSuggestions > 20
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "maxSuggestions must be between 1 and 20",
+      });
+      return;
+    }
+
+    if (
+      typeof nearbyMeters !== "number" ||
+      nearbyMeters <= 0 ||
+      nearbyMeters > MAX_NEAR_RADIUS_METERS
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `nearbyMeters must be above 0 and at most ${MAX_NEAR_RADIUS_METERS}`,
+      });
+      return;
+    }
+
+    const value: ComplaintDuplicatePolicy = {
+      windowDays,
+      minScore,
+      maxSuggestions,
+      nearbyMeters,
+    };
+
+    const config = await SystemConfig.findOneAndUpdate(
+      { key: "complaint_duplicate_policy" },
+      { value, updatedBy: req.user?.id },
+      { new: true, upsert: true },
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Complaint duplicate policy updated successfully",
+      data: config.value,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Failed to update complaint duplicate policy",
+    });
+  }
+};
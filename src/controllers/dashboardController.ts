@@ -4,6 +4,8 @@ import Service from "../models/Service";
 import Event from "../models/Event";
 import User from "../models/User";
 import Announcement from "../models/Announcement";
+import { SLA_OPEN_STATUSES } from "../utils/complaintSla";
+import { geoWithinQuery } from "../utils/geo";
 
 /**
  * Dashboard Controller
@@ -334,3 +336,84 @@ export const getStaffPerformance = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Count pinned complaints per grid cell for the dashboard heatmap
+ * @route GET /api/v1/dashboard/complaint-heatmap
+ * @access Admin, Staff
+ */
+export const getComplaintHeatmap = async (req: Request, res: Response) => {
+  try {
+    const { status, category, startDate, endDate } = req.query;
+    // Cell edge in degrees; 0.002 is roughly 200 meters
+    const cellSize = Math.min(
+      Math.max(Number(req.query.cellSize) || 0.002, 0.0005),
+      0.1,
+    );
+
+    const match: any = {
+      location: geoWithinQuery(req.query) || { $exists: true },
+    };
+    if (status) match.status = status;
+    if (category) match.category = category;
+    if (startDate || endDate) {
+      match.createdAt = {};
+      if (startDate) match.createdAt.$gte = new Date(startDate as string);
+      if (endDate) match.createdAt.$lte = new Date(endDate as string);
+    }
+
+    const cells = await Complaint.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: {
+            x: {
+              $floor: {
+                $divide: [
+                  { $arrayElemAt: ["$location.coordinates", 0] },
+                  cellSize,
+                ],
+              },
+            },
+            y: {
+              $floor: {
+                $divide: [
+                  { $arrayElemAt: ["$location.coordinates", 1] },
+                  cellSize,
+                ],
+              },
+            },
+          },
+          count: { $sum: 1 },
+          open: {
+            $sum: {
+              $cond: [{ $in: ["$status", SLA_OPEN_STATUSES] }, 1, 0],
+            },
+          },
+        },
+      },
+      { $sort: { count: -1 } },
+      { $limit: 5000 },
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        cellSize,
+        cells: cells.map((cell) => ({
+          // Center of the cell
+          latitude: (cell._id.y + 0.5) * cellSize,
+          longitude: (cell._id.x + 0.5) * cellSize,
+          count: cell.count,
+          open: cell.open,
+        })),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch complaint heatmap",
+      error: error.message,
+    });
+  }
+};
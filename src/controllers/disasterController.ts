@@ -0,0 +1,810 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import EvacuationCenter, {
+  IEvacuationCenter,
+} from "../models/EvacuationCenter";
+import EvacuationCheckIn from "../models/EvacuationCheckIn";
+import MissingResident from "../models/MissingResident";
+import Household from "../models/Household";
+import Announcement from "../models/Announcement";
+import Notification from "../models/Notification";
+import User from "../models/User";
+import Role from "../models/Role";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest } from "../types";
+import { emitToAll, emitToStaff, emitToUser } from "../config/socket";
+import { broadcastToAll } from "../websocket/websocketServer";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../utils/AppError";
+
+/**
+ * Disaster Controller
+ * Evacuation centers, household check-ins, missing residents and
+ * emergency alerts
+ */
+
+const CENTER_FIELDS = [
+  "name",
+  "address",
+  "zoneId",
+  "capacity",
+  "facilities",
+  "contactPerson",
+  "contactNumber",
+  "isActive",
+] as const;
+
+// Notifications are written in chunks so an alert to every user stays cheap
+const ALERT_BATCH_SIZE = 500;
+
+const statusFor = (error: any): number => {
+  if (error.name === "ValidationError") return 400;
+  if (error.code === 11000) return 409;
+  return error.statusCode || 500;
+};
+
+const recordDisasterEvent = async (
+  req: AuthRequest,
+  action: string,
+  targetId: unknown,
+  details: Record<string, any> = {},
+): Promise<void> => {
+  const actor = await User.findById(req.user?.id);
+  if (actor) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${actor.firstName} ${actor.lastName}`,
+      action,
+      targetType: "disaster",
+      targetId,
+      details,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+/**
+ * Push a center's live count to the staff room
+ */
+const emitHeadcount = (center: IEvacuationCenter): void => {
+  emitToStaff("evacuation:headcount", {
+    centerId: center._id,
+    name: center.name,
+    status: center.status,
+    headcount: center.headcount,
+    households: center.households,
+    capacity: center.capacity,
+    available: Math.max(center.capacity - center.headcount, 0),
+  });
+};
+
+/**
+ * Mark missing-resident flags as found and tell whoever reported them
+ */
+const resolveMissing = async (
+  filter: Record<string, any>,
+  foundBy: string | undefined,
+  foundLocation: string,
+  foundNotes?: string,
+): Promise<number> => {
+  const reports = await MissingResident.find({ ...filter, status: "missing" });
+  let resolved = 0;
+
+  for (const report of reports) {
+    const found = await MissingResident.findOneAndUpdate(
+      { _id: report._id, status: "missing" },
+      {
+        status: "found",
+        foundAt: new Date(),
+        foundBy,
+        foundLocation,
+        foundNotes,
+      },
+      { new: true },
+    );
+    if (!found) continue;
+    resolved++;
+
+    await Notification.create({
+      userId: found.reportedBy,
+      title: "Missing Person Found",
+      message: `${found.name} has been found: ${foundLocation}.`,
+      type: "success",
+      relatedId: found._id,
+      relatedType: "disaster",
+    });
+    emitToUser(found.reportedBy.toString(), "disaster:found", {
+      reportId: found._id,
+      name: found.name,
+    });
+    emitToStaff("disaster:found", {
+      reportId: found._id,
+      name: found.name,
+      foundLocation,
+    });
+  }
+
+  return resolved;
+};
+
+/**
+ * List evacuation centers. Residents see active centers so they know where
+ * to go; staff can include decommissioned ones.
+ * @route GET /api/v1/disaster/centers
+ * @access Authenticated
+ */
+export const getCenters = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { status, zoneId, includeInactive } = req.query;
+
+    const filter: any = {};
+    if (
+      includeInactive !== "true" ||
+      !(await Role.hasPermission(req.user!.role, "disaster:manage"))
+    ) {
+      filter.isActive = true;
+    }
+    if (status) filter.status = status;
+    if (zoneId) filter.zoneId = zoneId;
+
+    const centers = await EvacuationCenter.find(filter)
+      .populate("zoneId", "name code")
+      .sort({ status: -1, name: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: centers,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch evacuation centers",
+    });
+  }
+};
+
+/**
+ * Register an evacuation center
+ * @route POST /api/v1/disaster/centers
+ * @access disaster:manage
+ */
+export const createCenter = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const fields: any = {};
+    for (const field of CENTER_FIELDS) {
+      if (req.body[field] !== undefined) fields[field] = req.body[field];
+    }
+
+    const center = await EvacuationCenter.create({
+      ...fields,
+      createdBy: req.user?.id,
+    });
+
+    await recordDisasterEvent(req, "create_evacuation_center", center._id, {
+      name: center.name,
+      capacity: center.capacity,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Evacuation center created successfully",
+      data: center,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message:
+        error.code === 11000
+          ? "A center with this name already exists"
+          : error.message || "Failed to create evacuation center",
+    });
+  }
+};
+
+/**
+ * Update a center's details
+ * @route PUT /api/v1/disaster/centers/:id
+ * @access disaster:manage
+ */
+export const updateCenter = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const center = await EvacuationCenter.findById(req.params.id);
+    if (!center) {
+      throw new NotFoundError("Evacuation center not found");
+    }
+
+    const fields: any = {};
+    for (const field of CENTER_FIELDS) {
+      if (req.body[field] !== undefined) fields[field] = req.body[field];
+    }
+
+    center.set(fields);
+    await center.save();
+
+    await recordDisasterEvent(req, "update_evacuation_center", center._id, {
+      fields: Object.keys(fields),
+    });
+    emitHeadcount(center);
+
+    res.status(200).json({
+      success: true,
+      message: "Evacuation center updated successfully",
+      data: center,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message:
+        error.code === 11000
+          ? "A center with this name already exists"
+          : error.message || "Failed to update evacuation center",
+    });
+  }
+};
+
+/**
+ * Open a center for check-ins, or close it once everyone has checked out
+ * @route PUT /api/v1/disaster/centers/:id/status
+ * @access disaster:manage
+ */
+export const updateCenterStatus = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { status } = req.body;
+
+    const center = await EvacuationCenter.findById(req.params.id);
+    if (!center) {
+      throw new NotFoundError("Evacuation center not found");
+    }
+    if (status === "open" && !center.isActive) {
+      throw new ConflictError("This center is no longer in use");
+    }
+    if (
+      status !== "open" &&
+      (await EvacuationCheckIn.exists({
+        centerId: center._id,
+        status: "checked_in",
+      }))
+    ) {
+      throw new ConflictError(
+        "Check out every household before closing this center",
+      );
+    }
+
+    const previousStatus = center.status;
+    center.status = status;
+    if (status === "open" && previousStatus !== "open") {
+      center.openedAt = new Date();
+      center.closedAt = undefined;
+    }
+    if (status === "closed" && previousStatus === "open") {
+      center.closedAt = new Date();
+    }
+    await center.save();
+
+    await recordDisasterEvent(
+      req,
+      "update_evacuation_center_status",
+      center._id,
+      {
+        previousStatus,
+        status,
+      },
+    );
+    emitHeadcount(center);
+
+    res.status(200).json({
+      success: true,
+      message: `Evacuation center is now ${status}`,
+      data: center,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update center status",
+    });
+  }
+};
+
+/**
+ * Households at a center, checked-in by default
+ * @route GET /api/v1/disaster/centers/:id/checkins
+ * @access disaster:manage
+ */
+export const getCenterCheckIns = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const status = (req.query.status as string) || "checked_in";
+
+    const checkIns = await EvacuationCheckIn.find({
+      centerId: req.params.id,
+      ...(status !== "all" && { status }),
+    })
+      .populate("householdId", "address purok members")
+      .populate("checkedInBy", "firstName lastName")
+      .sort({ checkedInAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: checkIns,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch check-ins",
+    });
+  }
+};
+
+/**
+ * Check a household into a center. `headcount` defaults to the members
+ * listed, or the whole household. Listed members clear any missing flags.
+ * @route POST /api/v1/disaster/centers/:id/checkins
+ * @access disaster:manage
+ */
+export const checkInHousehold = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { householdId, specialNeeds, notes } = req.body;
+    const memberIds: string[] = req.body.memberIds || [];
+
+    const household = await Household.findById(householdId);
+    if (!household) {
+      throw new NotFoundError("Household not found");
+    }
+    for (const memberId of memberIds) {
+      if (!household.members.id(memberId)) {
+        throw new ValidationError(
+          "Every checked-in member must belong to the household",
+        );
+      }
+    }
+
+    const headcount =
+      Number(req.body.headcount) ||
+      memberIds.length ||
+      household.members.length ||
+      1;
+
+    const existing = await EvacuationCheckIn.findOne({
+      householdId: household._id,
+      status: "checked_in",
+    }).populate("centerId", "name");
+    if (existing) {
+      throw new ConflictError(
+        `This household is already checked in at ${(existing.centerId as any)?.name}`,
+      );
+    }
+
+    // Reserve the space in the same write that checks it
+    const center = await EvacuationCenter.findOneAndUpdate(
+      {
+        _id: req.params.id,
+        status: "open",
+        $expr: { $lte: [{ $add: ["$headcount", headcount] }, "$capacity"] },
+      },
+      { $inc: { headcount, households: 1 } },
+      { new: true },
+    );
+    if (!center) {
+      const target = await EvacuationCenter.findById(req.params.id);
+      if (!target) {
+        throw new NotFoundError("Evacuation center not found");
+      }
+      if (target.status !== "open") {
+        throw new ConflictError("This center is not open");
+      }
+      throw new ConflictError(
+        `This center has room for ${Math.max(target.capacity - target.headcount, 0)} more`,
+      );
+    }
+
+    let checkIn;
+    try {
+      checkIn = await EvacuationCheckIn.create({
+        centerId: center._id,
+        householdId: household._id,
+        memberIds,
+        headcount,
+        specialNeeds,
+        notes,
+        checkedInBy: req.user?.id,
+      });
+    } catch (error) {
+      // Give the space back if the household checked in elsewhere meanwhile
+      await EvacuationCenter.updateOne(
+        { _id: center._id },
+        { $inc: { headcount: -headcount, households: -1 } },
+      );
+      throw error;
+    }
+
+    emitHeadcount(center);
+
+    const found = memberIds.length
+      ? await resolveMissing(
+          {
+            memberId: {
+              $in: memberIds.map((id) => new mongoose.Types.ObjectId(id)),
+            },
+          },
+          req.user?.id,
+          `Checked in at ${center.name}`,
+        )
+      : 0;
+
+    await recordDisasterEvent(req, "evacuation_check_in", center._id, {
+      checkInId: checkIn._id,
+      householdId: household._id,
+      headcount,
+      missingResolved: found,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Household checked in",
+      data: { checkIn, center, missingResolved: found },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message:
+        error.code === 11000
+          ? "This household is already checked in at a center"
+          : error.message || "Failed to check in household",
+    });
+  }
+};
+
+/**
+ * Check a household out of its center
+ * @route PUT /api/v1/disaster/checkins/:id/checkout
+ * @access disaster:manage
+ */
+export const checkOutHousehold = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const checkIn = await EvacuationCheckIn.findOneAndUpdate(
+      { _id: req.params.id, status: "checked_in" },
+      {
+        status: "checked_out",
+        checkedOutAt: new Date(),
+        checkedOutBy: req.user?.id,
+        ...(req.body.notes !== undefined && { notes: req.body.notes }),
+      },
+      { new: true },
+    );
+    if (!checkIn) {
+      if (await EvacuationCheckIn.exists({ _id: req.params.id })) {
+        throw new ConflictError("This household has already checked out");
+      }
+      throw new NotFoundError("Check-in not found");
+    }
+
+    const center = await EvacuationCenter.findByIdAndUpdate(
+      checkIn.centerId,
+      { $inc: { headcount: -checkIn.headcount, households: -1 } },
+      { new: true },
+    );
+    if (center) emitHeadcount(center);
+
+    await recordDisasterEvent(req, "evacuation_check_out", checkIn.centerId, {
+      checkInId: checkIn._id,
+      householdId: checkIn.householdId,
+      headcount: checkIn.headcount,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Household checked out",
+      data: { checkIn, center },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to check out household",
+    });
+  }
+};
+
+/**
+ * Current totals across open centers
+ * @route GET /api/v1/disaster/headcount
+ * @access disaster:manage
+ */
+export const getHeadcount = async (
+  _req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const [centers, missing] = await Promise.all([
+      EvacuationCenter.find({ status: "open" })
+        .select("name capacity headcount households openedAt")
+        .sort({ name: 1 }),
+      MissingResident.countDocuments({ status: "missing" }),
+    ]);
+
+    const totals = centers.reduce(
+      (sum, center) => ({
+        headcount: sum.headcount + center.headcount,
+        households: sum.households + center.households,
+        capacity: sum.capacity + center.capacity,
+      }),
+      { headcount: 0, households: 0, capacity: 0 },
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        centers,
+        totals: { ...totals, openCenters: centers.length, missing },
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch headcount",
+    });
+  }
+};
+
+/**
+ * Report a missing person. Anyone signed in can report a family member.
+ * @route POST /api/v1/disaster/missing
+ * @access Authenticated
+ */
+export const reportMissing = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const {
+      householdId,
+      memberId,
+      age,
+      description,
+      lastSeenLocation,
+      lastSeenAt,
+      contactNumber,
+    } = req.body;
+    let { name } = req.body;
+
+    if (memberId) {
+      const household = householdId
+        ? await Household.findById(householdId)
+        : await Household.findOne({ "members._id": memberId });
+      const member = household?.members.id(memberId);
+      if (!household || !member) {
+        throw new ValidationError("Household member not found");
+      }
+      name = name || `${member.firstName} ${member.lastName}`;
+
+      if (await MissingResident.exists({ memberId, status: "missing" })) {
+        throw new ConflictError("This person is already reported missing");
+      }
+
+      req.body.householdId = household._id;
+    }
+
+    const report = await MissingResident.create({
+      name,
+      householdId: req.body.householdId,
+      memberId,
+      age,
+      description,
+      lastSeenLocation,
+      lastSeenAt,
+      contactNumber,
+      reportedBy: req.user?.id,
+    });
+
+    emitToStaff("disaster:missing", {
+      reportId: report._id,
+      name: report.name,
+      lastSeenLocation: report.lastSeenLocation,
+      lastSeenAt: report.lastSeenAt,
+    });
+
+    await recordDisasterEvent(req, "report_missing", report._id, {
+      name: report.name,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Missing person reported",
+      data: report,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to report missing person",
+    });
+  }
+};
+
+/**
+ * Missing-person flags, open ones first
+ * @route GET /api/v1/disaster/missing
+ * @access disaster:manage
+ */
+export const getMissingResidents = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+    const { status, search } = req.query;
+
+    const filter: any = {};
+    filter.status = status || "missing";
+    if (status === "all") delete filter.status;
+    if (search) filter.name = { $regex: search, $options: "i" };
+
+    const [reports, total] = await Promise.all([
+      MissingResident.find(filter)
+        .populate("householdId", "address purok")
+        .populate("reportedBy", "firstName lastName phoneNumber")
+        .sort({ status: -1, createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      MissingResident.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: reports,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch missing persons",
+    });
+  }
+};
+
+/**
+ * Mark a missing person as found
+ * @route PUT /api/v1/disaster/missing/:id/found
+ * @access disaster:manage
+ */
+export const markFound = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { foundLocation, foundNotes } = req.body;
+
+    const report = await MissingResident.findById(req.params.id);
+    if (!report) {
+      throw new NotFoundError("Missing person report not found");
+    }
+    if (report.status === "found") {
+      throw new ConflictError("This person has already been found");
+    }
+
+    await resolveMissing(
+      { _id: report._id },
+      req.user?.id,
+      foundLocation,
+      foundNotes,
+    );
+
+    await recordDisasterEvent(req, "mark_found", report._id, {
+      name: report.name,
+      foundLocation,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Marked as found",
+      data: await MissingResident.findById(report._id),
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update missing person",
+    });
+  }
+};
+
+/**
+ * Publish an urgent, pinned emergency announcement, notify every active
+ * user and push the alert to every connected client
+ * @route POST /api/v1/disaster/alerts
+ * @access disaster:alert
+ */
+export const sendEmergencyAlert = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { title, content } = req.body;
+
+    const announcement = await Announcement.create({
+      title,
+      content,
+      category: "emergency",
+      priority: "urgent",
+      isPublished: true,
+      isPinned: true,
+      publishedAt: new Date(),
+      createdBy: req.user?.id,
+    });
+
+    let notified = 0;
+    let batch: any[] = [];
+    const flush = async (): Promise<void> => {
+      if (batch.length === 0) return;
+      await Notification.insertMany(batch, { ordered: false });
+      notified += batch.length;
+      batch = [];
+    };
+
+    const cursor = User.find({ isActive: true }).select("_id").lean().cursor();
+    for await (const user of cursor) {
+      batch.push({
+        userId: user._id,
+        title,
+        message: content,
+        type: "error",
+        relatedId: announcement._id,
+        relatedType: "announcement",
+      });
+      if (batch.length >= ALERT_BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    broadcastToAll({ type: "NEW_ANNOUNCEMENT", data: announcement });
+    emitToAll("emergency:alert", {
+      announcementId: announcement._id,
+      title,
+      content,
+      publishedAt: announcement.publishedAt,
+    });
+
+    await recordDisasterEvent(req, "send_emergency_alert", announcement._id, {
+      title,
+      notified,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Emergency alert sent to ${notified} users`,
+      data: { announcement, notified },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to send emergency alert",
+    });
+  }
+};
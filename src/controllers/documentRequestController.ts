@@ -0,0 +1,853 @@
+import { Request, Response } from "express";
+import fs from "fs";
+import path from "path";
+import DocumentRequest, {
+  IDocumentRequest,
+  IDocumentTypeConfig,
+} from "../models/DocumentRequest";
+import SystemConfig from "../models/SystemConfig";
+import User from "../models/User";
+import Role from "../models/Role";
+import Zone from "../models/Zone";
+import Household from "../models/Household";
+import Counter from "../models/Counter";
+import Payment from "../models/Payment";
+import Notification from "../models/Notification";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest, IUser } from "../types";
+import { documentRequestsDir } from "../middleware/upload";
+import { emitToUser, emitToStaff } from "../config/socket";
+import {
+  certificatesDir,
+  generateCertificatePdf,
+  getBarangayInfo,
+  maskName,
+  renderCertificateTemplate,
+  signSerial,
+  verifySignedSerial,
+} from "../utils/certificatePdf";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "../utils/AppError";
+
+/**
+ * Document Request Controller
+ * Barangay clearances and certificates: filing, review, issuance and pickup
+ */
+
+const getUploadedFiles = (req: AuthRequest): Express.Multer.File[] =>
+  Array.isArray(req.files) ? req.files : [];
+
+const removeUploadedFiles = (files: Express.Multer.File[]): void => {
+  for (const file of files) {
+    fs.promises.unlink(file.path).catch(() => undefined);
+  }
+};
+
+const statusFor = (error: any): number =>
+  error.name === "ValidationError" ? 400 : error.statusCode || 500;
+
+const canProcess = (req: AuthRequest): Promise<boolean> =>
+  Role.hasPermission(req.user!.role, "document:process");
+
+const getDocumentTypes = async (): Promise<IDocumentTypeConfig[]> => {
+  const config = await SystemConfig.findOne({ key: "document_types" });
+  return config?.value || [];
+};
+
+const recordDocumentEvent = async (
+  req: AuthRequest,
+  action: string,
+  request: IDocumentRequest,
+  details: Record<string, any> = {},
+): Promise<void> => {
+  const actor = await User.findById(req.user?.id);
+  if (actor) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${actor.firstName} ${actor.lastName}`,
+      action,
+      targetType: "document",
+      targetId: request._id,
+      details: { documentType: request.documentType, ...details },
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+const findRequestForViewer = async (
+  req: AuthRequest,
+  select = "",
+): Promise<IDocumentRequest> => {
+  const request = await DocumentRequest.findById(req.params.id).select(select);
+  if (!request) {
+    throw new NotFoundError("Document request not found");
+  }
+
+  if (request.userId.toString() !== req.user?.id && !(await canProcess(req))) {
+    throw new ForbiddenError("Not authorized to view this request");
+  }
+
+  return request;
+};
+
+// Values available to document type templates as {{placeholders}}
+const buildTemplateValues = async (
+  holder: IUser,
+  request: IDocumentRequest,
+): Promise<Record<string, string | undefined>> => {
+  const profile = holder.profile || {};
+  const household = holder.householdId
+    ? await Household.findById(holder.householdId).select("address")
+    : null;
+
+  const fullName = [
+    holder.firstName,
+    profile.middleName,
+    holder.lastName,
+    profile.suffix,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    fullName: fullName.toUpperCase(),
+    firstName: holder.firstName,
+    lastName: holder.lastName,
+    civilStatus: profile.civilStatus?.replace("_", "-"),
+    citizenship: profile.citizenship,
+    address: household?.address || holder.address,
+    barangay: getBarangayInfo().name,
+    purpose: request.purpose,
+    residencySince: profile.residentSince
+      ? `since ${new Date(profile.residentSince).getFullYear()}`
+      : "",
+  };
+};
+
+/**
+ * List the certificates residents can request
+ * @route GET /api/v1/document-requests/types
+ * @access Authenticated
+ */
+export const getRequestableDocumentTypes = async (
+  _req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const types = await getDocumentTypes();
+
+    res.status(200).json({
+      success: true,
+      data: types
+        .filter((type) => type.isActive)
+        .map(({ template: _template, ...type }) => type),
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch document types",
+    });
+  }
+};
+
+/**
+ * File a document request. Requirement files are sent as multipart fields
+ * named after the requirement keys of the document type.
+ * @route POST /api/v1/document-requests
+ * @access Authenticated
+ */
+export const createDocumentRequest = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  const files = getUploadedFiles(req);
+
+  try {
+    const { documentType, purpose } = req.body;
+
+    const type = (await getDocumentTypes()).find(
+      (entry) => entry.type === documentType && entry.isActive,
+    );
+    if (!type) {
+      throw new ValidationError("This document type is not available");
+    }
+
+    const requirements = [];
+    for (const file of files) {
+      const requirement = type.requirements.find(
+        (entry) => entry.key === file.fieldname,
+      );
+      if (!requirement) {
+        throw new ValidationError(`Unexpected file field "${file.fieldname}"`);
+      }
+      if (requirements.some((entry) => entry.key === requirement.key)) {
+        throw new ValidationError(
+          `Upload only one file for "${requirement.label}"`,
+        );
+      }
+      requirements.push({
+        key: requirement.key,
+        label: requirement.label,
+        fileName: file.filename,
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+      });
+    }
+
+    const missing = type.requirements.filter(
+      (requirement) =>
+        requirement.required &&
+        !requirements.some((entry) => entry.key === requirement.key),
+    );
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `Missing requirement(s): ${missing.map((entry) => entry.label).join(", ")}`,
+      );
+    }
+
+    const user = await User.findById(req.user?.id);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const request = await DocumentRequest.create({
+      userId: user._id,
+      householdId: user.householdId,
+      zoneId: await Zone.resolveForUser(req.user!.id),
+      documentType: type.type,
+      documentName: type.name,
+      purpose,
+      requirements,
+      fee: type.fee,
+    });
+
+    await Notification.create({
+      userId: user._id,
+      title: "Document Request Submitted",
+      message: `Your request for a ${type.name} has been submitted and is pending review.`,
+      type: "info",
+      relatedId: request._id,
+      relatedType: "document",
+    });
+
+    emitToStaff("document:submitted", {
+      requestId: request._id,
+      documentType: type.type,
+      userName: `${user.firstName} ${user.lastName}`,
+    });
+
+    await recordDocumentEvent(req, "request_document", request, { purpose });
+
+    res.status(201).json({
+      success: true,
+      message: "Document request submitted successfully",
+      data: request,
+    });
+  } catch (error: any) {
+    removeUploadedFiles(files);
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to submit document request",
+    });
+  }
+};
+
+/**
+ * List the current user's document requests
+ * @route GET /api/v1/document-requests/me
+ * @access Authenticated
+ */
+export const getMyDocumentRequests = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const requests = await DocumentRequest.find({ userId: req.user?.id }).sort({
+      createdAt: -1,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: requests,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch document requests",
+    });
+  }
+};
+
+/**
+ * Processing queue, oldest first
+ * @route GET /api/v1/document-requests
+ * @access document:process
+ */
+export const getDocumentRequests = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+    const { status, documentType, zoneId, serialNumber } = req.query;
+
+    const filter: any = {};
+    if (status) filter.status = status;
+    if (documentType) filter.documentType = documentType;
+    if (zoneId) filter.zoneId = zoneId;
+    if (serialNumber) filter.serialNumber = serialNumber;
+
+    const [requests, total] = await Promise.all([
+      DocumentRequest.find(filter)
+        .populate("userId", "firstName lastName email phoneNumber address")
+        .populate("zoneId", "name code")
+        .sort({ createdAt: status === "pending" ? 1 : -1 })
+        .skip(skip)
+        .limit(limit),
+      DocumentRequest.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: requests,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch document requests",
+    });
+  }
+};
+
+/**
+ * Get a document request
+ * @route GET /api/v1/document-requests/:id
+ * @access Owner or document:process
+ */
+export const getDocumentRequestById = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const request = await findRequestForViewer(req);
+    await request.populate([
+      { path: "userId", select: "firstName lastName email phoneNumber" },
+      { path: "approvedBy", select: "firstName lastName" },
+      { path: "rejectedBy", select: "firstName lastName" },
+      { path: "releasedBy", select: "firstName lastName" },
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: request,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch document request",
+    });
+  }
+};
+
+/**
+ * Stream an uploaded requirement
+ * @route GET /api/v1/document-requests/:id/requirements/:key
+ * @access Owner or document:process
+ */
+export const getRequirementFile = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const request = await findRequestForViewer(req);
+
+    const requirement = request.requirements.find(
+      (entry) => entry.key === req.params.key,
+    );
+    if (!requirement) {
+      throw new NotFoundError("Requirement not found");
+    }
+
+    const filePath = path.join(
+      documentRequestsDir,
+      path.basename(requirement.fileName),
+    );
+    if (!fs.existsSync(filePath)) {
+      throw new NotFoundError("Requirement file is no longer available");
+    }
+
+    res.setHeader("Content-Type", requirement.mimeType);
+    res.setHeader("Cache-Control", "private, no-store");
+    res.sendFile(filePath);
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch requirement",
+    });
+  }
+};
+
+/**
+ * Approve a request: assign the serial number, render the PDF and tell the
+ * resident it is ready for pickup
+ * @route PUT /api/v1/document-requests/:id/approve
+ * @access document:process
+ */
+export const approveDocumentRequest = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  let pdfPath: string | undefined;
+  let issued = false;
+
+  try {
+    const { notes } = req.body;
+
+    const request = await DocumentRequest.findById(req.params.id);
+    if (!request) {
+      throw new NotFoundError("Document request not found");
+    }
+
+    if (request.status !== "pending") {
+      throw new ConflictError(`This request is already ${request.status}`);
+    }
+
+    if (request.userId.toString() === req.user?.id) {
+      throw new ForbiddenError("You cannot approve your own request");
+    }
+
+    const type = (await getDocumentTypes()).find(
+      (entry) => entry.type === request.documentType,
+    );
+    if (!type) {
+      throw new ValidationError(
+        "This document type no longer exists in the configuration",
+      );
+    }
+
+    const [holder, official] = await Promise.all([
+      User.findById(request.userId),
+      User.findById(req.user?.id),
+    ]);
+    if (!holder || !official) {
+      throw new NotFoundError("User not found");
+    }
+    const officialRole = await Role.findOne({ name: official.role });
+
+    const issuedAt = new Date();
+    const year = issuedAt.getFullYear();
+    const sequence = await Counter.next(
+      `document:${type.serialPrefix}:${year}`,
+    );
+    const serialNumber = `${type.serialPrefix}-${year}-${String(sequence).padStart(6, "0")}`;
+    const validUntil = type.validityDays
+      ? new Date(issuedAt.getTime() + type.validityDays * 24 * 60 * 60 * 1000)
+      : undefined;
+    const issuingOfficial = {
+      userId: official._id,
+      name: `${official.firstName} ${official.lastName}`,
+      position: officialRole?.displayName || official.role,
+    };
+
+    const pdfFileName = `${serialNumber}.pdf`;
+    pdfPath = await generateCertificatePdf(
+      {
+        serialNumber,
+        title: type.name,
+        body: renderCertificateTemplate(
+          type.template,
+          await buildTemplateValues(holder, request),
+        ),
+        issuedAt,
+        validUntil,
+        fee: request.fee,
+        signedSerial: signSerial(serialNumber),
+        official: issuingOfficial,
+      },
+      pdfFileName,
+    );
+
+    // Only a pending request can be approved, and only once
+    const approved = await DocumentRequest.findOneAndUpdate(
+      { _id: request._id, status: "pending" },
+      {
+        status: "approved",
+        notes,
+        serialNumber,
+        issuedAt,
+        validUntil,
+        issuingOfficial,
+        pdfFileName,
+        approvedBy: req.user?.id,
+        approvedAt: issuedAt,
+      },
+      { new: true, runValidators: true },
+    );
+    if (!approved) {
+      throw new ConflictError("This request has already been processed");
+    }
+    issued = true;
+
+    await Notification.create({
+      userId: request.userId,
+      title: "Document Ready for Pickup",
+      message: `Your ${type.name} (${serialNumber}) is ready for pickup at the barangay hall.${
+        request.fee > 0 ? ` Please prepare PHP ${request.fee.toFixed(2)}.` : ""
+      }`,
+      type: "success",
+      relatedId: request._id,
+      relatedType: "document",
+    });
+
+    emitToUser(request.userId.toString(), "document:ready", {
+      requestId: request._id,
+      documentType: type.type,
+      serialNumber,
+    });
+
+    await recordDocumentEvent(req, "approve_document", approved, {
+      serialNumber,
+      notes,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Document request approved successfully",
+      data: approved,
+    });
+  } catch (error: any) {
+    // A PDF only outlives the request that was actually approved with it
+    if (pdfPath && !issued) {
+      fs.promises.unlink(pdfPath).catch(() => undefined);
+    }
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to approve document request",
+    });
+  }
+};
+
+/**
+ * Reject a request with a reason the resident can act on
+ * @route PUT /api/v1/document-requests/:id/reject
+ * @access document:process
+ */
+export const rejectDocumentRequest = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { rejectionReason, notes } = req.body;
+
+    const request = await DocumentRequest.findOneAndUpdate(
+      { _id: req.params.id, status: "pending" },
+      {
+        status: "rejected",
+        rejectionReason,
+        notes,
+        rejectedBy: req.user?.id,
+        rejectedAt: new Date(),
+      },
+      { new: true, runValidators: true },
+    );
+
+    if (!request) {
+      if (await DocumentRequest.exists({ _id: req.params.id })) {
+        throw new ConflictError("This request has already been processed");
+      }
+      throw new NotFoundError("Document request not found");
+    }
+
+    await Notification.create({
+      userId: request.userId,
+      title: "Document Request Rejected",
+      message: `Your request for a ${request.documentName} was rejected: ${rejectionReason}`,
+      type: "warning",
+      relatedId: request._id,
+      relatedType: "document",
+    });
+
+    emitToUser(request.userId.toString(), "document:rejected", {
+      requestId: request._id,
+      reason: rejectionReason,
+    });
+
+    await recordDocumentEvent(req, "reject_document", request, {
+      rejectionReason,
+      notes,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Document request rejected",
+      data: request,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to reject document request",
+    });
+  }
+};
+
+/**
+ * Record that the resident picked up the document. Documents with a fee
+ * must be paid first.
+ * @route PUT /api/v1/document-requests/:id/release
+ * @access document:process
+ */
+export const releaseDocumentRequest = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const pending = await DocumentRequest.findById(req.params.id);
+    if (
+      pending &&
+      pending.fee > 0 &&
+      !(await Payment.exists({
+        documentRequestId: pending._id,
+        status: "paid",
+      }))
+    ) {
+      throw new ConflictError("Record the payment before releasing");
+    }
+
+    const request = await DocumentRequest.findOneAndUpdate(
+      { _id: req.params.id, status: "approved" },
+      {
+        status: "released",
+        releasedBy: req.user?.id,
+        releasedAt: new Date(),
+      },
+      { new: true },
+    );
+
+    if (!request) {
+      if (await DocumentRequest.exists({ _id: req.params.id })) {
+        throw new ConflictError("Only approved documents can be released");
+      }
+      throw new NotFoundError("Document request not found");
+    }
+
+    await recordDocumentEvent(req, "release_document", request, {
+      serialNumber: request.serialNumber,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Document released",
+      data: request,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to release document",
+    });
+  }
+};
+
+/**
+ * Cancel one's own pending request
+ * @route PUT /api/v1/document-requests/:id/cancel
+ * @access Owner
+ */
+export const cancelDocumentRequest = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const request = await DocumentRequest.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user?.id, status: "pending" },
+      { status: "cancelled" },
+      { new: true },
+    );
+
+    if (!request) {
+      throw new NotFoundError("No pending request to cancel");
+    }
+
+    await recordDocumentEvent(req, "cancel_document", request);
+
+    res.status(200).json({
+      success: true,
+      message: "Document request cancelled",
+      data: request,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to cancel document request",
+    });
+  }
+};
+
+/**
+ * Download the issued PDF
+ * @route GET /api/v1/document-requests/:id/pdf
+ * @access Owner or document:process
+ */
+export const downloadDocumentPdf = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const request = await findRequestForViewer(req, "+pdfFileName");
+
+    if (!request.pdfFileName) {
+      throw new NotFoundError("This document has not been issued");
+    }
+
+    if (
+      request.status === "revoked" &&
+      request.userId.toString() === req.user?.id
+    ) {
+      throw new ForbiddenError("This document has been revoked");
+    }
+
+    const filePath = path.join(
+      certificatesDir,
+      path.basename(request.pdfFileName),
+    );
+    if (!fs.existsSync(filePath)) {
+      throw new NotFoundError("Document file is no longer available");
+    }
+
+    res.setHeader("Cache-Control", "private, no-store");
+    res.download(filePath, `${request.serialNumber}.pdf`);
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to download document",
+    });
+  }
+};
+
+/**
+ * Revoke an issued document. It stays on record and the public verification
+ * endpoint reports it as revoked.
+ * @route PUT /api/v1/document-requests/:id/revoke
+ * @access document:process
+ */
+export const revokeDocumentRequest = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { revocationReason } = req.body;
+
+    const request = await DocumentRequest.findOneAndUpdate(
+      { _id: req.params.id, status: { $in: ["approved", "released"] } },
+      {
+        status: "revoked",
+        revocationReason,
+        revokedBy: req.user?.id,
+        revokedAt: new Date(),
+      },
+      { new: true, runValidators: true },
+    );
+
+    if (!request) {
+      if (await DocumentRequest.exists({ _id: req.params.id })) {
+        throw new ConflictError("Only issued documents can be revoked");
+      }
+      throw new NotFoundError("Document request not found");
+    }
+
+    await Notification.create({
+      userId: request.userId,
+      title: "Document Revoked",
+      message: `Your ${request.documentName} (${request.serialNumber}) has been revoked: ${revocationReason}`,
+      type: "warning",
+      relatedId: request._id,
+      relatedType: "document",
+    });
+
+    await recordDocumentEvent(req, "revoke_document", request, {
+      serialNumber: request.serialNumber,
+      revocationReason,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Document revoked",
+      data: request,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to revoke document",
+    });
+  }
+};
+
+/**
+ * Check a certificate by the signed serial printed under its QR code. Only
+ * what the holder already shows the verifier is returned, with the name
+ * masked.
+ * @route GET /api/v1/verify/:serial
+ * @access Public
+ */
+export const verifyDocument = async (
+  req: Request,
+  res: Response,
+): Promise<void> => {
+  try {
+    // Unsigned or tampered serials look exactly like unknown ones
+    const serialNumber = verifySignedSerial(req.params.serial);
+    const request = serialNumber
+      ? await DocumentRequest.findOne({
+          serialNumber,
+          status: { $in: ["approved", "released", "revoked"] },
+        }).populate<{ userId: IUser | null }>("userId", "firstName lastName")
+      : null;
+
+    if (!request) {
+      throw new NotFoundError("No issued document matches this code");
+    }
+
+    // The holder is null once their account has been deleted; the document
+    // itself is still answered for
+    const holder = request.userId;
+    const expired = !!request.validUntil && request.validUntil < new Date();
+    const status =
+      request.status === "revoked" ? "revoked" : expired ? "expired" : "valid";
+
+    res.status(200).json({
+      success: true,
+      data: {
+        valid: status === "valid",
+        status,
+        serialNumber: request.serialNumber,
+        documentType: request.documentType,
+        documentName: request.documentName,
+        holderName: holder
+          ? maskName(`${holder.firstName} ${holder.lastName}`)
+          : "***",
+        issuedAt: request.issuedAt,
+        validUntil: request.validUntil,
+        revokedAt: request.revokedAt,
+        barangay: getBarangayInfo().name,
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to verify document",
+    });
+  }
+};
@@ -4,6 +4,7 @@ import Event from "../models/Event";
 import Notification from "../models/Notification";
 import AuditLog from "../models/AuditLog";
 import User from "../models/User";
+import Role from "../models/Role";
 import { AuthRequest } from "../types";
 
 export const createEvent = async (
@@ -161,10 +162,12 @@ export const getEventAttendees = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const event = await Event.findById(req.params.id).populate(
-      "attendees",
-      "firstName lastName email phoneNumber address createdAt",
-    );
+    const event = await Event.findById(req.params.id)
+      .populate(
+        "attendees",
+        "firstName lastName email phoneNumber address createdAt",
+      )
+      .populate("registrations.householdId", "address purok");
 
     if (!event) {
       res.status(404).json({
@@ -175,16 +178,23 @@ export const getEventAttendees = async (
     }
 
     // Format attendee data with registration date
-    const attendeesWithDetails = event.attendees.map((attendee: any) => ({
-      id: attendee._id,
-      firstName: attendee.firstName,
-      lastName: attendee.lastName,
-      fullName: `${attendee.firstName} ${attendee.lastName}`,
-      email: attendee.email,
-      phoneNumber: attendee.phoneNumber,
-      address: attendee.address,
-      registeredAt: attendee.createdAt,
-    }));
+    const attendeesWithDetails = event.attendees.map((attendee: any) => {
+      const registration = event.registrations.find((entry) =>
+        entry.userId.equals(attendee._id),
+      );
+      return {
+        id: attendee._id,
+        firstName: attendee.firstName,
+        lastName: attendee.lastName,
+        fullName: `${attendee.firstName} ${attendee.lastName}`,
+        email: attendee.email,
+        phoneNumber: attendee.phoneNumber,
+        address: attendee.address,
+        household: registration?.householdId || null,
+        // Registrations made before households existed have no record
+        registeredAt: registration?.registeredAt || attendee.createdAt,
+      };
+    });
 
     res.status(200).json({
       success: true,
@@ -247,7 +257,23 @@ export const registerForEvent = async (
       return;
     }
 
+    // Registering on behalf of a household requires belonging to it
+    const { householdId } = req.body || {};
+    const user = await User.findById(req.user?.id);
+    if (householdId && user?.householdId?.toString() !== householdId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only register for your own household",
+      });
+      return;
+    }
+
     event.attendees.push(userId);
+    event.registrations.push({
+      userId,
+      householdId,
+      registeredAt: new Date(),
+    });
     await event.save();
 
     // Create notification
@@ -261,7 +287,6 @@ export const registerForEvent = async (
     });
 
     // Create audit log
-    const user = await User.findById(req.user?.id);
     if (user) {
       await AuditLog.create({
         userId: req.user?.id,
@@ -269,7 +294,7 @@ export const registerForEvent = async (
         action: "register",
         targetType: "event",
         targetId: event._id,
-        details: { eventTitle: event.title },
+        details: { eventTitle: event.title, householdId },
         ipAddress: req.ip,
         userAgent: req.get("user-agent"),
       });
@@ -323,6 +348,9 @@ export const unregisterFromEvent = async (
     event.attendees = event.attendees.filter(
       (attendeeId: Types.ObjectId) => !attendeeId.equals(userId),
     );
+    event.registrations = event.registrations.filter(
+      (registration) => !registration.userId.equals(userId),
+    );
     await event.save();
 
     // Create audit log
@@ -372,11 +400,10 @@ export const updateEvent = async (
       return;
     }
 
-    // Check if user is organizer or admin/staff
+    // Check if user is organizer or may manage events
     if (
       event.organizer.toString() !== req.user?.id &&
-      req.user?.role !== "admin" &&
-      req.user?.role !== "staff"
+      !(await Role.hasPermission(req.user!.role, "event:manage"))
     ) {
       res.status(403).json({
         success: false,
@@ -436,10 +463,10 @@ export const deleteEvent = async (
       return;
     }
 
-    // Check if user is organizer or admin
+    // Check if user is organizer or may delete any event
     if (
       event.organizer.toString() !== req.user?.id &&
-      req.user?.role !== "admin"
+      !(await Role.hasPermission(req.user!.role, "event:delete"))
     ) {
       res.status(403).json({
         success: false,
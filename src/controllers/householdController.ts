@@ -0,0 +1,789 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import Household, { IHousehold } from "../models/Household";
+import User from "../models/User";
+import Role from "../models/Role";
+import Zone from "../models/Zone";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest } from "../types";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "../utils/AppError";
+
+/**
+ * Household Controller
+ * Household and family registry. Staff manage every record; the head of
+ * family manages their own household from /households/me.
+ */
+
+const MEMBER_FIELDS = [
+  "firstName",
+  "middleName",
+  "lastName",
+  "relationship",
+  "birthDate",
+  "sex",
+] as const;
+
+const pickMemberFields = (body: Record<string, any>): Record<string, any> => {
+  const fields: Record<string, any> = {};
+  for (const field of MEMBER_FIELDS) {
+    if (body[field] !== undefined) fields[field] = body[field];
+  }
+  return fields;
+};
+
+const statusFor = (error: any): number =>
+  error.name === "ValidationError" ? 400 : error.statusCode || 500;
+
+const canManage = (req: AuthRequest): Promise<boolean> =>
+  Role.hasPermission(req.user!.role, "household:manage");
+
+const getHead = (household: IHousehold) =>
+  household.members.find((member) => member.relationship === "head");
+
+const recordHouseholdEvent = async (
+  req: AuthRequest,
+  action: string,
+  householdId: unknown,
+  details: Record<string, any>,
+): Promise<void> => {
+  const actor = await User.findById(req.user?.id);
+  if (actor) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${actor.firstName} ${actor.lastName}`,
+      action,
+      targetType: "household",
+      targetId: householdId,
+      details,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+/**
+ * Resolve the account a member should be linked to. An account can only
+ * belong to one household at a time.
+ */
+const resolveMemberAccount = async (userId: string, householdId?: unknown) => {
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new NotFoundError("Member account not found");
+  }
+
+  if (
+    user.householdId &&
+    (!householdId || user.householdId.toString() !== String(householdId))
+  ) {
+    throw new ConflictError(
+      `${user.firstName} ${user.lastName} already belongs to another household`,
+    );
+  }
+
+  return user;
+};
+
+const assertActiveZone = async (zoneId?: string): Promise<void> => {
+  if (zoneId && !(await Zone.exists({ _id: zoneId, isActive: true }))) {
+    throw new ValidationError("Invalid zone");
+  }
+};
+
+const findOwnHousehold = async (req: AuthRequest): Promise<IHousehold> => {
+  const user = await User.findById(req.user?.id);
+  if (!user?.householdId) {
+    throw new NotFoundError("You are not part of a registered household");
+  }
+
+  const household = await Household.findById(user.householdId);
+  if (!household) {
+    throw new NotFoundError("You are not part of a registered household");
+  }
+
+  return household;
+};
+
+// Residents may only change their household as its head of family
+const findOwnHouseholdAsHead = async (
+  req: AuthRequest,
+): Promise<IHousehold> => {
+  const household = await findOwnHousehold(req);
+  if (getHead(household)?.userId?.toString() !== req.user?.id) {
+    throw new ForbiddenError(
+      "Only the head of family can update the household",
+    );
+  }
+  return household;
+};
+
+const findMember = (household: IHousehold, memberId: string) => {
+  const member = household.members.id(memberId);
+  if (!member) {
+    throw new NotFoundError("Household member not found");
+  }
+  return member;
+};
+
+const removeMember = async (
+  req: AuthRequest,
+  household: IHousehold,
+): Promise<void> => {
+  const member = findMember(household, req.params.memberId);
+
+  if (member.relationship === "head") {
+    throw new ValidationError(
+      "The head of family cannot be removed from the household",
+    );
+  }
+
+  const memberName = `${member.firstName} ${member.lastName}`;
+  const memberUserId = member.userId;
+
+  member.deleteOne();
+  household.updatedBy = new Types.ObjectId(req.user!.id);
+  await household.save();
+
+  if (memberUserId) {
+    await User.updateOne(
+      { _id: memberUserId, householdId: household._id },
+      { $unset: { householdId: 1 } },
+    );
+  }
+
+  await recordHouseholdEvent(req, "remove_household_member", household._id, {
+    memberName,
+    userId: memberUserId,
+  });
+};
+
+const populateHousehold = (household: IHousehold) =>
+  household.populate([
+    { path: "members.userId", select: "firstName lastName email phoneNumber" },
+    { path: "zoneId", select: "name code" },
+    { path: "createdBy", select: "firstName lastName" },
+  ]);
+
+/**
+ * Get the household the current user belongs to
+ * @route GET /api/v1/households/me
+ * @access Authenticated
+ */
+export const getMyHousehold = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const household = await findOwnHousehold(req);
+    await populateHousehold(household);
+
+    res.status(200).json({
+      success: true,
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch household",
+    });
+  }
+};
+
+/**
+ * Register a household with the current user as head of family
+ * @route POST /api/v1/households/me
+ * @access Authenticated
+ */
+export const createMyHousehold = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { address, purok, zoneId, notes } = req.body;
+
+    const user = await User.findById(req.user?.id);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (user.householdId) {
+      throw new ConflictError("You already belong to a household");
+    }
+
+    await assertActiveZone(zoneId);
+
+    const household = await Household.create({
+      address: address || user.address,
+      purok,
+      zoneId: zoneId || user.zoneId,
+      notes,
+      members: [
+        {
+          userId: user._id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          relationship: "head",
+        },
+      ],
+      createdBy: user._id,
+    });
+
+    // Guard against a concurrent registration linking the account first
+    const linked = await User.findOneAndUpdate(
+      { _id: user._id, householdId: { $exists: false } },
+      { householdId: household._id },
+    );
+    if (!linked) {
+      await household.deleteOne();
+      throw new ConflictError("You already belong to a household");
+    }
+
+    await recordHouseholdEvent(req, "create_household", household._id, {
+      address: household.address,
+      purok: household.purok,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Household registered successfully",
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to register household",
+    });
+  }
+};
+
+/**
+ * Update the current user's household details
+ * @route PUT /api/v1/households/me
+ * @access Head of family
+ */
+export const updateMyHousehold = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const household = await findOwnHouseholdAsHead(req);
+    const { address, purok, zoneId, notes } = req.body;
+    await assertActiveZone(zoneId);
+
+    if (address !== undefined) household.address = address;
+    if (purok !== undefined) household.purok = purok;
+    if (zoneId !== undefined) household.zoneId = zoneId;
+    if (notes !== undefined) household.notes = notes;
+    household.updatedBy = new Types.ObjectId(req.user!.id);
+    await household.save();
+
+    await recordHouseholdEvent(req, "update_household", household._id, {
+      address,
+      purok,
+      zoneId,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Household updated successfully",
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update household",
+    });
+  }
+};
+
+/**
+ * Add a family member without an account to the current user's household
+ * @route POST /api/v1/households/me/members
+ * @access Head of family
+ */
+export const addMyHouseholdMember = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const household = await findOwnHouseholdAsHead(req);
+    const fields = pickMemberFields(req.body);
+
+    // Linking accounts and changing the head are left to barangay staff
+    if (fields.relationship === "head") {
+      throw new ValidationError("A household can only have one head of family");
+    }
+
+    household.members.push(fields);
+    household.updatedBy = new Types.ObjectId(req.user!.id);
+    await household.save();
+
+    await recordHouseholdEvent(req, "add_household_member", household._id, {
+      memberName: `${fields.firstName} ${fields.lastName}`,
+      relationship: fields.relationship,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Household member added successfully",
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to add household member",
+    });
+  }
+};
+
+/**
+ * Update a member of the current user's household
+ * @route PUT /api/v1/households/me/members/:memberId
+ * @access Head of family
+ */
+export const updateMyHouseholdMember = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const household = await findOwnHouseholdAsHead(req);
+    const member = findMember(household, req.params.memberId);
+    const fields = pickMemberFields(req.body);
+
+    if (
+      fields.relationship !== undefined &&
+      (fields.relationship === "head") !== (member.relationship === "head")
+    ) {
+      throw new ForbiddenError(
+        "Contact the barangay office to change the head of family",
+      );
+    }
+
+    member.set(fields);
+    household.updatedBy = new Types.ObjectId(req.user!.id);
+    await household.save();
+
+    await recordHouseholdEvent(req, "update_household_member", household._id, {
+      memberId: member._id,
+      changes: Object.keys(fields),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Household member updated successfully",
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update household member",
+    });
+  }
+};
+
+/**
+ * Remove a member from the current user's household
+ * @route DELETE /api/v1/households/me/members/:memberId
+ * @access Head of family
+ */
+export const removeMyHouseholdMember = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const household = await findOwnHouseholdAsHead(req);
+    await removeMember(req, household);
+
+    res.status(200).json({
+      success: true,
+      message: "Household member removed successfully",
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to remove household member",
+    });
+  }
+};
+
+/**
+ * List households
+ * @route GET /api/v1/households
+ * @access household:manage
+ */
+export const getHouseholds = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+    const { purok, zoneId, search } = req.query;
+
+    const filter: any = {};
+    if (purok) filter.purok = purok;
+    if (zoneId) filter.zoneId = zoneId;
+
+    if (search) {
+      filter.$or = [
+        { address: { $regex: search, $options: "i" } },
+        { "members.firstName": { $regex: search, $options: "i" } },
+        { "members.lastName": { $regex: search, $options: "i" } },
+      ];
+    }
+
+    const [households, total] = await Promise.all([
+      Household.find(filter)
+        .populate("members.userId", "firstName lastName email phoneNumber")
+        .populate("zoneId", "name code")
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Household.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: households.map((household) => ({
+        ...household.toObject(),
+        memberCount: household.members.length,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch households",
+    });
+  }
+};
+
+/**
+ * Get a household
+ * @route GET /api/v1/households/:id
+ * @access Linked member or household:manage
+ */
+export const getHouseholdById = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const household = await Household.findById(req.params.id);
+    if (!household) {
+      throw new NotFoundError("Household not found");
+    }
+
+    const isMember = household.members.some(
+      (member) => member.userId?.toString() === req.user?.id,
+    );
+    if (!isMember && !(await canManage(req))) {
+      throw new ForbiddenError("Not authorized to view this household");
+    }
+
+    await populateHousehold(household);
+
+    res.status(200).json({
+      success: true,
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch household",
+    });
+  }
+};
+
+/**
+ * Register a household on behalf of residents
+ * @route POST /api/v1/households
+ * @access household:manage
+ */
+export const createHousehold = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { address, purok, zoneId, notes, members = [] } = req.body;
+
+    await assertActiveZone(zoneId);
+
+    const accountIds: string[] = [];
+    const memberDocs = [];
+    for (const member of members) {
+      const fields = pickMemberFields(member);
+      if (member.userId) {
+        if (accountIds.includes(member.userId)) {
+          throw new ValidationError("An account can only be listed once");
+        }
+        await resolveMemberAccount(member.userId);
+        accountIds.push(member.userId);
+        fields.userId = member.userId;
+      }
+      memberDocs.push(fields);
+    }
+
+    const household = await Household.create({
+      address,
+      purok,
+      zoneId,
+      notes,
+      members: memberDocs,
+      createdBy: req.user?.id,
+    });
+
+    if (accountIds.length > 0) {
+      await User.updateMany(
+        { _id: { $in: accountIds } },
+        { householdId: household._id },
+      );
+    }
+
+    await recordHouseholdEvent(req, "create_household", household._id, {
+      address: household.address,
+      purok: household.purok,
+      memberCount: household.members.length,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Household registered successfully",
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to register household",
+    });
+  }
+};
+
+/**
+ * Update household details
+ * @route PUT /api/v1/households/:id
+ * @access household:manage
+ */
+export const updateHousehold = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { address, purok, zoneId, notes } = req.body;
+
+    const household = await Household.findById(req.params.id);
+    if (!household) {
+      throw new NotFoundError("Household not found");
+    }
+
+    await assertActiveZone(zoneId);
+
+    if (address !== undefined) household.address = address;
+    if (purok !== undefined) household.purok = purok;
+    if (zoneId !== undefined) household.zoneId = zoneId;
+    if (notes !== undefined) household.notes = notes;
+    household.updatedBy = new Types.ObjectId(req.user!.id);
+    await household.save();
+
+    await recordHouseholdEvent(req, "update_household", household._id, {
+      address,
+      purok,
+      zoneId,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Household updated successfully",
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update household",
+    });
+  }
+};
+
+/**
+ * Delete a household and unlink its member accounts
+ * @route DELETE /api/v1/households/:id
+ * @access household:manage
+ */
+export const deleteHousehold = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const household = await Household.findById(req.params.id);
+    if (!household) {
+      throw new NotFoundError("Household not found");
+    }
+
+    await household.deleteOne();
+    await User.updateMany(
+      { householdId: household._id },
+      { $unset: { householdId: 1 } },
+    );
+
+    await recordHouseholdEvent(req, "delete_household", household._id, {
+      address: household.address,
+      memberCount: household.members.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Household deleted successfully",
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to delete household",
+    });
+  }
+};
+
+/**
+ * Add a member, optionally linked to an existing account
+ * @route POST /api/v1/households/:id/members
+ * @access household:manage
+ */
+export const addHouseholdMember = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const household = await Household.findById(req.params.id);
+    if (!household) {
+      throw new NotFoundError("Household not found");
+    }
+
+    const fields = pickMemberFields(req.body);
+    const { userId } = req.body;
+
+    if (userId) {
+      if (
+        household.members.some((member) => member.userId?.toString() === userId)
+      ) {
+        throw new ConflictError("This account is already a household member");
+      }
+      await resolveMemberAccount(userId, household._id);
+      fields.userId = userId;
+    }
+
+    household.members.push(fields);
+    household.updatedBy = new Types.ObjectId(req.user!.id);
+    await household.save();
+
+    if (userId) {
+      await User.findByIdAndUpdate(userId, { householdId: household._id });
+    }
+
+    await recordHouseholdEvent(req, "add_household_member", household._id, {
+      memberName: `${fields.firstName} ${fields.lastName}`,
+      relationship: fields.relationship,
+      userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Household member added successfully",
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to add household member",
+    });
+  }
+};
+
+/**
+ * Update a member. Making a member the head of family requires the previous
+ * head's new relationship in `previousHeadRelationship`.
+ * @route PUT /api/v1/households/:id/members/:memberId
+ * @access household:manage
+ */
+export const updateHouseholdMember = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const household = await Household.findById(req.params.id);
+    if (!household) {
+      throw new NotFoundError("Household not found");
+    }
+
+    const member = findMember(household, req.params.memberId);
+    const fields = pickMemberFields(req.body);
+    const { previousHeadRelationship } = req.body;
+
+    if (fields.relationship === "head" && member.relationship !== "head") {
+      if (!previousHeadRelationship || previousHeadRelationship === "head") {
+        throw new ValidationError(
+          "Provide the previous head of family's new relationship",
+        );
+      }
+      getHead(household)?.set({ relationship: previousHeadRelationship });
+    }
+
+    member.set(fields);
+    household.updatedBy = new Types.ObjectId(req.user!.id);
+    await household.save();
+
+    await recordHouseholdEvent(req, "update_household_member", household._id, {
+      memberId: member._id,
+      changes: Object.keys(fields),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Household member updated successfully",
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update household member",
+    });
+  }
+};
+
+/**
+ * Remove a member and unlink their account
+ * @route DELETE /api/v1/households/:id/members/:memberId
+ * @access household:manage
+ */
+export const removeHouseholdMember = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const household = await Household.findById(req.params.id);
+    if (!household) {
+      throw new NotFoundError("Household not found");
+    }
+
+    await removeMember(req, household);
+
+    res.status(200).json({
+      success: true,
+      message: "Household member removed successfully",
+      data: household,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to remove household member",
+    });
+  }
+};
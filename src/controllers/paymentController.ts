@@ -0,0 +1,526 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import Payment, { IPayment } from "../models/Payment";
+import DocumentRequest from "../models/DocumentRequest";
+import Service from "../models/Service";
+import User from "../models/User";
+import Counter from "../models/Counter";
+import Notification from "../models/Notification";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest, IUser } from "../types";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../utils/AppError";
+
+/**
+ * Payment Controller
+ * Fee collection, official receipts, voids, refunds and daily collections
+ */
+
+const statusFor = (error: any): number => {
+  if (error.name === "ValidationError") return 400;
+  if (error.code === 11000) return 409;
+  return error.statusCode || 500;
+};
+
+const recordPaymentEvent = async (
+  req: AuthRequest,
+  action: string,
+  payment: IPayment,
+  details: Record<string, any> = {},
+): Promise<void> => {
+  const actor = await User.findById(req.user?.id);
+  if (actor) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${actor.firstName} ${actor.lastName}`,
+      action,
+      targetType: "payment",
+      targetId: payment._id,
+      details: {
+        orNumber: payment.orNumber,
+        amount: payment.amount,
+        ...details,
+      },
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+// OR numbers run continuously across years, like pre-printed receipt booklets
+const nextOrNumber = async (): Promise<string> =>
+  String(await Counter.next("official_receipt")).padStart(7, "0");
+
+const populatePayment = (payment: IPayment) =>
+  payment.populate([
+    { path: "collectedBy", select: "firstName lastName" },
+    { path: "documentRequestId", select: "documentName serialNumber status" },
+    { path: "serviceId", select: "itemName status" },
+  ]);
+
+/**
+ * The subject of a payment: who pays, for what, and the default amount
+ */
+const resolvePayable = async (
+  relatedType: "document" | "service",
+  relatedId: string,
+): Promise<{
+  payerId: unknown;
+  description: string;
+  fee?: number;
+  link: { documentRequestId?: Types.ObjectId; serviceId?: Types.ObjectId };
+}> => {
+  if (relatedType === "document") {
+    const request = await DocumentRequest.findById(relatedId);
+    if (!request) {
+      throw new NotFoundError("Document request not found");
+    }
+    if (!["approved", "released"].includes(request.status)) {
+      throw new ConflictError(
+        `Cannot take payment for a ${request.status} document request`,
+      );
+    }
+    if (
+      await Payment.exists({ documentRequestId: request._id, status: "paid" })
+    ) {
+      throw new ConflictError("This document request is already paid");
+    }
+    return {
+      payerId: request.userId,
+      description: `${request.documentName}${request.serialNumber ? ` (${request.serialNumber})` : ""}`,
+      fee: request.fee,
+      link: { documentRequestId: request._id },
+    };
+  }
+
+  const service = await Service.findById(relatedId);
+  if (!service) {
+    throw new NotFoundError("Service request not found");
+  }
+  if (["pending", "rejected"].includes(service.status)) {
+    throw new ConflictError(
+      `Cannot take payment for a ${service.status} service request`,
+    );
+  }
+  return {
+    payerId: service.userId,
+    description: `${service.itemName} x${service.quantity}`,
+    link: { serviceId: service._id },
+  };
+};
+
+/**
+ * Record a payment and issue the next official receipt number
+ * @route POST /api/v1/payments
+ * @access payment:collect
+ */
+export const recordPayment = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const {
+      relatedType,
+      relatedId,
+      amount,
+      method,
+      provider,
+      referenceNumber,
+      payerName,
+      notes,
+    } = req.body;
+
+    const payable = await resolvePayable(relatedType, relatedId);
+
+    const total = amount !== undefined ? Number(amount) : payable.fee;
+    if (!total || total <= 0) {
+      throw new ValidationError(
+        "Amount is required for payments without a set fee",
+      );
+    }
+
+    const payer = await User.findById(payable.payerId).select(
+      "firstName lastName",
+    );
+
+    const payment = new Payment({
+      ...payable.link,
+      payerId: payable.payerId,
+      payerName:
+        payerName || (payer ? `${payer.firstName} ${payer.lastName}` : ""),
+      description: payable.description,
+      amount: total,
+      method,
+      provider,
+      referenceNumber,
+      notes,
+      collectedBy: req.user?.id,
+    });
+    // Validate before drawing an OR number so bad input leaves no gap
+    await payment.validate({ pathsToSkip: ["orNumber"] });
+    payment.orNumber = await nextOrNumber();
+    await payment.save();
+
+    await Notification.create({
+      userId: payable.payerId,
+      title: "Payment Received",
+      message: `We received PHP ${total.toFixed(2)} for ${payable.description}. Official receipt no. ${payment.orNumber}.`,
+      type: "success",
+      relatedId: relatedId,
+      relatedType,
+    });
+
+    await recordPaymentEvent(req, "record_payment", payment, {
+      method,
+      relatedType,
+      relatedId,
+    });
+
+    await populatePayment(payment);
+
+    res.status(201).json({
+      success: true,
+      message: "Payment recorded successfully",
+      data: payment,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message:
+        error.code === 11000
+          ? "This document request is already paid"
+          : error.message || "Failed to record payment",
+    });
+  }
+};
+
+/**
+ * List payments
+ * @route GET /api/v1/payments
+ * @access payment:collect
+ */
+export const getPayments = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+    const {
+      status,
+      method,
+      orNumber,
+      documentRequestId,
+      serviceId,
+      payerId,
+      collectedBy,
+      startDate,
+      endDate,
+    } = req.query;
+
+    const filter: any = {};
+    if (status) filter.status = status;
+    if (method) filter.method = method;
+    if (orNumber) filter.orNumber = orNumber;
+    if (documentRequestId) filter.documentRequestId = documentRequestId;
+    if (serviceId) filter.serviceId = serviceId;
+    if (payerId) filter.payerId = payerId;
+    if (collectedBy) filter.collectedBy = collectedBy;
+    if (startDate || endDate) {
+      filter.paidAt = {};
+      if (startDate) filter.paidAt.$gte = new Date(startDate as string);
+      if (endDate) filter.paidAt.$lte = new Date(endDate as string);
+    }
+
+    const [payments, total] = await Promise.all([
+      Payment.find(filter)
+        .populate("collectedBy", "firstName lastName")
+        .sort({ paidAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Payment.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: payments,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch payments",
+    });
+  }
+};
+
+/**
+ * List the current user's payments
+ * @route GET /api/v1/payments/me
+ * @access Authenticated
+ */
+export const getMyPayments = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const payments = await Payment.find({ payerId: req.user?.id })
+      .select("-collectedBy -notes")
+      .sort({ paidAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: payments,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch payments",
+    });
+  }
+};
+
+/**
+ * Get a payment
+ * @route GET /api/v1/payments/:id
+ * @access payment:collect
+ */
+export const getPaymentById = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const payment = await Payment.findById(req.params.id);
+    if (!payment) {
+      throw new NotFoundError("Payment not found");
+    }
+
+    await populatePayment(payment);
+    await payment.populate([
+      { path: "voidedBy", select: "firstName lastName" },
+      { path: "refundedBy", select: "firstName lastName" },
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: payment,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch payment",
+    });
+  }
+};
+
+/**
+ * Void a receipt issued in error. The money is treated as never collected.
+ * @route PUT /api/v1/payments/:id/void
+ * @access payment:void
+ */
+export const voidPayment = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { reason } = req.body;
+
+    const payment = await Payment.findOneAndUpdate(
+      { _id: req.params.id, status: "paid" },
+      {
+        status: "voided",
+        voidReason: reason,
+        voidedBy: req.user?.id,
+        voidedAt: new Date(),
+      },
+      { new: true, runValidators: true },
+    );
+
+    if (!payment) {
+      if (await Payment.exists({ _id: req.params.id })) {
+        throw new ConflictError("Only paid receipts can be voided");
+      }
+      throw new NotFoundError("Payment not found");
+    }
+
+    await recordPaymentEvent(req, "void_payment", payment, { reason });
+
+    res.status(200).json({
+      success: true,
+      message: "Payment voided",
+      data: payment,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to void payment",
+    });
+  }
+};
+
+/**
+ * Record that a payment was returned to the payer. Counts against the
+ * collections of the refund date.
+ * @route PUT /api/v1/payments/:id/refund
+ * @access payment:void
+ */
+export const refundPayment = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { reason } = req.body;
+
+    const payment = await Payment.findOneAndUpdate(
+      { _id: req.params.id, status: "paid" },
+      {
+        status: "refunded",
+        refundReason: reason,
+        refundedBy: req.user?.id,
+        refundedAt: new Date(),
+      },
+      { new: true, runValidators: true },
+    );
+
+    if (!payment) {
+      if (await Payment.exists({ _id: req.params.id })) {
+        throw new ConflictError("Only paid receipts can be refunded");
+      }
+      throw new NotFoundError("Payment not found");
+    }
+
+    if (payment.payerId) {
+      await Notification.create({
+        userId: payment.payerId,
+        title: "Payment Refunded",
+        message: `PHP ${payment.amount.toFixed(2)} paid under official receipt no. ${payment.orNumber} has been refunded.`,
+        type: "info",
+        relatedId: payment.documentRequestId || payment.serviceId,
+        relatedType: payment.documentRequestId ? "document" : "service",
+      });
+    }
+
+    await recordPaymentEvent(req, "refund_payment", payment, { reason });
+
+    res.status(200).json({
+      success: true,
+      message: "Payment refunded",
+      data: payment,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to refund payment",
+    });
+  }
+};
+
+/**
+ * Collections for one day (server time): receipts issued, totals by method
+ * and collector, voids, and refunds made that day
+ * @route GET /api/v1/payments/reports/daily
+ * @access payment:report
+ */
+export const getDailyCollectionReport = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { date } = req.query;
+
+    const dayStart = date ? new Date(`${date}T00:00:00`) : new Date();
+    if (isNaN(dayStart.getTime())) {
+      throw new ValidationError("Date must be in YYYY-MM-DD format");
+    }
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart);
+    dayEnd.setDate(dayEnd.getDate() + 1);
+
+    const [receipts, refunds] = await Promise.all([
+      Payment.find({ paidAt: { $gte: dayStart, $lt: dayEnd } })
+        // Null when the collector's account was deleted
+        .populate<{
+          collectedBy: IUser | null;
+        }>("collectedBy", "firstName lastName")
+        .sort({ orNumber: 1 }),
+      Payment.find({
+        status: "refunded",
+        refundedAt: { $gte: dayStart, $lt: dayEnd },
+      }).sort({ orNumber: 1 }),
+    ]);
+
+    // Voided receipts stay in the list but never count as collected
+    const collected = receipts.filter((payment) => payment.status !== "voided");
+    const voided = receipts.filter((payment) => payment.status === "voided");
+
+    const sum = (payments: Pick<IPayment, "amount">[]): number =>
+      Math.round(
+        payments.reduce((total, payment) => total + payment.amount, 0) * 100,
+      ) / 100;
+
+    type Receipt = (typeof receipts)[number];
+    const groupBy = (key: (payment: Receipt) => string) => {
+      const groups = new Map<string, Receipt[]>();
+      for (const payment of collected) {
+        const group = key(payment);
+        groups.set(group, [...(groups.get(group) || []), payment]);
+      }
+      return [...groups.entries()].map(([name, payments]) => ({
+        name,
+        count: payments.length,
+        total: sum(payments),
+      }));
+    };
+
+    const collectedTotal = sum(collected);
+    const refundedTotal = sum(refunds);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        date: dayStart.toISOString(),
+        firstOrNumber: receipts[0]?.orNumber,
+        lastOrNumber: receipts[receipts.length - 1]?.orNumber,
+        collections: {
+          count: collected.length,
+          total: collectedTotal,
+          byMethod: groupBy((payment) => payment.method),
+          byType: groupBy((payment) =>
+            payment.documentRequestId ? "document" : "service",
+          ),
+          byCollector: groupBy((payment) =>
+            payment.collectedBy
+              ? `${payment.collectedBy.firstName} ${payment.collectedBy.lastName}`
+              : "Unknown collector",
+          ),
+        },
+        voided: {
+          count: voided.length,
+          total: sum(voided),
+        },
+        refunds: {
+          count: refunds.length,
+          total: refundedTotal,
+        },
+        netCollections:
+          Math.round((collectedTotal - refundedTotal) * 100) / 100,
+        receipts,
+        refundedReceipts: refunds,
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to build collection report",
+    });
+  }
+};
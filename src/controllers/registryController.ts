@@ -0,0 +1,293 @@
+import { Response } from "express";
+import User, { toProfileUpdate } from "../models/User";
+import Household from "../models/Household";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest } from "../types";
+import { NotFoundError } from "../utils/AppError";
+import {
+  exportResidentsToRbiExcel,
+  deleteExportFile,
+} from "../utils/exportHelper";
+
+/**
+ * Registry Controller
+ * Registry of Barangay Inhabitants (RBI): search, profile upkeep and export
+ */
+
+const REGISTRY_FIELDS =
+  "firstName lastName email phoneNumber address role isActive isVerified householdId zoneId profile createdAt";
+
+const PROFILE_FLAGS = [
+  "isRegisteredVoter",
+  "isSeniorCitizen",
+  "isPwd",
+  "isSoloParent",
+] as const;
+
+const yearsAgo = (years: number): Date => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - years);
+  return date;
+};
+
+/**
+ * Build the user filter shared by the search, the export and aid program
+ * eligibility
+ */
+export const buildRegistryFilter = async (
+  query: AuthRequest["query"],
+): Promise<any> => {
+  const {
+    search,
+    role,
+    sex,
+    civilStatus,
+    citizenship,
+    occupation,
+    minAge,
+    maxAge,
+    minYearsOfResidency,
+    householdId,
+    purok,
+    zoneId,
+    includeInactive,
+  } = query;
+
+  const filter: any = {};
+  if (includeInactive !== "true") filter.isActive = true;
+  if (role) filter.role = role;
+  if (sex) filter["profile.sex"] = sex;
+  if (civilStatus) filter["profile.civilStatus"] = civilStatus;
+  if (citizenship) {
+    filter["profile.citizenship"] = { $regex: citizenship, $options: "i" };
+  }
+  if (occupation) {
+    filter["profile.occupation"] = { $regex: occupation, $options: "i" };
+  }
+
+  for (const flag of PROFILE_FLAGS) {
+    if (query[flag] === "true" || query[flag] === "false") {
+      filter[`profile.${flag}`] = query[flag] === "true";
+    }
+  }
+
+  // Ages are whole years, so maxAge 17 includes anyone not yet 18
+  if (minAge || maxAge) {
+    filter["profile.birthDate"] = {};
+    if (minAge) {
+      filter["profile.birthDate"].$lte = yearsAgo(Number(minAge));
+    }
+    if (maxAge) {
+      filter["profile.birthDate"].$gt = yearsAgo(Number(maxAge) + 1);
+    }
+  }
+
+  if (minYearsOfResidency) {
+    filter["profile.residentSince"] = {
+      $lte: yearsAgo(Number(minYearsOfResidency)),
+    };
+  }
+
+  if (householdId) {
+    filter.householdId = householdId;
+  } else if (purok) {
+    const households = await Household.find({ purok }).distinct("_id");
+    filter.householdId = { $in: households };
+  }
+
+  // Residents belong to a zone through their household or directly. $and
+  // keeps this clear of the $or used by the name search.
+  if (zoneId) {
+    const households = await Household.find({ zoneId }).distinct("_id");
+    filter.$and = [{ $or: [{ zoneId }, { householdId: { $in: households } }] }];
+  }
+
+  if (search) {
+    filter.$or = [
+      { firstName: { $regex: search, $options: "i" } },
+      { lastName: { $regex: search, $options: "i" } },
+      { "profile.middleName": { $regex: search, $options: "i" } },
+      { email: { $regex: search, $options: "i" } },
+    ];
+  }
+
+  return filter;
+};
+
+const recordRegistryEvent = async (
+  req: AuthRequest,
+  action: string,
+  targetType: "user" | "system",
+  targetId: unknown,
+  details: Record<string, any>,
+): Promise<void> => {
+  const actor = await User.findById(req.user?.id);
+  if (actor) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${actor.firstName} ${actor.lastName}`,
+      action,
+      targetType,
+      targetId,
+      details,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+/**
+ * Search residents by RBI profile fields
+ * @route GET /api/v1/registry/residents
+ * @access registry:manage
+ */
+export const searchResidents = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const filter = await buildRegistryFilter(req.query);
+
+    const [residents, total] = await Promise.all([
+      User.find(filter)
+        .select(REGISTRY_FIELDS)
+        .populate("householdId", "address purok")
+        .sort({ lastName: 1, firstName: 1 })
+        .skip(skip)
+        .limit(limit),
+      User.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: residents,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to search residents",
+    });
+  }
+};
+
+/**
+ * Download the matching residents as an RBI spreadsheet
+ * @route GET /api/v1/registry/residents/export
+ * @access registry:manage
+ */
+export const exportResidents = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const filter = await buildRegistryFilter(req.query);
+
+    const residents = await User.find(filter)
+      .select(REGISTRY_FIELDS)
+      .populate("householdId", "address purok members")
+      .sort({ lastName: 1, firstName: 1 })
+      .lean();
+
+    const filename = `rbi-${new Date().toISOString().split("T")[0]}-${Date.now()}`;
+    const filePath = await exportResidentsToRbiExcel(residents, filename);
+
+    // The registry holds personal data, so keep a record of every export
+    await recordRegistryEvent(req, "export_rbi", "system", undefined, {
+      count: residents.length,
+      filters: req.query,
+    });
+
+    res.download(filePath, "rbi.xlsx", () => deleteExportFile(filePath));
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to export residents",
+    });
+  }
+};
+
+/**
+ * Get a resident's registry record
+ * @route GET /api/v1/registry/residents/:id
+ * @access registry:manage
+ */
+export const getResident = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const resident = await User.findById(req.params.id)
+      .select(REGISTRY_FIELDS)
+      .populate("householdId", "address purok members");
+
+    if (!resident) {
+      throw new NotFoundError("Resident not found");
+    }
+
+    res.status(200).json({
+      success: true,
+      data: resident,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to fetch resident",
+    });
+  }
+};
+
+/**
+ * Update a resident's RBI profile
+ * @route PUT /api/v1/registry/residents/:id/profile
+ * @access registry:manage
+ */
+export const updateResidentProfile = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const update = toProfileUpdate(req.body.profile);
+
+    const resident = await User.findByIdAndUpdate(req.params.id, update, {
+      new: true,
+      runValidators: true,
+    }).select(REGISTRY_FIELDS);
+
+    if (!resident) {
+      throw new NotFoundError("Resident not found");
+    }
+
+    await recordRegistryEvent(
+      req,
+      "update_resident_profile",
+      "user",
+      resident._id,
+      {
+        fields: Object.keys(update).map((key) => key.replace("profile.", "")),
+      },
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Resident profile updated successfully",
+      data: resident,
+    });
+  } catch (error: any) {
+    const statusCode =
+      error.name === "ValidationError" ? 400 : error.statusCode || 500;
+    res.status(statusCode).json({
+      success: false,
+      message: error.message || "Failed to update resident profile",
+    });
+  }
+};
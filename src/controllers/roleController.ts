@@ -0,0 +1,263 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import Role from "../models/Role";
+import User from "../models/User";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest } from "../types";
+import {
+  ALL_PERMISSIONS,
+  PERMISSION_DESCRIPTIONS,
+  Permission,
+} from "../config/permissions";
+
+/**
+ * Role Controller
+ * Manages roles and their role → permission mappings
+ */
+
+const findInvalidPermissions = (permissions: unknown): string[] | null => {
+  if (!Array.isArray(permissions)) {
+    return null;
+  }
+  return permissions.filter(
+    (permission) => !ALL_PERMISSIONS.includes(permission as Permission),
+  );
+};
+
+const recordRoleEvent = async (
+  req: AuthRequest,
+  action: string,
+  roleId: unknown,
+  details: Record<string, any>,
+): Promise<void> => {
+  const adminUser = await User.findById(req.user?.id);
+  if (adminUser) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${adminUser.firstName} ${adminUser.lastName}`,
+      action,
+      targetType: "role",
+      targetId: roleId,
+      details,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+/**
+ * List every permission that can be granted
+ * @route GET /api/v1/admin/permissions
+ * @access Admin
+ */
+export const getPermissions = async (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: ALL_PERMISSIONS.map((permission) => ({
+      name: permission,
+      description: PERMISSION_DESCRIPTIONS[permission],
+    })),
+  });
+};
+
+/**
+ * List roles with their permissions and number of users
+ * @route GET /api/v1/admin/roles
+ * @access Admin
+ */
+export const getRoles = async (_req: Request, res: Response) => {
+  try {
+    const [roles, counts] = await Promise.all([
+      Role.find().sort({ isSystem: -1, name: 1 }).lean(),
+      User.aggregate([{ $group: { _id: "$role", count: { $sum: 1 } } }]),
+    ]);
+
+    const userCounts = new Map(counts.map((entry) => [entry._id, entry.count]));
+
+    res.json({
+      success: true,
+      data: roles.map((role) => ({
+        ...role,
+        permissions: role.name === "admin" ? ALL_PERMISSIONS : role.permissions,
+        userCount: userCounts.get(role.name) || 0,
+      })),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch roles",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Create a custom role
+ * @route POST /api/v1/admin/roles
+ * @access Admin
+ */
+export const createRole = async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, displayName, description, permissions = [] } = req.body;
+
+    const invalid = findInvalidPermissions(permissions);
+    if (invalid === null || invalid.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: invalid
+          ? `Unknown permission(s): ${invalid.join(", ")}`
+          : "Permissions must be an array",
+      });
+    }
+
+    if (await Role.exists({ name: String(name).toLowerCase() })) {
+      return res.status(400).json({
+        success: false,
+        message: "A role with this name already exists",
+      });
+    }
+
+    const role = await Role.create({
+      name,
+      displayName,
+      description,
+      permissions: [...new Set(permissions)],
+      knownPermissions: ALL_PERMISSIONS,
+      isSystem: false,
+      updatedBy: req.user?.id,
+    });
+
+    await recordRoleEvent(req, "create_role", role._id, {
+      name: role.name,
+      permissions: role.permissions,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Role created successfully",
+      data: role,
+    });
+  } catch (error: any) {
+    res.status(error.name === "ValidationError" ? 400 : 500).json({
+      success: false,
+      message: "Failed to create role",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Update a role's details and permissions
+ * @route PUT /api/v1/admin/roles/:id
+ * @access Admin
+ */
+export const updateRole = async (req: AuthRequest, res: Response) => {
+  try {
+    const { displayName, description, permissions } = req.body;
+
+    const role = await Role.findById(req.params.id);
+    if (!role) {
+      return res.status(404).json({
+        success: false,
+        message: "Role not found",
+      });
+    }
+
+    if (permissions !== undefined) {
+      if (role.name === "admin") {
+        return res.status(400).json({
+          success: false,
+          message: "The admin role always has every permission",
+        });
+      }
+
+      const invalid = findInvalidPermissions(permissions);
+      if (invalid === null || invalid.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: invalid
+            ? `Unknown permission(s): ${invalid.join(", ")}`
+            : "Permissions must be an array",
+        });
+      }
+    }
+
+    const previousPermissions = [...role.permissions];
+
+    if (displayName !== undefined) role.displayName = displayName;
+    if (description !== undefined) role.description = description;
+    if (permissions !== undefined) {
+      role.permissions = [...new Set(permissions as Permission[])];
+    }
+    role.updatedBy = new Types.ObjectId(req.user!.id);
+    await role.save();
+
+    Role.clearPermissionCache();
+
+    await recordRoleEvent(req, "update_role_permissions", role._id, {
+      name: role.name,
+      previousPermissions,
+      permissions: role.permissions,
+    });
+
+    res.json({
+      success: true,
+      message: "Role updated successfully",
+      data: role,
+    });
+  } catch (error: any) {
+    res.status(error.name === "ValidationError" ? 400 : 500).json({
+      success: false,
+      message: "Failed to update role",
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * Delete a custom role that no user holds
+ * @route DELETE /api/v1/admin/roles/:id
+ * @access Admin
+ */
+export const deleteRole = async (req: AuthRequest, res: Response) => {
+  try {
+    const role = await Role.findById(req.params.id);
+    if (!role) {
+      return res.status(404).json({
+        success: false,
+        message: "Role not found",
+      });
+    }
+
+    if (role.isSystem) {
+      return res.status(400).json({
+        success: false,
+        message: "Built-in roles cannot be deleted",
+      });
+    }
+
+    const userCount = await User.countDocuments({ role: role.name });
+    if (userCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Reassign the ${userCount} user(s) with this role first`,
+      });
+    }
+
+    await role.deleteOne();
+    Role.clearPermissionCache();
+
+    await recordRoleEvent(req, "delete_role", role._id, { name: role.name });
+
+    res.json({
+      success: true,
+      message: "Role deleted successfully",
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete role",
+      error: error.message,
+    });
+  }
+};
@@ -4,6 +4,9 @@ import Service from "../models/Service";
 import Event from "../models/Event";
 import Announcement from "../models/Announcement";
 import User from "../models/User";
+import Role from "../models/Role";
+import { SLA_OPEN_STATUSES } from "../utils/complaintSla";
+import { geoWithinQuery } from "../utils/geo";
 
 /**
  * Search Controller
@@ -46,8 +49,8 @@ export const globalSearch = async (req: Request, res: Response) => {
         ],
       };
 
-      // Residents can only see their own complaints
-      if (user.role === "resident") {
+      // Without complaint:view_all users only see their own complaints
+      if (!(await Role.hasPermission(user.role, "complaint:view_all"))) {
         complaintFilter.userId = user.id;
       }
 
@@ -69,8 +72,8 @@ export const globalSearch = async (req: Request, res: Response) => {
         ],
       };
 
-      // Residents can only see their own services
-      if (user.role === "resident") {
+      // Without service:view_all users only see their own services
+      if (!(await Role.hasPermission(user.role, "service:view_all"))) {
         serviceFilter.userId = user.id;
       }
 
@@ -102,7 +105,7 @@ export const globalSearch = async (req: Request, res: Response) => {
         $or: [{ title: searchRegex }, { content: searchRegex }],
       };
 
-      if (user.role === "resident") {
+      if (!(await Role.hasPermission(user.role, "announcement:publish"))) {
         announcementFilter.isPublished = true;
       }
 
@@ -113,8 +116,11 @@ export const globalSearch = async (req: Request, res: Response) => {
         .sort({ createdAt: -1 });
     }
 
-    // Search users (admin only)
-    if (user.role === "admin" && (!type || type === "users")) {
+    // Search users (user:manage only)
+    if (
+      (!type || type === "users") &&
+      (await Role.hasPermission(user.role, "user:manage"))
+    ) {
       results.users = await User.find({
         $or: [
           { name: searchRegex },
@@ -160,6 +166,7 @@ export const filterComplaints = async (req: Request, res: Response) => {
       category,
       priority,
       assignedTo,
+      zoneId,
       startDate,
       endDate,
       page = 1,
@@ -168,16 +175,32 @@ export const filterComplaints = async (req: Request, res: Response) => {
 
     const user = (req as any).user;
     const filter: any = {};
+    const canViewAll = await Role.hasPermission(
+      user.role,
+      "complaint:view_all",
+    );
+    const area = geoWithinQuery(req.query);
+
+    if (area) {
+      filter.location = area;
+    }
 
-    // Residents can only see their own complaints
-    if (user.role === "resident") {
+    // Without complaint:view_all users only see their own complaints. A map
+    // query (?lat&lng or ?bbox) shows residents the open problems around
+    // them instead, without filer details or pins on anyone else's home.
+    const communityMap = !canViewAll && !!area;
+    if (communityMap) {
+      filter.status = { $in: SLA_OPEN_STATUSES };
+      filter.$or = [{ locationIsResidence: false }, { userId: user.id }];
+    } else if (!canViewAll) {
       filter.userId = user.id;
     }
 
-    if (status) filter.status = status;
+    if (status && !communityMap) filter.status = status;
     if (category) filter.category = category;
     if (priority) filter.priority = priority;
     if (assignedTo) filter.assignedTo = assignedTo;
+    if (zoneId) filter.zoneId = zoneId;
 
     if (startDate || endDate) {
       filter.createdAt = {};
@@ -187,13 +210,16 @@ export const filterComplaints = async (req: Request, res: Response) => {
 
     const skip = (Number(page) - 1) * Number(limit);
 
+    const complaintQuery = communityMap
+      ? Complaint.find(filter).select(
+          "title category status priority location landmark createdAt",
+        )
+      : Complaint.find(filter)
+          .populate("userId", "name email")
+          .populate("assignedTo", "name email");
+
     const [complaints, total] = await Promise.all([
-      Complaint.find(filter)
-        .populate("userId", "name email")
-        .populate("assignedTo", "name email")
-        .sort({ createdAt: -1 })
-        .skip(skip)
-        .limit(Number(limit)),
+      complaintQuery.sort({ createdAt: -1 }).skip(skip).limit(Number(limit)),
       Complaint.countDocuments(filter),
     ]);
 
@@ -228,6 +254,7 @@ export const filterServices = async (req: Request, res: Response) => {
       category,
       priority,
       assignedTo,
+      zoneId,
       startDate,
       endDate,
       page = 1,
@@ -237,8 +264,8 @@ export const filterServices = async (req: Request, res: Response) => {
     const user = (req as any).user;
     const filter: any = {};
 
-    // Residents can only see their own services
-    if (user.role === "resident") {
+    // Without service:view_all users only see their own services
+    if (!(await Role.hasPermission(user.role, "service:view_all"))) {
       filter.userId = user.id;
     }
 
@@ -246,6 +273,7 @@ export const filterServices = async (req: Request, res: Response) => {
     if (category) filter.category = category;
     if (priority) filter.priority = priority;
     if (assignedTo) filter.assignedTo = assignedTo;
+    if (zoneId) filter.zoneId = zoneId;
 
     if (startDate || endDate) {
       filter.createdAt = {};
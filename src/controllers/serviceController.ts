@@ -3,6 +3,8 @@ import Service from "../models/Service";
 import Notification from "../models/Notification";
 import AuditLog from "../models/AuditLog";
 import User from "../models/User";
+import Role from "../models/Role";
+import Zone from "../models/Zone";
 import { AuthRequest } from "../types";
 
 export const createServiceRequest = async (
@@ -18,10 +20,24 @@ export const createServiceRequest = async (
       purpose,
       quantity,
       notes,
+      householdId,
     } = req.body;
 
+    const user = await User.findById(req.user?.id);
+
+    // A request can only be filed for the requester's own household
+    if (householdId && user?.householdId?.toString() !== householdId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only file requests for your own household",
+      });
+      return;
+    }
+
     const service = await Service.create({
       userId: req.user?.id,
+      householdId,
+      zoneId: await Zone.resolveForUser(req.user!.id),
       itemName,
       itemType,
       borrowDate,
@@ -43,7 +59,6 @@ export const createServiceRequest = async (
     });
 
     // Create audit log
-    const user = await User.findById(req.user?.id);
     if (user) {
       await AuditLog.create({
         userId: req.user?.id,
@@ -51,7 +66,7 @@ export const createServiceRequest = async (
         action: "create",
         targetType: "service",
         targetId: service._id,
-        details: { itemName, itemType, quantity },
+        details: { itemName, itemType, quantity, householdId },
         ipAddress: req.ip,
         userAgent: req.get("user-agent"),
       });
@@ -75,11 +90,18 @@ export const getServiceRequests = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const { status, search, page = 1, limit = 10 } = req.query;
+    const {
+      status,
+      search,
+      householdId,
+      zoneId,
+      page = 1,
+      limit = 10,
+    } = req.query;
     const query: any = {};
 
-    // If not admin/staff, only show user's own requests
-    if (req.user?.role === "resident") {
+    // Without service:view_all users only see their own requests
+    if (!(await Role.hasPermission(req.user!.role, "service:view_all"))) {
       query.userId = req.user.id;
     }
 
@@ -87,6 +109,14 @@ export const getServiceRequests = async (
       query.status = status;
     }
 
+    if (householdId) {
+      query.householdId = householdId;
+    }
+
+    if (zoneId) {
+      query.zoneId = zoneId;
+    }
+
     // Search functionality
     if (search) {
       query.$or = [
@@ -103,6 +133,7 @@ export const getServiceRequests = async (
     const total = await Service.countDocuments(query);
     const services = await Service.find(query)
       .populate("userId", "firstName lastName email phoneNumber address")
+      .populate("householdId", "address purok")
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limitNum);
@@ -130,10 +161,9 @@ export const getServiceRequestById = async (
   res: Response,
 ): Promise<void> => {
   try {
-    const service = await Service.findById(req.params.id).populate(
-      "userId",
-      "firstName lastName email phoneNumber address",
-    );
+    const service = await Service.findById(req.params.id)
+      .populate("userId", "firstName lastName email phoneNumber address")
+      .populate("householdId", "address purok");
 
     if (!service) {
       res.status(404).json({
@@ -145,8 +175,8 @@ export const getServiceRequestById = async (
 
     // Check authorization
     if (
-      req.user?.role === "resident" &&
-      service.userId.toString() !== req.user.id
+      service.userId.toString() !== req.user?.id &&
+      !(await Role.hasPermission(req.user!.role, "service:view_all"))
     ) {
       res.status(403).json({
         success: false,
@@ -267,9 +297,9 @@ export const deleteServiceRequest = async (
       return;
     }
 
-    // Only allow deletion if pending and user owns it, or if admin/staff
+    // Only allow deletion if pending and user owns it, or if service:approve
     if (
-      req.user?.role === "resident" &&
+      !(await Role.hasPermission(req.user!.role, "service:approve")) &&
       (service.status !== "pending" ||
         service.userId.toString() !== req.user?.id)
     ) {
@@ -2,6 +2,7 @@ import { Response } from "express";
 import { AuthRequest } from "../types";
 import Complaint from "../models/Complaint";
 import Event from "../models/Event";
+import Role from "../models/Role";
 import { deleteFile } from "../middleware/upload";
 
 export const uploadComplaintAttachment = async (
@@ -31,8 +32,8 @@ export const uploadComplaintAttachment = async (
 
     // Check authorization
     if (
-      req.user?.role === "resident" &&
-      complaint.userId.toString() !== req.user.id
+      complaint.userId?.toString() !== req.user?.id &&
+      !(await Role.hasPermission(req.user!.role, "complaint:view_all"))
     ) {
       deleteFile(req.file.path);
       res.status(403).json({
@@ -90,8 +91,8 @@ export const deleteComplaintAttachment = async (
 
     // Check authorization
     if (
-      req.user?.role === "resident" &&
-      complaint.userId.toString() !== req.user.id
+      complaint.userId?.toString() !== req.user?.id &&
+      !(await Role.hasPermission(req.user!.role, "complaint:view_all"))
     ) {
       res.status(403).json({
         success: false,
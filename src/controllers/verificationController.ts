@@ -0,0 +1,437 @@
+import { Response } from "express";
+import fs from "fs";
+import path from "path";
+import VerificationRequest from "../models/VerificationRequest";
+import User from "../models/User";
+import Role from "../models/Role";
+import Notification from "../models/Notification";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest, IUser } from "../types";
+import { verificationsDir } from "../middleware/upload";
+import { emitToUser, emitToStaff } from "../config/socket";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "../utils/AppError";
+
+/**
+ * Verification Controller
+ * Resident identity verification from uploaded government IDs
+ */
+
+const getUploadedFiles = (req: AuthRequest): Express.Multer.File[] =>
+  Array.isArray(req.files) ? req.files : [];
+
+const removeUploadedFiles = (files: Express.Multer.File[]): void => {
+  for (const file of files) {
+    fs.promises.unlink(file.path).catch(() => undefined);
+  }
+};
+
+const canReview = (req: AuthRequest): Promise<boolean> =>
+  Role.hasPermission(req.user!.role, "verification:review");
+
+const recordReviewEvent = async (
+  req: AuthRequest,
+  action: string,
+  targetUserId: unknown,
+  details: Record<string, any>,
+): Promise<void> => {
+  const reviewer = await User.findById(req.user?.id);
+  if (reviewer) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${reviewer.firstName} ${reviewer.lastName}`,
+      action,
+      targetType: "user",
+      targetId: targetUserId,
+      details,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+/**
+ * Submit identity documents for review
+ * @route POST /api/v1/verifications
+ * @access Authenticated
+ */
+export const submitVerificationRequest = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  const files = getUploadedFiles(req);
+
+  try {
+    const { documentType, documentNumber } = req.body;
+
+    if (files.length === 0) {
+      throw new ValidationError("Upload at least one image of your ID");
+    }
+
+    const user = await User.findById(req.user?.id);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    if (user.verificationMethod === "document") {
+      throw new ConflictError("Your identity is already verified");
+    }
+
+    if (
+      await VerificationRequest.exists({ userId: user._id, status: "pending" })
+    ) {
+      throw new ConflictError(
+        "You already have a verification request awaiting review",
+      );
+    }
+
+    const request = await VerificationRequest.create({
+      userId: user._id,
+      documentType,
+      documentNumber,
+      documents: files.map((file) => ({
+        fileName: file.filename,
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+      })),
+    });
+
+    emitToStaff("verification:submitted", {
+      requestId: request._id,
+      userId: user._id,
+      userName: `${user.firstName} ${user.lastName}`,
+    });
+
+    res.status(201).json({
+      success: true,
+      message:
+        "Verification request submitted. We will notify you once reviewed.",
+      data: request,
+    });
+  } catch (error: any) {
+    removeUploadedFiles(files);
+    const statusCode =
+      error.name === "ValidationError" ? 400 : error.statusCode || 500;
+    res.status(statusCode).json({
+      success: false,
+      message: error.message || "Failed to submit verification request",
+    });
+  }
+};
+
+/**
+ * List the current user's verification requests
+ * @route GET /api/v1/verifications/me
+ * @access Authenticated
+ */
+export const getMyVerificationRequests = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const requests = await VerificationRequest.find({ userId: req.user?.id })
+      .select("-reviewerNotes")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: requests,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to fetch verification requests",
+    });
+  }
+};
+
+/**
+ * Review queue, oldest pending requests first
+ * @route GET /api/v1/verifications
+ * @access verification:review
+ */
+export const getVerificationQueue = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+    const { status = "pending", documentType } = req.query;
+
+    const filter: any = { status };
+    if (documentType) filter.documentType = documentType;
+
+    const [requests, total] = await Promise.all([
+      VerificationRequest.find(filter)
+        .populate("userId", "firstName lastName email address phoneNumber")
+        .populate("reviewedBy", "firstName lastName")
+        .sort({ createdAt: status === "pending" ? 1 : -1 })
+        .skip(skip)
+        .limit(limit),
+      VerificationRequest.countDocuments(filter),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: requests,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to fetch verification queue",
+    });
+  }
+};
+
+/**
+ * Get a verification request
+ * @route GET /api/v1/verifications/:id
+ * @access Owner or verification:review
+ */
+export const getVerificationRequestById = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    // The owner is null once their account has been deleted
+    const request = await VerificationRequest.findById(req.params.id)
+      .populate<{
+        userId: IUser | null;
+      }>("userId", "firstName lastName email address phoneNumber")
+      .populate("reviewedBy", "firstName lastName");
+
+    if (!request) {
+      throw new NotFoundError("Verification request not found");
+    }
+
+    const isOwner = request.userId?._id?.toString() === req.user?.id;
+    const isReviewer = await canReview(req);
+    if (!isOwner && !isReviewer) {
+      throw new ForbiddenError("Not authorized to view this request");
+    }
+
+    const data = request.toObject();
+    if (!isReviewer) {
+      delete data.reviewerNotes;
+    }
+
+    res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to fetch verification request",
+    });
+  }
+};
+
+/**
+ * Stream one of the uploaded ID images
+ * @route GET /api/v1/verifications/:id/documents/:index
+ * @access Owner or verification:review
+ */
+export const getVerificationDocument = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const request = await VerificationRequest.findById(req.params.id);
+
+    if (!request) {
+      throw new NotFoundError("Verification request not found");
+    }
+
+    if (request.userId.toString() !== req.user?.id && !(await canReview(req))) {
+      throw new ForbiddenError("Not authorized to view this document");
+    }
+
+    const document = request.documents[parseInt(req.params.index)];
+    if (!document) {
+      throw new NotFoundError("Document not found");
+    }
+
+    // Stored names come from multer, but never trust them as paths
+    const filePath = path.join(
+      verificationsDir,
+      path.basename(document.fileName),
+    );
+    if (!fs.existsSync(filePath)) {
+      throw new NotFoundError("Document file is no longer available");
+    }
+
+    res.setHeader("Content-Type", document.mimeType);
+    res.setHeader("Cache-Control", "private, no-store");
+    res.sendFile(filePath);
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to fetch document",
+    });
+  }
+};
+
+/**
+ * Approve a request and mark the resident as verified
+ * @route PATCH /api/v1/verifications/:id/approve
+ * @access verification:review
+ */
+export const approveVerificationRequest = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { notes } = req.body;
+
+    const request = await VerificationRequest.findById(req.params.id);
+    if (!request) {
+      throw new NotFoundError("Verification request not found");
+    }
+
+    if (request.userId.toString() === req.user?.id) {
+      throw new ForbiddenError("You cannot review your own request");
+    }
+
+    // Only a pending request can be decided, and only once
+    const decided = await VerificationRequest.findOneAndUpdate(
+      { _id: request._id, status: "pending" },
+      {
+        status: "approved",
+        reviewerNotes: notes,
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date(),
+      },
+      { new: true },
+    );
+    if (!decided) {
+      throw new ConflictError("This request has already been reviewed");
+    }
+
+    const user = await User.findByIdAndUpdate(
+      request.userId,
+      {
+        isVerified: true,
+        verifiedBy: req.user?.id,
+        verifiedAt: new Date(),
+        verificationMethod: "document",
+      },
+      { new: true },
+    );
+
+    await Notification.create({
+      userId: request.userId,
+      title: "Identity Verified",
+      message:
+        "Your identity documents were approved. Your account is now verified.",
+      type: "success",
+      relatedId: request._id,
+      relatedType: "verification",
+    });
+
+    emitToUser(request.userId.toString(), "verification:decided", {
+      requestId: request._id,
+      status: "approved",
+    });
+
+    await recordReviewEvent(req, "approve_verification", request.userId, {
+      requestId: request._id,
+      documentType: request.documentType,
+      userEmail: user?.email,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Verification request approved",
+      data: decided,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to approve verification request",
+    });
+  }
+};
+
+/**
+ * Reject a request with a reason the resident can act on
+ * @route PATCH /api/v1/verifications/:id/reject
+ * @access verification:review
+ */
+export const rejectVerificationRequest = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { reason, notes } = req.body;
+
+    const request = await VerificationRequest.findById(req.params.id);
+    if (!request) {
+      throw new NotFoundError("Verification request not found");
+    }
+
+    if (request.userId.toString() === req.user?.id) {
+      throw new ForbiddenError("You cannot review your own request");
+    }
+
+    const decided = await VerificationRequest.findOneAndUpdate(
+      { _id: request._id, status: "pending" },
+      {
+        status: "rejected",
+        rejectionReason: reason,
+        reviewerNotes: notes,
+        reviewedBy: req.user?.id,
+        reviewedAt: new Date(),
+      },
+      { new: true },
+    );
+    if (!decided) {
+      throw new ConflictError("This request has already been reviewed");
+    }
+
+    await Notification.create({
+      userId: request.userId,
+      title: "Identity Verification Rejected",
+      message: `Your verification request was rejected: ${reason}. You may submit a new request.`,
+      type: "warning",
+      relatedId: request._id,
+      relatedType: "verification",
+    });
+
+    emitToUser(request.userId.toString(), "verification:decided", {
+      requestId: request._id,
+      status: "rejected",
+      reason,
+    });
+
+    await recordReviewEvent(req, "reject_verification", request.userId, {
+      requestId: request._id,
+      documentType: request.documentType,
+      reason,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Verification request rejected",
+      data: decided,
+    });
+  } catch (error: any) {
+    res.status(error.statusCode || 500).json({
+      success: false,
+      message: error.message || "Failed to reject verification request",
+    });
+  }
+};
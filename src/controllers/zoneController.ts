@@ -0,0 +1,305 @@
+import { Response } from "express";
+import Zone from "../models/Zone";
+import User from "../models/User";
+import Role from "../models/Role";
+import Household from "../models/Household";
+import Complaint from "../models/Complaint";
+import Service from "../models/Service";
+import AuditLog from "../models/AuditLog";
+import { AuthRequest } from "../types";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../utils/AppError";
+
+/**
+ * Zone Controller
+ * Puroks/zones and the staff responsible for them
+ */
+
+const statusFor = (error: any): number => {
+  if (error.name === "ValidationError") return 400;
+  if (error.code === 11000) return 409;
+  return error.statusCode || 500;
+};
+
+const recordZoneEvent = async (
+  req: AuthRequest,
+  action: string,
+  zoneId: unknown,
+  details: Record<string, any>,
+): Promise<void> => {
+  const actor = await User.findById(req.user?.id);
+  if (actor) {
+    await AuditLog.create({
+      userId: req.user?.id,
+      userName: `${actor.firstName} ${actor.lastName}`,
+      action,
+      targetType: "zone",
+      targetId: zoneId,
+      details,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  }
+};
+
+/**
+ * List zones
+ * @route GET /api/v1/zones
+ * @access Authenticated
+ */
+export const getZones = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { mine, includeInactive } = req.query;
+
+    const filter: any = {};
+    if (mine === "true") filter.assignedStaff = req.user?.id;
+    if (
+      includeInactive !== "true" ||
+      !(await Role.hasPermission(req.user!.role, "zone:manage"))
+    ) {
+      filter.isActive = true;
+    }
+
+    const zones = await Zone.find(filter)
+      .populate("assignedStaff", "firstName lastName role")
+      .sort({ name: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: zones,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch zones",
+    });
+  }
+};
+
+/**
+ * Get a zone with resident and open complaint counts
+ * @route GET /api/v1/zones/:id
+ * @access Authenticated
+ */
+export const getZoneById = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const zone = await Zone.findById(req.params.id).populate(
+      "assignedStaff",
+      "firstName lastName role",
+    );
+
+    if (!zone) {
+      throw new NotFoundError("Zone not found");
+    }
+
+    const [households, openComplaints] = await Promise.all([
+      Household.countDocuments({ zoneId: zone._id }),
+      Complaint.countDocuments({
+        zoneId: zone._id,
+        status: { $in: ["pending", "in-progress"] },
+      }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...zone.toObject(),
+        stats: { households, openComplaints },
+      },
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to fetch zone",
+    });
+  }
+};
+
+/**
+ * Create a zone
+ * @route POST /api/v1/zones
+ * @access zone:manage
+ */
+export const createZone = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { name, code, description } = req.body;
+
+    const zone = await Zone.create({
+      name,
+      code,
+      description,
+      createdBy: req.user?.id,
+    });
+
+    await recordZoneEvent(req, "create_zone", zone._id, { name, code });
+
+    res.status(201).json({
+      success: true,
+      message: "Zone created successfully",
+      data: zone,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message:
+        error.code === 11000
+          ? "A zone with this name already exists"
+          : error.message || "Failed to create zone",
+    });
+  }
+};
+
+/**
+ * Update a zone. Deactivated zones keep their records but stop being
+ * offered to residents and staff queues.
+ * @route PUT /api/v1/zones/:id
+ * @access zone:manage
+ */
+export const updateZone = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const { name, code, description, isActive } = req.body;
+
+    const zone = await Zone.findByIdAndUpdate(
+      req.params.id,
+      { name, code, description, isActive },
+      { new: true, runValidators: true },
+    );
+
+    if (!zone) {
+      throw new NotFoundError("Zone not found");
+    }
+
+    await recordZoneEvent(req, "update_zone", zone._id, {
+      name,
+      code,
+      isActive,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Zone updated successfully",
+      data: zone,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message:
+        error.code === 11000
+          ? "A zone with this name already exists"
+          : error.message || "Failed to update zone",
+    });
+  }
+};
+
+/**
+ * Set the staff responsible for a zone
+ * @route PUT /api/v1/zones/:id/staff
+ * @access zone:manage
+ */
+export const setZoneStaff = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const staffIds: string[] = [...new Set<string>(req.body.staffIds)];
+
+    const staff = await User.find({ _id: { $in: staffIds }, isActive: true });
+    if (staff.length !== staffIds.length) {
+      throw new ValidationError("One or more staff members were not found");
+    }
+
+    // Only roles that work the complaint queue can own an area
+    for (const member of staff) {
+      const permissions = await Role.getPermissions(member.role);
+      if (
+        !permissions.includes("complaint:handle") &&
+        !permissions.includes("complaint:view_all")
+      ) {
+        throw new ValidationError(
+          `${member.firstName} ${member.lastName} cannot handle complaints`,
+        );
+      }
+    }
+
+    const zone = await Zone.findByIdAndUpdate(
+      req.params.id,
+      { assignedStaff: staffIds },
+      { new: true },
+    ).populate("assignedStaff", "firstName lastName role");
+
+    if (!zone) {
+      throw new NotFoundError("Zone not found");
+    }
+
+    await recordZoneEvent(req, "set_zone_staff", zone._id, { staffIds });
+
+    res.status(200).json({
+      success: true,
+      message: "Zone staff updated successfully",
+      data: zone,
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to update zone staff",
+    });
+  }
+};
+
+/**
+ * Delete a zone that nothing refers to yet
+ * @route DELETE /api/v1/zones/:id
+ * @access zone:manage
+ */
+export const deleteZone = async (
+  req: AuthRequest,
+  res: Response,
+): Promise<void> => {
+  try {
+    const zone = await Zone.findById(req.params.id);
+    if (!zone) {
+      throw new NotFoundError("Zone not found");
+    }
+
+    const inUse = await Promise.all([
+      User.exists({ zoneId: zone._id }),
+      Household.exists({ zoneId: zone._id }),
+      Complaint.exists({ zoneId: zone._id }),
+      Service.exists({ zoneId: zone._id }),
+    ]);
+    if (inUse.some(Boolean)) {
+      throw new ConflictError(
+        "This zone is in use. Deactivate it instead of deleting it.",
+      );
+    }
+
+    await zone.deleteOne();
+
+    await recordZoneEvent(req, "delete_zone", zone._id, { name: zone.name });
+
+    res.status(200).json({
+      success: true,
+      message: "Zone deleted successfully",
+    });
+  } catch (error: any) {
+    res.status(statusFor(error)).json({
+      success: false,
+      message: error.message || "Failed to delete zone",
+    });
+  }
+};
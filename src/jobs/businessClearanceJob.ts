@@ -0,0 +1,78 @@
+import Business from "../models/Business";
+import BusinessClearance from "../models/BusinessClearance";
+import Notification from "../models/Notification";
+import { emitToUser } from "../config/socket";
+import { getBusinessClearancePolicy } from "../controllers/businessController";
+import { logger } from "../utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Expire lapsed business clearances and remind owners ahead of expiry.
+ *
+ * Each `reminderDays` threshold is sent at most once per clearance. When the
+ * job was down past several thresholds, the owner gets a single reminder and
+ * all of them are recorded. Owners who already applied for a later year are
+ * not reminded.
+ */
+export const runBusinessClearanceJob = async (): Promise<void> => {
+  const now = new Date();
+
+  const expired = await BusinessClearance.updateMany(
+    { status: "approved", validUntil: { $lt: now } },
+    { status: "expired" },
+  );
+  if (expired.modifiedCount > 0) {
+    logger.info(`Expired ${expired.modifiedCount} business clearance(s)`);
+  }
+
+  const { reminderDays } = await getBusinessClearancePolicy();
+  if (reminderDays.length === 0) return;
+
+  const horizon = new Date(now.getTime() + Math.max(...reminderDays) * DAY_MS);
+  const expiring = await BusinessClearance.find({
+    status: "approved",
+    validUntil: { $gte: now, $lte: horizon },
+  });
+
+  for (const clearance of expiring) {
+    const daysLeft = Math.ceil(
+      (clearance.validUntil!.getTime() - now.getTime()) / DAY_MS,
+    );
+    const crossed = reminderDays.filter(
+      (days) => daysLeft <= days && !clearance.remindersSent.includes(days),
+    );
+    if (crossed.length === 0) continue;
+
+    // Claim the thresholds first so overlapping runs never send twice
+    const claimed = await BusinessClearance.findOneAndUpdate(
+      { _id: clearance._id, remindersSent: { $nin: crossed } },
+      { $addToSet: { remindersSent: { $each: crossed } } },
+    );
+    if (!claimed) continue;
+
+    const [business, renewed] = await Promise.all([
+      Business.findById(clearance.businessId),
+      BusinessClearance.exists({
+        businessId: clearance.businessId,
+        year: { $gt: clearance.year },
+        status: { $ne: "rejected" },
+      }),
+    ]);
+    if (!business?.ownerId || !business.isActive || renewed) continue;
+
+    await Notification.create({
+      userId: business.ownerId,
+      title: "Business Clearance Expiring",
+      message: `The barangay business clearance for ${business.name} (${clearance.clearanceNumber}) expires in ${daysLeft} day(s). Apply for renewal to keep operating.`,
+      type: "warning",
+      relatedId: clearance._id,
+      relatedType: "business",
+    });
+    emitToUser(business.ownerId.toString(), "business:clearance_expiring", {
+      businessId: business._id,
+      clearanceId: clearance._id,
+      daysLeft,
+    });
+  }
+};
@@ -0,0 +1,90 @@
+import Case, { ACTIVE_CASE_STATUSES, ICase } from "../models/Case";
+import Notification from "../models/Notification";
+import Role from "../models/Role";
+import User from "../models/User";
+import { emitToUser } from "../config/socket";
+import { logger } from "../utils/logger";
+
+const lapseMessage = (kpCase: ICase): string => {
+  const ended = kpCase.deadline!.toDateString();
+  switch (kpCase.status) {
+    case "mediation":
+      return `The mediation period for case ${kpCase.caseNumber} ended on ${ended}. It should go to the Pangkat for conciliation or be certified.`;
+    case "conciliation":
+      return `The conciliation period for case ${kpCase.caseNumber} ended on ${ended}. It can be extended once or certified.`;
+    default:
+      return `The period to repudiate the settlement in case ${kpCase.caseNumber} closed on ${ended}. The settlement is now final.`;
+  }
+};
+
+/**
+ * Announce Katarungang Pambarangay deadlines as they pass: the end of the
+ * mediation or conciliation period and the close of the repudiation window
+ * after a settlement.
+ *
+ * Parties with an account and everyone with `case:manage` are notified once
+ * per deadline; extending conciliation sets a new deadline that is announced
+ * again when it passes.
+ */
+export const runCaseDeadlineJob = async (): Promise<void> => {
+  const now = new Date();
+
+  const lapsed = await Case.find({
+    status: { $in: [...ACTIVE_CASE_STATUSES, "settled"] },
+    deadline: { $lt: now },
+    $expr: { $ne: ["$deadlineNoticeFor", "$deadline"] },
+  });
+  if (lapsed.length === 0) return;
+
+  const managerRoles = await Role.namesWithPermission("case:manage");
+  const managers = await User.find({
+    role: { $in: managerRoles },
+    isActive: true,
+  }).select("_id");
+
+  let announced = 0;
+  for (const kpCase of lapsed) {
+    // Claim the notice first so overlapping runs never send twice
+    const claimed = await Case.updateOne(
+      {
+        _id: kpCase._id,
+        deadline: kpCase.deadline,
+        deadlineNoticeFor: { $ne: kpCase.deadline },
+      },
+      { deadlineNoticeFor: kpCase.deadline },
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    const recipients = new Set([
+      ...managers.map((user) => user._id.toString()),
+      ...([...kpCase.complainants, ...kpCase.respondents]
+        .map((party) => party.userId?.toString())
+        .filter(Boolean) as string[]),
+    ]);
+    const message = lapseMessage(kpCase);
+
+    await Notification.insertMany(
+      [...recipients].map((userId) => ({
+        userId,
+        title: "Case Deadline Passed",
+        message,
+        type: "warning",
+        relatedId: kpCase._id,
+        relatedType: "case",
+      })),
+    );
+    for (const userId of recipients) {
+      emitToUser(userId, "case:deadline_passed", {
+        caseId: kpCase._id,
+        caseNumber: kpCase.caseNumber,
+        status: kpCase.status,
+        deadline: kpCase.deadline,
+      });
+    }
+    announced += 1;
+  }
+
+  if (announced > 0) {
+    logger.info(`Case deadlines: ${announced} lapse notice(s) sent`);
+  }
+};
@@ -0,0 +1,99 @@
+import Complaint from "../models/Complaint";
+import {
+  SLA_OPEN_STATUSES,
+  getSlaPolicy,
+  raiseEscalation,
+} from "../utils/complaintSla";
+import { logger } from "../utils/logger";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Flag open complaints that missed their first response or resolution due
+ * date and escalate them.
+ *
+ * A breach is flagged once and escalated right away. Complaints that stay
+ * overdue are escalated again every `repeatHours` until they reach
+ * `maxLevel`; manual escalations count towards both.
+ */
+export const runComplaintSlaJob = async (): Promise<void> => {
+  const now = new Date();
+  const { escalation } = await getSlaPolicy();
+  const options = { maxLevel: escalation.maxLevel };
+
+  const breaches = [
+    {
+      field: "sla.responseBreachedAt",
+      where: {
+        "sla.firstResponseDueAt": { $lt: now },
+        "sla.firstRespondedAt": { $exists: false },
+      },
+      reason: "No first response within the SLA",
+    },
+    {
+      field: "sla.resolutionBreachedAt",
+      where: { "sla.resolutionDueAt": { $lt: now } },
+      reason: "Not resolved within the SLA",
+    },
+  ];
+
+  let flagged = 0;
+  for (const breach of breaches) {
+    const late = await Complaint.find({
+      status: { $in: SLA_OPEN_STATUSES },
+      [breach.field]: { $exists: false },
+      ...breach.where,
+    }).select("_id");
+
+    for (const complaint of late) {
+      // Claim the breach first so overlapping runs never escalate twice
+      const claimed = await Complaint.updateOne(
+        { _id: complaint._id, [breach.field]: { $exists: false } },
+        { $set: { [breach.field]: now } },
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      flagged += 1;
+      await raiseEscalation(complaint._id, breach.reason, options);
+    }
+  }
+
+  // Breached earlier and still open since the last escalation
+  const repeatBefore = new Date(
+    now.getTime() - escalation.repeatHours * HOUR_MS,
+  );
+  const overdue = await Complaint.find({
+    status: { $in: SLA_OPEN_STATUSES },
+    escalationLevel: { $lt: escalation.maxLevel },
+    $and: [
+      {
+        $or: [
+          { "sla.resolutionBreachedAt": { $exists: true } },
+          {
+            "sla.responseBreachedAt": { $exists: true },
+            "sla.firstRespondedAt": { $exists: false },
+          },
+        ],
+      },
+      {
+        $or: [
+          { lastEscalatedAt: { $exists: false } },
+          { lastEscalatedAt: { $lt: repeatBefore } },
+        ],
+      },
+    ],
+  }).select("_id");
+
+  for (const complaint of overdue) {
+    await raiseEscalation(complaint._id, "Still overdue under the SLA", {
+      ...options,
+      notEscalatedSince: repeatBefore,
+    });
+  }
+
+  if (flagged + overdue.length > 0) {
+    logger.info(
+      `Complaint SLA: ${flagged} new breach(es), ${overdue.length} repeat escalation(s)`,
+    );
+  }
+};
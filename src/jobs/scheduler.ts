@@ -0,0 +1,73 @@
+import { logger } from "../utils/logger";
+import { runBusinessClearanceJob } from "./businessClearanceJob";
+import { runCaseDeadlineJob } from "./caseDeadlineJob";
+import { runComplaintSlaJob } from "./complaintSlaJob";
+
+/**
+ * In-process scheduler for periodic maintenance jobs. Each job runs once at
+ * startup and then on its interval; a run is skipped while the previous one
+ * is still going. Set JOBS_ENABLED=false on extra instances so only one
+ * process sends reminders and escalations.
+ */
+
+interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const jobs: Job[] = [
+  {
+    name: "business-clearance",
+    intervalMs: HOUR_MS,
+    run: runBusinessClearanceJob,
+  },
+  {
+    name: "case-deadline",
+    intervalMs: HOUR_MS,
+    run: runCaseDeadlineJob,
+  },
+  {
+    name: "complaint-sla",
+    intervalMs: 15 * MINUTE_MS,
+    run: runComplaintSlaJob,
+  },
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+const schedule = (job: Job): void => {
+  let running = false;
+
+  const tick = async (): Promise<void> => {
+    if (running) return;
+    running = true;
+    try {
+      await job.run();
+    } catch (error: any) {
+      logger.error(`Job ${job.name} failed`, { error: error.message });
+    } finally {
+      running = false;
+    }
+  };
+
+  timers.push(setInterval(tick, job.intervalMs));
+  void tick();
+};
+
+export const startJobs = (): void => {
+  if (process.env.JOBS_ENABLED === "false") {
+    console.log("⏸️  Background jobs disabled");
+    return;
+  }
+
+  jobs.forEach(schedule);
+  console.log(`⏱️  ${jobs.length} background job(s) scheduled`);
+};
+
+export const stopJobs = (): void => {
+  timers.splice(0).forEach(clearInterval);
+};
@@ -1,8 +1,13 @@
 import { Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { AuthRequest, JWTPayload } from "../types";
+import { ACCESS_TOKEN_COOKIE } from "../utils/authCookies";
 import { UnauthorizedError, ForbiddenError } from "../utils/AppError";
 import User from "../models/User";
+import SystemConfig from "../models/SystemConfig";
+import Session from "../models/Session";
+import Role from "../models/Role";
+import { Permission } from "../config/permissions";
 
 /**
  * Authentication middleware - Verifies JWT token and attaches user info to request
@@ -13,14 +18,17 @@ export const authenticate = async (
   next: NextFunction,
 ): Promise<void> => {
   try {
-    // Extract token from Authorization header
+    // Extract token from Authorization header, falling back to the cookie
     const authHeader = req.header("Authorization");
+    const cookieToken = req.cookies?.[ACCESS_TOKEN_COOKIE];
 
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    if (!authHeader?.startsWith("Bearer ") && !cookieToken) {
       throw new UnauthorizedError("Access denied. No token provided.");
     }
 
-    const token = authHeader.replace("Bearer ", "");
+    const token = authHeader?.startsWith("Bearer ")
+      ? authHeader.replace("Bearer ", "")
+      : cookieToken;
 
     if (!token) {
       throw new UnauthorizedError("Access denied. Invalid token format.");
@@ -41,10 +49,41 @@ export const authenticate = async (
       throw new UnauthorizedError("User no longer exists.");
     }
 
-    // Attach user info to request
+    if (!user.isActive) {
+      throw new UnauthorizedError("Account has been deactivated.");
+    }
+
+    // Role changes, deactivation and password changes bump the version
+    if ((decoded.tv || 0) !== (user.tokenVersion || 0)) {
+      throw new UnauthorizedError(
+        "Your access has changed. Please login again.",
+      );
+    }
+
+    if (decoded.iat && user.changedPasswordAfter(decoded.iat)) {
+      throw new UnauthorizedError(
+        "Password was changed recently. Please login again.",
+      );
+    }
+
+    // Tokens bound to a session stop working once it is revoked
+    if (decoded.sid) {
+      const activeSession = await Session.exists({
+        _id: decoded.sid,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      });
+
+      if (!activeSession) {
+        throw new UnauthorizedError("Session has ended. Please login again.");
+      }
+    }
+
+    // Attach user info to request; the role comes from the database
     req.user = {
       id: decoded.id,
-      role: decoded.role,
+      role: user.role,
+      sessionId: decoded.sid,
     };
 
     next();
@@ -78,6 +117,90 @@ export const authorize = (...roles: string[]) => {
   };
 };
 
+/**
+ * Authorization middleware - Checks the user's role grants every listed permission
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (
+    req: AuthRequest,
+    _res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new UnauthorizedError("Authentication required.");
+      }
+
+      const granted = await Role.getPermissions(req.user.role);
+      const missing = permissions.filter(
+        (permission) => !granted.includes(permission),
+      );
+
+      if (missing.length > 0) {
+        throw new ForbiddenError(
+          `Access denied. Missing permission(s): ${missing.join(", ")}`,
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Blocks unverified residents when the verification policy disallows their submissions
+ */
+export const requireVerifiedResident = async (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    if (req.user.role !== "resident") {
+      return next();
+    }
+
+    const config = await SystemConfig.findOne({
+      key: "resident_verification_policy",
+    });
+    const allowUnverified = config?.value?.allowUnverifiedSubmissions ?? true;
+
+    if (!allowUnverified) {
+      const user = await User.findById(req.user.id);
+      if (!user?.isVerified) {
+        throw new ForbiddenError(
+          "Please verify your account before submitting requests.",
+        );
+      }
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lets 2FA enrollment proceed with a setup challenge token from login instead
+ * of a full session; the controller verifies the challenge
+ */
+export const authenticateOrChallenge = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> | void => {
+  if (req.body?.challengeToken) {
+    return next();
+  }
+  return authenticate(req, res, next);
+};
+
 /**
  * Optional authentication - Attaches user if token is valid, but doesn't fail if missing
  */
@@ -88,17 +211,26 @@ export const optionalAuth = async (
 ): Promise<void> => {
   try {
     const authHeader = req.header("Authorization");
+    const token = authHeader?.startsWith("Bearer ")
+      ? authHeader.replace("Bearer ", "")
+      : req.cookies?.[ACCESS_TOKEN_COOKIE];
 
-    if (authHeader && authHeader.startsWith("Bearer ")) {
-      const token = authHeader.replace("Bearer ", "");
+    if (token) {
       const jwtSecret = process.env.JWT_SECRET;
 
       if (jwtSecret) {
         const decoded = jwt.verify(token, jwtSecret) as JWTPayload;
-        req.user = {
-          id: decoded.id,
-          role: decoded.role,
-        };
+        const user = await User.findById(decoded.id).select(
+          "role isActive tokenVersion",
+        );
+
+        if (user?.isActive && (decoded.tv || 0) === (user.tokenVersion || 0)) {
+          req.user = {
+            id: decoded.id,
+            role: user.role,
+            sessionId: decoded.sid,
+          };
+        }
       }
     }
 
@@ -0,0 +1,156 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+import { ForbiddenError } from "../utils/AppError";
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+} from "../utils/authCookies";
+
+/**
+ * CSRF protection for cookie-authenticated clients.
+ *
+ * Tokens have the form `<nonce>.<hmac(sessionId.nonce)>`, so they are only
+ * valid for the session they were issued to and change on every login.
+ * Clients send them back in the X-CSRF-Token header.
+ */
+
+export const CSRF_HEADER = "X-CSRF-Token";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Entry points that create a session rather than act on one
+const EXEMPT_PATHS = [
+  "/api/v1/auth/login",
+  "/api/v1/auth/register",
+  "/api/v1/auth/forgot-password",
+  "/api/v1/auth/reset-password",
+  "/api/v1/auth/2fa/verify",
+];
+
+// Routes that act on a credential sent in the body instead of the cookies
+const BODY_CREDENTIAL_PATHS: Record<string, string> = {
+  "/api/v1/auth/refresh-token": "refreshToken",
+  "/api/v1/auth/2fa/setup": "challengeToken",
+  "/api/v1/auth/2fa/enable": "challengeToken",
+};
+
+const getCsrfSecret = (): Buffer => {
+  const secret = process.env.CSRF_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+  return crypto.createHmac("sha256", secret).update("csrf-token").digest();
+};
+
+const signCsrfNonce = (sessionId: string, nonce: string): string =>
+  crypto
+    .createHmac("sha256", getCsrfSecret())
+    .update(`${sessionId}.${nonce}`)
+    .digest("base64url");
+
+/**
+ * Issue a CSRF token bound to a session
+ */
+export const generateCsrfToken = (sessionId: string): string => {
+  const nonce = crypto.randomBytes(16).toString("base64url");
+  return `${nonce}.${signCsrfNonce(sessionId, nonce)}`;
+};
+
+/**
+ * Check that a CSRF token was issued to the given session
+ */
+export const verifyCsrfToken = (token: string, sessionId: string): boolean => {
+  const [nonce, signature] = token.split(".");
+  if (!nonce || !signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(signCsrfNonce(sessionId, nonce));
+  const actual = Buffer.from(signature);
+
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+};
+
+/**
+ * Session id carried by the auth cookies, if any. Expired access tokens still
+ * identify the session so the refresh request can be protected too.
+ */
+export const getCookieSessionId = (req: Request): string | undefined => {
+  const candidates: [string | undefined, string | undefined][] = [
+    [req.cookies?.[ACCESS_TOKEN_COOKIE], process.env.JWT_SECRET],
+    [req.cookies?.[REFRESH_TOKEN_COOKIE], process.env.JWT_REFRESH_SECRET],
+  ];
+
+  for (const [token, secret] of candidates) {
+    if (!token || !secret) {
+      continue;
+    }
+
+    try {
+      const decoded = jwt.verify(token, secret, {
+        ignoreExpiration: true,
+      }) as { sid?: string };
+      if (decoded.sid) {
+        return decoded.sid;
+      }
+    } catch (error) {
+      // Tampered cookies are rejected by authenticate
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Require a valid CSRF token on state-changing requests that rely on the
+ * auth cookies. Bearer-token clients are not affected since browsers never
+ * attach the Authorization header on their own.
+ */
+export const csrfProtection = (
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+): void => {
+  if (SAFE_METHODS.includes(req.method) || EXEMPT_PATHS.includes(req.path)) {
+    return next();
+  }
+
+  if (req.header("Authorization")?.startsWith("Bearer ")) {
+    return next();
+  }
+
+  const bodyCredential = BODY_CREDENTIAL_PATHS[req.path];
+  if (bodyCredential && req.body?.[bodyCredential]) {
+    return next();
+  }
+
+  const sessionId = getCookieSessionId(req);
+  if (!sessionId) {
+    return next();
+  }
+
+  const csrfToken = req.header(CSRF_HEADER);
+  if (!csrfToken) {
+    return next(
+      new ForbiddenError(
+        "CSRF token missing. Fetch one from /api/v1/auth/csrf-token.",
+        "CSRF_TOKEN_MISSING",
+      ),
+    );
+  }
+
+  if (!verifyCsrfToken(csrfToken, sessionId)) {
+    return next(
+      new ForbiddenError(
+        "CSRF token is invalid or belongs to another session.",
+        "CSRF_TOKEN_INVALID",
+      ),
+    );
+  }
+
+  next();
+};
@@ -3,7 +3,7 @@ import { logger } from "../utils/logger";
 
 interface CustomError extends Error {
   statusCode?: number;
-  code?: number;
+  code?: number | string;
   keyValue?: Record<string, unknown>;
   errors?: Record<string, { message: string }>;
   isOperational?: boolean;
@@ -85,6 +85,10 @@ export const errorHandler = (
     statusCode,
   };
 
+  if (typeof err.code === "string") {
+    errorResponse.code = err.code;
+  }
+
   // Include stack trace and additional details in development
   if (process.env.NODE_ENV === "development") {
     errorResponse.stack = err.stack;
@@ -15,14 +15,60 @@ export const apiLimiter = rateLimit({
 });
 
 /**
- * Stricter rate limiter for authentication endpoints
+ * Stricter rate limiter for authentication endpoints.
+ * Keyed by IP and email so residents sharing one network (e.g. the barangay
+ * hall) do not lock each other out; per-account lockout is handled on login.
  */
 export const authLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 5, // 5 requests per window
+  max: parseInt(process.env.AUTH_RATE_LIMIT_MAX || "10"), // requests per window
+  keyGenerator: (req) =>
+    `${req.ip}:${String(req.body?.email || "").toLowerCase()}`,
   message: {
     success: false,
     message: "Too many authentication attempts, please try again later.",
   },
   skipSuccessfulRequests: true,
 });
+
+/**
+ * Limiter for endpoints that send email, counted regardless of outcome
+ */
+export const emailLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // 5 emails per window
+  message: {
+    success: false,
+    message: "Too many email requests, please try again later.",
+  },
+});
+
+/**
+ * Limiter for the public certificate verification endpoint, which anyone
+ * can call without an account
+ */
+export const verifyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: parseInt(process.env.VERIFY_RATE_LIMIT_MAX || "30"),
+  message: {
+    success: false,
+    message: "Too many verification requests, please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Limiter for the public complaint tracking lookup, so codes cannot be
+ * guessed by brute force
+ */
+export const trackingLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: parseInt(process.env.TRACKING_RATE_LIMIT_MAX || "20"),
+  message: {
+    success: false,
+    message: "Too many tracking requests, please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
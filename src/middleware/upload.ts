@@ -8,8 +8,18 @@ import sharp from "sharp";
 const uploadDir = path.join(process.cwd(), "uploads");
 const complaintsDir = path.join(uploadDir, "complaints");
 const eventsDir = path.join(uploadDir, "events");
+// Identity documents are never served statically; see verificationController
+export const verificationsDir = path.join(uploadDir, "verifications");
+// Requirements attached to certificate requests, private like the above
+export const documentRequestsDir = path.join(uploadDir, "document-requests");
 
-[uploadDir, complaintsDir, eventsDir].forEach((dir) => {
+[
+  uploadDir,
+  complaintsDir,
+  eventsDir,
+  verificationsDir,
+  documentRequestsDir,
+].forEach((dir) => {
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
@@ -18,6 +28,12 @@ const eventsDir = path.join(uploadDir, "events");
 // Storage configuration
 const storage = multer.diskStorage({
   destination: (req: Request, _file: Express.Multer.File, cb) => {
+    if (req.baseUrl.includes("verifications")) {
+      return cb(null, verificationsDir);
+    }
+    if (req.baseUrl.includes("document-requests")) {
+      return cb(null, documentRequestsDir);
+    }
     const type = req.baseUrl.includes("complaints") ? "complaints" : "events";
     cb(null, path.join(uploadDir, type));
   },
@@ -1,6 +1,13 @@
 import { body, param, query, validationResult } from "express-validator";
 import { Request, Response, NextFunction } from "express";
 import { ValidationError } from "../utils/AppError";
+import { HOUSEHOLD_RELATIONSHIPS } from "../models/Household";
+import { CIVIL_STATUSES } from "../models/User";
+import { PAYMENT_METHODS } from "../models/Payment";
+import { CASE_STATUSES } from "../models/Case";
+import { AID_PROGRAM_TYPES } from "../models/AidProgram";
+import { COMPLAINT_STATUSES } from "../models/Complaint";
+import { MAX_NEAR_RADIUS_METERS, parseBbox } from "../utils/geo";
 
 /**
  * Middleware to check validation results
@@ -87,6 +94,76 @@ export const loginValidation = [
   validate,
 ];
 
+// Optional RBI profile fields, sent as a nested `profile` object
+const residentProfileRules = [
+  body("profile")
+    .optional()
+    .isObject()
+    .withMessage("Profile must be an object"),
+  body("profile.middleName")
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Middle name must not exceed 50 characters"),
+  body("profile.suffix")
+    .optional()
+    .trim()
+    .isLength({ max: 10 })
+    .withMessage("Suffix must not exceed 10 characters"),
+  body("profile.birthDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid birth date format")
+    .custom((value) => {
+      if (new Date(value) > new Date()) {
+        throw new Error("Birth date cannot be in the future");
+      }
+      return true;
+    }),
+  body("profile.birthPlace")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Birth place must not exceed 100 characters"),
+  body("profile.sex")
+    .optional()
+    .isIn(["male", "female"])
+    .withMessage("Sex must be male or female"),
+  body("profile.civilStatus")
+    .optional()
+    .isIn(CIVIL_STATUSES)
+    .withMessage("Invalid civil status"),
+  body("profile.citizenship")
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Citizenship must not exceed 50 characters"),
+  body("profile.occupation")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Occupation must not exceed 100 characters"),
+  body("profile.precinctNumber")
+    .optional()
+    .trim()
+    .isLength({ max: 20 })
+    .withMessage("Precinct number must not exceed 20 characters"),
+  body([
+    "profile.isRegisteredVoter",
+    "profile.isSeniorCitizen",
+    "profile.isPwd",
+    "profile.isSoloParent",
+  ])
+    .optional()
+    .isBoolean()
+    .withMessage("Profile flags must be true or false")
+    .toBoolean(),
+  body("profile.residentSince")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid residency start date format"),
+];
+
 /**
  * Validation rules for profile update
  */
@@ -115,6 +192,28 @@ export const updateProfileValidation = [
     .trim()
     .matches(/^(\+63|0)?[0-9]{10}$/)
     .withMessage("Please provide a valid Philippine phone number"),
+  body("zoneId").optional().isMongoId().withMessage("Invalid zone ID format"),
+  ...residentProfileRules,
+  validate,
+];
+
+/**
+ * Validation rules for an RBI profile update by registry staff
+ */
+export const residentProfileValidation = [...residentProfileRules, validate];
+
+/**
+ * Validation rules for resident registry search and export filters
+ */
+export const residentSearchValidation = [
+  query(["minAge", "maxAge"])
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Age filters must be non-negative whole numbers"),
+  query("minYearsOfResidency")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("minYearsOfResidency must be a non-negative whole number"),
   validate,
 ];
 
@@ -142,6 +241,97 @@ export const changePasswordValidation = [
   validate,
 ];
 
+/**
+ * Validation rules for forgot password
+ */
+export const forgotPasswordValidation = [
+  body("email")
+    .trim()
+    .notEmpty()
+    .withMessage("Email is required")
+    .isEmail()
+    .withMessage("Please provide a valid email address")
+    .normalizeEmail(),
+  validate,
+];
+
+/**
+ * Validation rules for password reset
+ */
+export const resetPasswordValidation = [
+  body("token")
+    .trim()
+    .notEmpty()
+    .withMessage("Reset token is required")
+    .isHexadecimal()
+    .withMessage("Invalid reset token"),
+  body("newPassword")
+    .notEmpty()
+    .withMessage("New password is required")
+    .isLength({ min: 8 })
+    .withMessage("New password must be at least 8 characters")
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage(
+      "New password must contain at least one uppercase letter, one lowercase letter, and one number",
+    ),
+  body("confirmPassword")
+    .notEmpty()
+    .withMessage("Confirm password is required")
+    .custom((value, { req }) => value === req.body.newPassword)
+    .withMessage("Passwords do not match"),
+  validate,
+];
+
+/**
+ * Validation rules for email verification
+ */
+export const verifyEmailValidation = [
+  query("token")
+    .trim()
+    .notEmpty()
+    .withMessage("Verification token is required")
+    .isHexadecimal()
+    .withMessage("Invalid verification token"),
+  validate,
+];
+
+/**
+ * Validation rules for the second login step
+ */
+export const twoFactorLoginValidation = [
+  body("challengeToken").notEmpty().withMessage("Challenge token is required"),
+  body().custom((value) => {
+    if (!value.code && !value.recoveryCode) {
+      throw new Error("Authentication code or recovery code is required");
+    }
+    return true;
+  }),
+  body("code")
+    .optional()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage("Authentication code must be 6 digits"),
+  body("recoveryCode")
+    .optional()
+    .trim()
+    .isLength({ min: 8, max: 20 })
+    .withMessage("Invalid recovery code"),
+  validate,
+];
+
+/**
+ * Validation rules for a TOTP code
+ */
+export const twoFactorCodeValidation = [
+  body("code")
+    .trim()
+    .notEmpty()
+    .withMessage("Authentication code is required")
+    .matches(/^\d{6}$/)
+    .withMessage("Authentication code must be 6 digits"),
+  validate,
+];
+
 /**
  * Validation rules for service request (without itemType validation - handled by dynamic middleware)
  */
@@ -194,6 +384,10 @@ export const serviceRequestValidation = [
     .trim()
     .isLength({ max: 500 })
     .withMessage("Notes must not exceed 500 characters"),
+  body("householdId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid household ID format"),
   validate,
 ];
 
@@ -239,6 +433,67 @@ export const complaintValidation = [
     .optional()
     .isArray()
     .withMessage("Attachments must be an array"),
+  body("zoneId").optional().isMongoId().withMessage("Invalid zone ID format"),
+  body("location")
+    .optional()
+    .custom(
+      (location) =>
+        location.latitude !== undefined && location.longitude !== undefined,
+    )
+    .withMessage("Location needs both latitude and longitude"),
+  body("location.latitude")
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage("Latitude must be between -90 and 90")
+    .toFloat(),
+  body("location.longitude")
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage("Longitude must be between -180 and 180")
+    .toFloat(),
+  body("landmark")
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("Landmark must not exceed 200 characters"),
+  body("locationIsResidence")
+    .optional()
+    .isBoolean()
+    .withMessage("locationIsResidence must be true or false")
+    .toBoolean(),
+  body("isAnonymous")
+    .optional()
+    .isBoolean()
+    .withMessage("isAnonymous must be true or false")
+    .toBoolean(),
+  validate,
+];
+
+/**
+ * Validation rules for map queries: ?lat&lng&radius (meters) or
+ * ?bbox=minLng,minLat,maxLng,maxLat
+ */
+export const geoQueryValidation = [
+  query("lat")
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage("lat must be between -90 and 90")
+    .custom((_lat, { req }) => req.query?.lng !== undefined)
+    .withMessage("lat and lng must be given together"),
+  query("lng")
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage("lng must be between -180 and 180")
+    .custom((_lng, { req }) => req.query?.lat !== undefined)
+    .withMessage("lat and lng must be given together"),
+  query("radius")
+    .optional()
+    .isFloat({ min: 1, max: MAX_NEAR_RADIUS_METERS })
+    .withMessage(`radius must be 1 to ${MAX_NEAR_RADIUS_METERS} meters`),
+  query("bbox")
+    .optional()
+    .custom((bbox) => parseBbox(bbox) !== null)
+    .withMessage("bbox must be minLng,minLat,maxLng,maxLat"),
   validate,
 ];
 
@@ -249,13 +504,82 @@ export const complaintStatusValidation = [
   body("status")
     .notEmpty()
     .withMessage("Status is required")
-    .isIn(["pending", "in-progress", "resolved", "closed"])
+    .isIn(COMPLAINT_STATUSES)
     .withMessage("Invalid status value"),
   body("response")
     .optional()
     .trim()
     .isLength({ max: 1000 })
     .withMessage("Response must not exceed 1000 characters"),
+  body("duplicateOf")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid complaint ID format"),
+  validate,
+];
+
+/**
+ * Validation rules for a resident reopening their complaint
+ */
+export const complaintReopenValidation = [
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Tell us why the complaint is not resolved")
+    .isLength({ max: 1000 })
+    .withMessage("Reason must not exceed 1000 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for looking up complaints similar to a new one
+ */
+export const complaintSimilarValidation = [
+  query("category").trim().notEmpty().withMessage("Category is required"),
+  query("title").trim().notEmpty().withMessage("Title is required"),
+  query("description").optional().trim(),
+  query("zoneId").optional().isMongoId().withMessage("Invalid zone ID format"),
+  validate,
+];
+
+/**
+ * Validation rules for merging duplicate complaints into one
+ */
+export const complaintMergeValidation = [
+  body("complaintIds")
+    .isArray({ min: 1, max: 50 })
+    .withMessage("complaintIds must list 1 to 50 complaints"),
+  body("complaintIds.*").isMongoId().withMessage("Invalid complaint ID format"),
+  body("response")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Response must not exceed 1000 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for manually escalating a complaint
+ */
+export const complaintEscalateValidation = [
+  body("reason")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Reason must not exceed 1000 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for revealing who filed an anonymous complaint
+ */
+export const complaintUnsealValidation = [
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("A reason is required to unseal a reporter")
+    .isLength({ min: 10, max: 500 })
+    .withMessage("Reason must be between 10 and 500 characters"),
   validate,
 ];
 
@@ -360,6 +684,783 @@ export const eventStatusValidation = [
   validate,
 ];
 
+/**
+ * Validation rules for creating a role
+ */
+export const roleValidation = [
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Role name is required")
+    .matches(/^[a-z][a-z0-9_]*$/i)
+    .withMessage("Role name may only contain letters, digits and underscores")
+    .isLength({ max: 50 })
+    .withMessage("Role name cannot exceed 50 characters"),
+  body("displayName")
+    .trim()
+    .notEmpty()
+    .withMessage("Display name is required")
+    .isLength({ max: 100 })
+    .withMessage("Display name cannot exceed 100 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description cannot exceed 500 characters"),
+  body("permissions")
+    .optional()
+    .isArray()
+    .withMessage("Permissions must be an array"),
+  validate,
+];
+
+/**
+ * Validation rules for a staff member's complaint assignment profile
+ */
+export const staffProfileValidation = [
+  body("specializations")
+    .optional()
+    .isArray()
+    .withMessage("Specializations must be an array of complaint categories"),
+  body("specializations.*")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Specializations must be complaint categories"),
+  body("isAvailable")
+    .optional()
+    .isBoolean()
+    .withMessage("isAvailable must be true or false"),
+  body("leaves").optional().isArray().withMessage("Leaves must be an array"),
+  body("leaves.*.startDate")
+    .isISO8601()
+    .withMessage("Each leave needs a valid start date"),
+  body("leaves.*.endDate")
+    .isISO8601()
+    .withMessage("Each leave needs a valid end date")
+    .custom((endDate, { req, path }) => {
+      const index = Number(path.match(/\d+/)?.[0]);
+      return new Date(endDate) >= new Date(req.body.leaves[index].startDate);
+    })
+    .withMessage("A leave cannot end before it starts"),
+  body("leaves.*.reason")
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("Leave reason must not exceed 200 characters"),
+  body("maxOpenComplaints")
+    .optional({ values: "null" })
+    .isInt({ min: 0 })
+    .withMessage("maxOpenComplaints must be a whole number"),
+  validate,
+];
+
+/**
+ * Validation rules for rejecting an identity verification request
+ */
+export const verificationRejectValidation = [
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Rejection reason is required")
+    .isLength({ max: 500 })
+    .withMessage("Rejection reason cannot exceed 500 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Notes cannot exceed 1000 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for rejecting a document request
+ */
+export const documentRejectValidation = [
+  body("rejectionReason")
+    .trim()
+    .notEmpty()
+    .withMessage("Rejection reason is required")
+    .isLength({ max: 500 })
+    .withMessage("Rejection reason cannot exceed 500 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Notes cannot exceed 1000 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for revoking an issued document
+ */
+export const documentRevokeValidation = [
+  body("revocationReason")
+    .trim()
+    .notEmpty()
+    .withMessage("Revocation reason is required")
+    .isLength({ max: 500 })
+    .withMessage("Revocation reason cannot exceed 500 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for recording a payment
+ */
+export const paymentValidation = [
+  body("relatedType")
+    .isIn(["document", "service"])
+    .withMessage("Related type must be document or service"),
+  body("relatedId").isMongoId().withMessage("Invalid related ID format"),
+  body("amount")
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage("Amount must be greater than zero"),
+  body("method")
+    .isIn(PAYMENT_METHODS)
+    .withMessage("Method must be cash, e_wallet or bank_transfer"),
+  body("provider")
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Provider cannot exceed 50 characters"),
+  body("referenceNumber")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Reference number cannot exceed 100 characters"),
+  body("payerName")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Payer name cannot exceed 100 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for voiding or refunding a payment
+ */
+export const paymentReasonValidation = [
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Reason is required")
+    .isLength({ max: 500 })
+    .withMessage("Reason cannot exceed 500 characters"),
+  validate,
+];
+
+const casePartyRules = (side: "complainants" | "respondents") => [
+  body(side)
+    .if((_value, { req }) => req.method === "POST")
+    .isArray({ min: 1 })
+    .withMessage(`At least one of the ${side} is required`),
+  body(side).optional().isArray().withMessage(`${side} must be an array`),
+  body(`${side}.*.userId`)
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid party user ID format"),
+  body(`${side}.*.name`)
+    .if((_value, { req, path }) => {
+      const index = Number(path.match(/\[(\d+)\]/)?.[1]);
+      return !req.body[side]?.[index]?.userId;
+    })
+    .trim()
+    .notEmpty()
+    .withMessage("Parties without an account need a name"),
+];
+
+/**
+ * Validation rules for recording or editing a barangay case
+ */
+export const caseValidation = [
+  body("title")
+    .if((_value, { req }) => req.method === "POST")
+    .trim()
+    .notEmpty()
+    .withMessage("Title is required"),
+  body("title")
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("Title cannot exceed 200 characters"),
+  body("nature")
+    .if((_value, { req }) => req.method === "POST" || req.body.nature)
+    .isIn(["civil", "criminal", "other"])
+    .withMessage("Nature must be civil, criminal or other"),
+  body("description")
+    .if((_value, { req }) => req.method === "POST")
+    .trim()
+    .notEmpty()
+    .withMessage("Description is required"),
+  body("incidentDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid incident date format"),
+  body("zoneId").optional().isMongoId().withMessage("Invalid zone ID format"),
+  body("complaintId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid complaint ID format"),
+  ...casePartyRules("complainants"),
+  ...casePartyRules("respondents"),
+  validate,
+];
+
+/**
+ * Validation rules for moving a case to another stage
+ */
+export const caseStatusValidation = [
+  body("status").isIn(CASE_STATUSES).withMessage("Invalid case status"),
+  body("pangkatMembers")
+    .optional()
+    .isArray({ max: 3 })
+    .withMessage("The Pangkat has at most three members"),
+  body("pangkatMembers.*")
+    .trim()
+    .notEmpty()
+    .withMessage("Pangkat member names cannot be empty"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Notes cannot exceed 1000 characters"),
+  body("reason")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Reason cannot exceed 500 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for recording a settlement
+ */
+export const caseSettlementValidation = [
+  body("terms")
+    .trim()
+    .notEmpty()
+    .withMessage("Settlement terms are required")
+    .isLength({ max: 5000 })
+    .withMessage("Settlement terms cannot exceed 5000 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for scheduling or updating a hearing
+ */
+export const caseHearingValidation = [
+  body("scheduledAt")
+    .if((_value, { req }) => req.method === "POST")
+    .notEmpty()
+    .withMessage("Hearing date is required"),
+  body("scheduledAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid hearing date format"),
+  body("venue")
+    .if((_value, { req }) => req.method === "POST")
+    .trim()
+    .notEmpty()
+    .withMessage("Venue is required"),
+  body("venue")
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("Venue cannot exceed 200 characters"),
+  body("status")
+    .optional()
+    .isIn(["scheduled", "held", "postponed", "no_show"])
+    .withMessage("Invalid hearing status"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage("Notes cannot exceed 2000 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for routes addressing a case hearing
+ */
+export const hearingIdValidation = [
+  param("hearingId").isMongoId().withMessage("Invalid hearing ID format"),
+  validate,
+];
+
+/**
+ * Validation rules for registering or editing a business
+ */
+export const businessValidation = [
+  body("name")
+    .if((_value, { req }) => req.method === "POST")
+    .trim()
+    .notEmpty()
+    .withMessage("Business name is required"),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ max: 150 })
+    .withMessage("Business name cannot exceed 150 characters"),
+  body("address")
+    .if((_value, { req }) => req.method === "POST")
+    .trim()
+    .notEmpty()
+    .withMessage("Business address is required"),
+  body("lineOfBusiness")
+    .if((_value, { req }) => req.method === "POST")
+    .trim()
+    .notEmpty()
+    .withMessage("Line of business is required"),
+  body("ownerId").optional().isMongoId().withMessage("Invalid owner ID format"),
+  body("ownerName")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Owner name cannot exceed 100 characters"),
+  body("zoneId").optional().isMongoId().withMessage("Invalid zone ID format"),
+  body("email").optional().trim().isEmail().withMessage("Invalid email"),
+  body("capitalization")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Capitalization must be a positive amount"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+  validate,
+];
+
+/**
+ * Validation rules for a business clearance application
+ */
+export const businessClearanceValidation = [
+  body("year").optional().isInt({ min: 2000 }).withMessage("Invalid year"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Notes cannot exceed 1000 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for recording a business inspection
+ */
+export const businessInspectionValidation = [
+  param("clearanceId").isMongoId().withMessage("Invalid clearance ID format"),
+  body("findings")
+    .trim()
+    .notEmpty()
+    .withMessage("Inspection findings are required")
+    .isLength({ max: 2000 })
+    .withMessage("Findings cannot exceed 2000 characters"),
+  body("passed").isBoolean().withMessage("passed must be a boolean"),
+  body("inspectedAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid inspection date format"),
+  validate,
+];
+
+/**
+ * Validation rules for approving a business clearance
+ */
+export const businessApproveValidation = [
+  param("clearanceId").isMongoId().withMessage("Invalid clearance ID format"),
+  body("fee")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Fee must be a positive amount"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Notes cannot exceed 1000 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for rejecting a business clearance
+ */
+export const businessRejectValidation = [
+  param("clearanceId").isMongoId().withMessage("Invalid clearance ID format"),
+  body("rejectionReason")
+    .trim()
+    .notEmpty()
+    .withMessage("Rejection reason is required")
+    .isLength({ max: 500 })
+    .withMessage("Rejection reason cannot exceed 500 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for creating or editing an aid program
+ */
+export const aidProgramValidation = [
+  body("name")
+    .if((_value, { req }) => req.method === "POST")
+    .trim()
+    .notEmpty()
+    .withMessage("Program name is required"),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Program name cannot exceed 100 characters"),
+  body("type")
+    .if((_value, { req }) => req.method === "POST" || req.body.type)
+    .isIn(AID_PROGRAM_TYPES)
+    .withMessage("Invalid program type"),
+  body("eligibility")
+    .optional()
+    .isObject()
+    .withMessage("Eligibility must be an object"),
+  body(["eligibility.minAge", "eligibility.maxAge"])
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Ages must be whole numbers"),
+  body("eligibility.minYearsOfResidency")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Years of residency must be a whole number"),
+  body("eligibility.sex")
+    .optional()
+    .isIn(["male", "female"])
+    .withMessage("Sex must be male or female"),
+  body("eligibility.civilStatus")
+    .optional()
+    .isIn(CIVIL_STATUSES)
+    .withMessage("Invalid civil status"),
+  body([
+    "eligibility.isSeniorCitizen",
+    "eligibility.isPwd",
+    "eligibility.isSoloParent",
+    "eligibility.isRegisteredVoter",
+  ])
+    .optional()
+    .isBoolean()
+    .withMessage("Eligibility flags must be booleans"),
+  body("eligibility.zoneId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid zone ID format"),
+  body("enrolledHouseholds")
+    .optional()
+    .isArray()
+    .withMessage("Enrolled households must be an array"),
+  body("enrolledHouseholds.*")
+    .isMongoId()
+    .withMessage("Invalid household ID format"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+  validate,
+];
+
+/**
+ * Validation rules for opening a distribution batch
+ */
+export const distributionBatchValidation = [
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Batch name is required")
+    .isLength({ max: 100 })
+    .withMessage("Batch name cannot exceed 100 characters"),
+  body("distributionDate")
+    .isISO8601()
+    .withMessage("A valid distribution date is required"),
+  body("items")
+    .trim()
+    .notEmpty()
+    .withMessage("Items distributed are required")
+    .isLength({ max: 500 })
+    .withMessage("Items cannot exceed 500 characters"),
+  body("amountPerHousehold")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Amount must be a positive number"),
+  validate,
+];
+
+/**
+ * Validation rules for logging an aid claim
+ */
+export const distributionClaimValidation = [
+  body("householdId").isMongoId().withMessage("Invalid household ID format"),
+  body("claimantMemberId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid member ID format"),
+  body("claimantName")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Claimant name cannot exceed 100 characters"),
+  body(["notes", "overrideReason"])
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for creating or editing an evacuation center
+ */
+export const evacuationCenterValidation = [
+  body("name")
+    .if((_value, { req }) => req.method === "POST")
+    .trim()
+    .notEmpty()
+    .withMessage("Center name is required"),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Center name cannot exceed 100 characters"),
+  body("address")
+    .if((_value, { req }) => req.method === "POST")
+    .trim()
+    .notEmpty()
+    .withMessage("Address is required"),
+  body("capacity")
+    .if((_value, { req }) => req.method === "POST" || req.body.capacity)
+    .isInt({ min: 1 })
+    .withMessage("Capacity must be a whole number of at least 1"),
+  body("zoneId").optional().isMongoId().withMessage("Invalid zone ID format"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+  validate,
+];
+
+/**
+ * Validation rules for opening or closing an evacuation center
+ */
+export const evacuationCenterStatusValidation = [
+  body("status")
+    .isIn(["standby", "open", "closed"])
+    .withMessage("Status must be standby, open or closed"),
+  validate,
+];
+
+/**
+ * Validation rules for checking a household into a center
+ */
+export const evacuationCheckInValidation = [
+  body("householdId").isMongoId().withMessage("Invalid household ID format"),
+  body("memberIds")
+    .optional()
+    .isArray()
+    .withMessage("Member IDs must be an array"),
+  body("memberIds.*").isMongoId().withMessage("Invalid member ID format"),
+  body("headcount")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Headcount must be at least 1"),
+  body(["specialNeeds", "notes"])
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for reporting a missing person
+ */
+export const missingResidentValidation = [
+  body("name")
+    .if((_value, { req }) => !req.body.memberId)
+    .trim()
+    .notEmpty()
+    .withMessage("Name is required"),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Name cannot exceed 100 characters"),
+  body(["householdId", "memberId"])
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid ID format"),
+  body("age")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Age must be a whole number"),
+  body("lastSeenAt").optional().isISO8601().withMessage("Invalid date format"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Description cannot exceed 1000 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for marking a missing person found
+ */
+export const missingFoundValidation = [
+  body("foundLocation")
+    .trim()
+    .notEmpty()
+    .withMessage("Where the person was found is required")
+    .isLength({ max: 200 })
+    .withMessage("Location cannot exceed 200 characters"),
+  body("foundNotes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes cannot exceed 500 characters"),
+  validate,
+];
+
+/**
+ * Validation rules for an emergency alert
+ */
+export const emergencyAlertValidation = [
+  body("title")
+    .trim()
+    .notEmpty()
+    .withMessage("Title is required")
+    .isLength({ max: 200 })
+    .withMessage("Title cannot exceed 200 characters"),
+  body("content").trim().notEmpty().withMessage("Content is required"),
+  validate,
+];
+
+/**
+ * Validation rules for household details
+ */
+export const householdValidation = [
+  body("address")
+    .optional()
+    .trim()
+    .isLength({ min: 10, max: 200 })
+    .withMessage("Address must be between 10 and 200 characters"),
+  body("purok")
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Purok must not exceed 50 characters"),
+  body("zoneId").optional().isMongoId().withMessage("Invalid zone ID format"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Notes must not exceed 500 characters"),
+  body("members").optional().isArray().withMessage("Members must be an array"),
+  body("members.*.userId")
+    .optional()
+    .isMongoId()
+    .withMessage("Invalid member user ID format"),
+  validate,
+];
+
+const householdMemberRules = (optional: boolean) => [
+  (optional ? body("firstName").optional() : body("firstName"))
+    .trim()
+    .notEmpty()
+    .withMessage("First name is required")
+    .isLength({ max: 50 })
+    .withMessage("First name must not exceed 50 characters"),
+  body("middleName")
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Middle name must not exceed 50 characters"),
+  (optional ? body("lastName").optional() : body("lastName"))
+    .trim()
+    .notEmpty()
+    .withMessage("Last name is required")
+    .isLength({ max: 50 })
+    .withMessage("Last name must not exceed 50 characters"),
+  (optional ? body("relationship").optional() : body("relationship"))
+    .isIn(HOUSEHOLD_RELATIONSHIPS)
+    .withMessage("Invalid relationship"),
+  body("previousHeadRelationship")
+    .optional()
+    .isIn(HOUSEHOLD_RELATIONSHIPS)
+    .withMessage("Invalid previous head relationship"),
+  body("birthDate")
+    .optional()
+    .isISO8601()
+    .withMessage("Invalid birth date format"),
+  body("sex")
+    .optional()
+    .isIn(["male", "female"])
+    .withMessage("Sex must be male or female"),
+  body("userId").optional().isMongoId().withMessage("Invalid user ID format"),
+  validate,
+];
+
+/**
+ * Validation rules for adding a household member
+ */
+export const householdMemberValidation = householdMemberRules(false);
+
+/**
+ * Validation rules for updating a household member
+ */
+export const householdMemberUpdateValidation = householdMemberRules(true);
+
+/**
+ * Validation rules for routes addressing a household member
+ */
+export const memberIdValidation = [
+  param("memberId").isMongoId().withMessage("Invalid member ID format"),
+  validate,
+];
+
+/**
+ * Validation rules for creating or updating a zone
+ */
+export const zoneValidation = [
+  body("name")
+    .if((_value, { req }) => req.method === "POST")
+    .trim()
+    .notEmpty()
+    .withMessage("Zone name is required"),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Zone name must not exceed 50 characters"),
+  body("code")
+    .optional()
+    .trim()
+    .isLength({ max: 10 })
+    .withMessage("Zone code must not exceed 10 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description must not exceed 500 characters"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be true or false"),
+  validate,
+];
+
+/**
+ * Validation rules for setting a zone's responsible staff
+ */
+export const zoneStaffValidation = [
+  body("staffIds").isArray().withMessage("Staff IDs must be an array"),
+  body("staffIds.*").isMongoId().withMessage("Invalid staff ID format"),
+  validate,
+];
+
 /**
  * Validation rules for MongoDB ObjectId
  */
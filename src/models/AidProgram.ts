@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const AID_PROGRAM_TYPES = [
+  "pension",
+  "conditional_cash",
+  "cash_aid",
+  "relief",
+  "other",
+] as const;
+
+export type AidProgramType = (typeof AID_PROGRAM_TYPES)[number];
+
+/**
+ * Who qualifies for a program, expressed with the inhabitants registry
+ * filters. A household is eligible when any member's profile matches.
+ */
+export interface IAidEligibility {
+  minAge?: number;
+  maxAge?: number;
+  sex?: "male" | "female";
+  civilStatus?: string;
+  isSeniorCitizen?: boolean;
+  isPwd?: boolean;
+  isSoloParent?: boolean;
+  isRegisteredVoter?: boolean;
+  minYearsOfResidency?: number;
+  zoneId?: mongoose.Types.ObjectId;
+  purok?: string;
+}
+
+/**
+ * A beneficiary program such as the social pension, 4Ps or relief packs.
+ *
+ * Beneficiary households are those matching `eligibility` plus any listed in
+ * `enrolledHouseholds` (for lists handed down by DSWD or the LGU). A program
+ * with neither covers every household.
+ */
+export interface IAidProgram extends Document {
+  name: string;
+  type: AidProgramType;
+  description?: string;
+  eligibility: IAidEligibility;
+  enrolledHouseholds: mongoose.Types.ObjectId[];
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const aidProgramSchema = new Schema<IAidProgram>(
+  {
+    name: {
+      type: String,
+      required: [true, "Program name is required"],
+      unique: true,
+      trim: true,
+      maxlength: [100, "Program name must not exceed 100 characters"],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: AID_PROGRAM_TYPES,
+        message: "{VALUE} is not a valid program type",
+      },
+      required: [true, "Program type is required"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Description must not exceed 1000 characters"],
+    },
+    eligibility: {
+      minAge: { type: Number, min: 0 },
+      maxAge: { type: Number, min: 0 },
+      sex: { type: String, enum: ["male", "female"] },
+      civilStatus: String,
+      isSeniorCitizen: Boolean,
+      isPwd: Boolean,
+      isSoloParent: Boolean,
+      isRegisteredVoter: Boolean,
+      minYearsOfResidency: { type: Number, min: 0 },
+      zoneId: {
+        type: Schema.Types.ObjectId,
+        ref: "Zone",
+      },
+      purok: String,
+    },
+    enrolledHouseholds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Household",
+      },
+    ],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+aidProgramSchema.index({ isActive: 1, type: 1 });
+
+export default mongoose.model<IAidProgram>("AidProgram", aidProgramSchema);
@@ -4,7 +4,21 @@ export interface IAuditLog extends Document {
   userId: mongoose.Types.ObjectId;
   userName: string;
   action: string;
-  targetType: "user" | "service" | "complaint" | "event" | "system";
+  targetType:
+    | "user"
+    | "service"
+    | "complaint"
+    | "event"
+    | "role"
+    | "household"
+    | "zone"
+    | "document"
+    | "payment"
+    | "case"
+    | "business"
+    | "aid"
+    | "disaster"
+    | "system";
   targetId?: mongoose.Types.ObjectId;
   details: Record<string, any>;
   ipAddress?: string;
@@ -32,7 +46,22 @@ const auditLogSchema = new Schema<IAuditLog>(
     targetType: {
       type: String,
       enum: {
-        values: ["user", "service", "complaint", "event", "system"],
+        values: [
+          "user",
+          "service",
+          "complaint",
+          "event",
+          "role",
+          "household",
+          "zone",
+          "document",
+          "payment",
+          "case",
+          "business",
+          "aid",
+          "disaster",
+          "system",
+        ],
         message: "{VALUE} is not a valid target type",
       },
       required: [true, "Target type is required"],
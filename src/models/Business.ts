@@ -0,0 +1,102 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A business operating in the barangay. Its yearly clearances live in
+ * BusinessClearance; `clearanceExpiresAt` mirrors the latest approved one so
+ * the registry can be filtered by clearance standing.
+ */
+export interface IBusiness extends Document {
+  name: string;
+  ownerId?: mongoose.Types.ObjectId;
+  ownerName: string;
+  address: string;
+  zoneId?: mongoose.Types.ObjectId;
+  lineOfBusiness: string;
+  contactNumber?: string;
+  email?: string;
+  tin?: string;
+  capitalization?: number;
+  isActive: boolean;
+  clearanceExpiresAt?: Date;
+  registeredBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const businessSchema = new Schema<IBusiness>(
+  {
+    name: {
+      type: String,
+      required: [true, "Business name is required"],
+      trim: true,
+      maxlength: [150, "Business name must not exceed 150 characters"],
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    ownerName: {
+      type: String,
+      required: [true, "Owner name is required"],
+      trim: true,
+      maxlength: [100, "Owner name must not exceed 100 characters"],
+    },
+    address: {
+      type: String,
+      required: [true, "Business address is required"],
+      trim: true,
+      maxlength: [200, "Address must not exceed 200 characters"],
+    },
+    zoneId: {
+      type: Schema.Types.ObjectId,
+      ref: "Zone",
+    },
+    lineOfBusiness: {
+      type: String,
+      required: [true, "Line of business is required"],
+      trim: true,
+      maxlength: [100, "Line of business must not exceed 100 characters"],
+    },
+    contactNumber: {
+      type: String,
+      trim: true,
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    tin: {
+      type: String,
+      trim: true,
+      maxlength: [20, "TIN must not exceed 20 characters"],
+    },
+    capitalization: {
+      type: Number,
+      min: [0, "Capitalization cannot be negative"],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    clearanceExpiresAt: {
+      type: Date,
+    },
+    registeredBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+businessSchema.index({ ownerId: 1 });
+businessSchema.index({ zoneId: 1 });
+businessSchema.index({ clearanceExpiresAt: 1 });
+businessSchema.index({ name: 1 });
+
+export default mongoose.model<IBusiness>("Business", businessSchema);
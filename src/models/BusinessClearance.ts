@@ -0,0 +1,135 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A yearly barangay business clearance application. Clearances are valid
+ * until the end of the calendar year they are issued for, matching the
+ * municipal business permit cycle.
+ */
+export interface IBusinessClearance extends Document {
+  businessId: mongoose.Types.ObjectId;
+  year: number;
+  type: "new" | "renewal";
+  status: "pending" | "approved" | "rejected" | "expired";
+  fee: number;
+  applicantId: mongoose.Types.ObjectId;
+  notes?: string;
+  inspection?: {
+    inspectedBy: mongoose.Types.ObjectId;
+    inspectedAt: Date;
+    findings: string;
+    passed: boolean;
+  };
+  clearanceNumber?: string;
+  issuedAt?: Date;
+  validUntil?: Date;
+  approvedBy?: mongoose.Types.ObjectId;
+  approvedAt?: Date;
+  rejectionReason?: string;
+  rejectedBy?: mongoose.Types.ObjectId;
+  rejectedAt?: Date;
+  // Reminder thresholds (days before expiry) already sent to the owner
+  remindersSent: number[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const businessClearanceSchema = new Schema<IBusinessClearance>(
+  {
+    businessId: {
+      type: Schema.Types.ObjectId,
+      ref: "Business",
+      required: true,
+    },
+    year: {
+      type: Number,
+      required: [true, "Clearance year is required"],
+    },
+    type: {
+      type: String,
+      enum: ["new", "renewal"],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "rejected", "expired"],
+      default: "pending",
+    },
+    fee: {
+      type: Number,
+      default: 0,
+      min: [0, "Fee cannot be negative"],
+    },
+    applicantId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Notes must not exceed 1000 characters"],
+    },
+    inspection: {
+      inspectedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+      inspectedAt: Date,
+      findings: {
+        type: String,
+        trim: true,
+        maxlength: [2000, "Findings must not exceed 2000 characters"],
+      },
+      passed: Boolean,
+    },
+    clearanceNumber: {
+      type: String,
+    },
+    issuedAt: {
+      type: Date,
+    },
+    validUntil: {
+      type: Date,
+    },
+    approvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    approvedAt: {
+      type: Date,
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Rejection reason must not exceed 500 characters"],
+    },
+    rejectedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    rejectedAt: {
+      type: Date,
+    },
+    remindersSent: {
+      type: [Number],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+businessClearanceSchema.index({ businessId: 1, year: -1 });
+businessClearanceSchema.index({ status: 1, createdAt: 1 });
+businessClearanceSchema.index({ status: 1, validUntil: 1 });
+businessClearanceSchema.index(
+  { clearanceNumber: 1 },
+  { unique: true, sparse: true },
+);
+
+export default mongoose.model<IBusinessClearance>(
+  "BusinessClearance",
+  businessClearanceSchema,
+);
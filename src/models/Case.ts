@@ -0,0 +1,290 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const CASE_STATUSES = [
+  "filed",
+  "mediation",
+  "conciliation",
+  "settled",
+  "repudiated",
+  "certified",
+  "dismissed",
+  "withdrawn",
+] as const;
+
+export type CaseStatus = (typeof CASE_STATUSES)[number];
+
+// Stages whose 15-day period is running
+export const ACTIVE_CASE_STATUSES: CaseStatus[] = ["mediation", "conciliation"];
+
+export interface ICaseParty {
+  _id?: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId;
+  name: string;
+  address?: string;
+  contactNumber?: string;
+}
+
+export interface ICaseHearing {
+  _id?: mongoose.Types.ObjectId;
+  stage: "mediation" | "conciliation";
+  scheduledAt: Date;
+  venue: string;
+  status: "scheduled" | "held" | "postponed" | "no_show";
+  notes?: string;
+  scheduledBy: mongoose.Types.ObjectId;
+  noticesSentAt?: Date;
+}
+
+export interface ICaseHistory {
+  action: string;
+  performedBy: mongoose.Types.ObjectId;
+  previousStatus?: string;
+  newStatus?: string;
+  notes?: string;
+  timestamp: Date;
+}
+
+/**
+ * A Katarungang Pambarangay dispute between residents, from blotter entry
+ * through mediation by the Punong Barangay and conciliation by the Pangkat
+ * to a settlement or a certification to file action.
+ *
+ * Each stage runs for 15 days (conciliation can be extended once by another
+ * 15); `deadline` always holds the end of the current stage.
+ */
+export interface ICase extends Document {
+  caseNumber: string;
+  title: string;
+  nature: "civil" | "criminal" | "other";
+  description: string;
+  incidentDate?: Date;
+  incidentLocation?: string;
+  complainants: ICaseParty[];
+  respondents: ICaseParty[];
+  zoneId?: mongoose.Types.ObjectId;
+  complaintId?: mongoose.Types.ObjectId;
+  status: CaseStatus;
+  deadline?: Date;
+  // The deadline the lapse notice was sent for, so each is announced once
+  deadlineNoticeFor?: Date;
+  mediationStartedAt?: Date;
+  pangkatMembers: string[];
+  conciliationStartedAt?: Date;
+  conciliationExtended: boolean;
+  hearings: ICaseHearing[];
+  settlement?: {
+    terms: string;
+    settledAt: Date;
+    repudiationDeadline: Date;
+    recordedBy: mongoose.Types.ObjectId;
+  };
+  certification?: {
+    reason: string;
+    issuedAt: Date;
+    issuedBy: mongoose.Types.ObjectId;
+  };
+  closedAt?: Date;
+  recordedBy: mongoose.Types.ObjectId;
+  history: ICaseHistory[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const partySchema = new Schema<ICaseParty>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  name: {
+    type: String,
+    required: [true, "Party name is required"],
+    trim: true,
+    maxlength: [100, "Party name must not exceed 100 characters"],
+  },
+  address: {
+    type: String,
+    trim: true,
+    maxlength: [200, "Address must not exceed 200 characters"],
+  },
+  contactNumber: {
+    type: String,
+    trim: true,
+  },
+});
+
+const hearingSchema = new Schema<ICaseHearing>({
+  stage: {
+    type: String,
+    enum: ["mediation", "conciliation"],
+    required: true,
+  },
+  scheduledAt: {
+    type: Date,
+    required: [true, "Hearing date is required"],
+  },
+  venue: {
+    type: String,
+    required: [true, "Venue is required"],
+    trim: true,
+    maxlength: [200, "Venue must not exceed 200 characters"],
+  },
+  status: {
+    type: String,
+    enum: ["scheduled", "held", "postponed", "no_show"],
+    default: "scheduled",
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [2000, "Notes must not exceed 2000 characters"],
+  },
+  scheduledBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  noticesSentAt: {
+    type: Date,
+  },
+});
+
+const caseHistorySchema = new Schema({
+  action: {
+    type: String,
+    required: true,
+  },
+  performedBy: {
+    type: Schema.Types.ObjectId,
+    required: true,
+    ref: "User",
+  },
+  previousStatus: String,
+  newStatus: String,
+  notes: String,
+  timestamp: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const caseSchema = new Schema<ICase>(
+  {
+    caseNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    title: {
+      type: String,
+      required: [true, "Title is required"],
+      trim: true,
+      maxlength: [200, "Title must not exceed 200 characters"],
+    },
+    nature: {
+      type: String,
+      enum: ["civil", "criminal", "other"],
+      required: [true, "Nature of the case is required"],
+    },
+    description: {
+      type: String,
+      required: [true, "Description is required"],
+      trim: true,
+      maxlength: [5000, "Description must not exceed 5000 characters"],
+    },
+    incidentDate: {
+      type: Date,
+    },
+    incidentLocation: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Incident location must not exceed 200 characters"],
+    },
+    complainants: {
+      type: [partySchema],
+      validate: {
+        validator: (parties: ICaseParty[]) => parties.length > 0,
+        message: "At least one complainant is required",
+      },
+    },
+    respondents: {
+      type: [partySchema],
+      validate: {
+        validator: (parties: ICaseParty[]) => parties.length > 0,
+        message: "At least one respondent is required",
+      },
+    },
+    zoneId: {
+      type: Schema.Types.ObjectId,
+      ref: "Zone",
+    },
+    // The public-service complaint this dispute was referred from, if any
+    complaintId: {
+      type: Schema.Types.ObjectId,
+      ref: "Complaint",
+    },
+    status: {
+      type: String,
+      enum: CASE_STATUSES,
+      default: "filed",
+    },
+    deadline: {
+      type: Date,
+    },
+    deadlineNoticeFor: {
+      type: Date,
+    },
+    mediationStartedAt: {
+      type: Date,
+    },
+    pangkatMembers: {
+      type: [String],
+      default: [],
+    },
+    conciliationStartedAt: {
+      type: Date,
+    },
+    conciliationExtended: {
+      type: Boolean,
+      default: false,
+    },
+    hearings: [hearingSchema],
+    settlement: {
+      terms: String,
+      settledAt: Date,
+      repudiationDeadline: Date,
+      recordedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    },
+    certification: {
+      reason: String,
+      issuedAt: Date,
+      issuedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    },
+    closedAt: {
+      type: Date,
+    },
+    recordedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    history: [caseHistorySchema],
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+caseSchema.index({ status: 1, deadline: 1 });
+caseSchema.index({ "complainants.userId": 1 });
+caseSchema.index({ "respondents.userId": 1 });
+caseSchema.index({ zoneId: 1 });
+caseSchema.index({ createdAt: -1 });
+
+export default mongoose.model<ICase>("Case", caseSchema);
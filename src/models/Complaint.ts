@@ -1,6 +1,135 @@
 import mongoose, { Schema } from "mongoose";
 import { IComplaint } from "../types";
 
+export const COMPLAINT_STATUSES = [
+  "pending",
+  "in-progress",
+  "resolved",
+  "closed",
+  "rejected",
+  "duplicate",
+] as const;
+
+export type ComplaintStatus = (typeof COMPLAINT_STATUSES)[number];
+
+// Fields a status change can be required to carry
+export const COMPLAINT_TRANSITION_FIELDS = ["response", "duplicateOf"] as const;
+
+export type ComplaintTransitionField =
+  (typeof COMPLAINT_TRANSITION_FIELDS)[number];
+
+/**
+ * Which status changes staff may make, what each must carry, and when a
+ * resident may reopen their complaint. Stored in SystemConfig as
+ * `complaint_workflow`; statuses without outgoing transitions are terminal.
+ */
+export interface ComplaintWorkflow {
+  transitions: Record<ComplaintStatus, ComplaintStatus[]>;
+  requiredFields: Partial<Record<ComplaintStatus, ComplaintTransitionField[]>>;
+  reopenableStatuses: ComplaintStatus[];
+  reopenWindowDays: number;
+  reopenStatus: ComplaintStatus;
+}
+
+export const DEFAULT_COMPLAINT_WORKFLOW: ComplaintWorkflow = {
+  transitions: {
+    pending: ["in-progress", "resolved", "rejected", "duplicate"],
+    "in-progress": ["pending", "resolved", "rejected", "duplicate"],
+    resolved: ["closed", "in-progress"],
+    closed: [],
+    rejected: [],
+    duplicate: [],
+  },
+  requiredFields: {
+    resolved: ["response"],
+    rejected: ["response"],
+    duplicate: ["duplicateOf"],
+  },
+  reopenableStatuses: ["resolved"],
+  reopenWindowDays: 7,
+  reopenStatus: "in-progress",
+};
+
+export const COMPLAINT_PRIORITIES = ["low", "medium", "high"] as const;
+
+/**
+ * Response and resolution targets. A rule may name a category, a priority or
+ * both; the most specific rule matching a complaint applies. Due dates are
+ * computed when a complaint is filed, so policy changes only affect new
+ * complaints. Stored in SystemConfig as `complaint_sla_policy`.
+ */
+export interface ComplaintSlaRule {
+  category?: string;
+  priority?: (typeof COMPLAINT_PRIORITIES)[number];
+  firstResponseHours: number;
+  resolutionHours: number;
+}
+
+export interface ComplaintSlaPolicy {
+  rules: ComplaintSlaRule[];
+  // Overdue complaints are escalated again every repeatHours, up to maxLevel
+  escalation: { repeatHours: number; maxLevel: number };
+}
+
+export const DEFAULT_COMPLAINT_SLA_POLICY: ComplaintSlaPolicy = {
+  rules: [
+    { firstResponseHours: 48, resolutionHours: 168 },
+    { priority: "medium", firstResponseHours: 24, resolutionHours: 72 },
+    { priority: "high", firstResponseHours: 4, resolutionHours: 24 },
+  ],
+  escalation: { repeatHours: 24, maxLevel: 3 },
+};
+
+export const COMPLAINT_ASSIGNMENT_STRATEGIES = [
+  "round_robin",
+  "least_loaded",
+  "skill_match",
+] as const;
+
+export type ComplaintAssignmentStrategy =
+  (typeof COMPLAINT_ASSIGNMENT_STRATEGIES)[number];
+
+/**
+ * How new complaints are auto-assigned. round_robin rotates through staff,
+ * least_loaded picks the fewest open complaints, and skill_match prefers
+ * staff specialized in the category. Stored in SystemConfig as
+ * `complaint_assignment_policy`.
+ */
+export interface ComplaintAssignmentPolicy {
+  strategy: ComplaintAssignmentStrategy;
+  // Only consider the zone's assigned staff when any of them can take it
+  preferZoneStaff: boolean;
+  // Cap on open complaints per staff member; 0 means no cap
+  maxOpenComplaints: number;
+}
+
+export const DEFAULT_COMPLAINT_ASSIGNMENT_POLICY: ComplaintAssignmentPolicy = {
+  strategy: "least_loaded",
+  preferZoneStaff: true,
+  maxOpenComplaints: 20,
+};
+
+/**
+ * How new complaints are matched against open ones in the same category and
+ * zone filed within `windowDays`. Pinned complaints are matched within
+ * `nearbyMeters` of each other instead of by zone. `minScore` is the share of
+ * the shorter text's keywords the two complaints must have in common (0-1).
+ * Stored in SystemConfig as `complaint_duplicate_policy`.
+ */
+export interface ComplaintDuplicatePolicy {
+  windowDays: number;
+  minScore: number;
+  maxSuggestions: number;
+  nearbyMeters: number;
+}
+
+export const DEFAULT_COMPLAINT_DUPLICATE_POLICY: ComplaintDuplicatePolicy = {
+  windowDays: 14,
+  minScore: 0.5,
+  maxSuggestions: 5,
+  nearbyMeters: 300,
+};
+
 const complaintCommentSchema = new Schema({
   userId: {
     type: Schema.Types.ObjectId,
@@ -21,14 +150,30 @@ const complaintCommentSchema = new Schema({
   },
 });
 
+// GeoJSON point: [longitude, latitude]
+const pointSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ["Point"],
+      required: true,
+    },
+    coordinates: {
+      type: [Number],
+      required: true,
+    },
+  },
+  { _id: false },
+);
+
 const complaintHistorySchema = new Schema({
   action: {
     type: String,
     required: true,
   },
+  // Empty for automatic actions such as SLA escalations
   performedBy: {
     type: Schema.Types.ObjectId,
-    required: true,
     ref: "User",
   },
   previousStatus: String,
@@ -42,11 +187,30 @@ const complaintHistorySchema = new Schema({
 
 const complaintSchema = new Schema<IComplaint>(
   {
+    // Empty for anonymous complaints; see sealedReporterId
     userId: {
       type: Schema.Types.ObjectId,
-      required: true,
+      required: function (this: IComplaint) {
+        return !this.isAnonymous;
+      },
       ref: "User",
     },
+    isAnonymous: {
+      type: Boolean,
+      default: false,
+    },
+    // Who filed an anonymous complaint. Only revealed through the audited
+    // unseal endpoint.
+    sealedReporterId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      select: false,
+    },
+    // SHA-256 of the tracking code given to an anonymous filer
+    trackingCodeHash: {
+      type: String,
+      select: false,
+    },
     title: {
       type: String,
       required: [true, "Title is required"],
@@ -60,14 +224,32 @@ const complaintSchema = new Schema<IComplaint>(
       type: String,
       required: [true, "Category is required"],
     },
+    zoneId: {
+      type: Schema.Types.ObjectId,
+      ref: "Zone",
+    },
+    // Where the problem is, when the filer pins it
+    location: {
+      type: pointSchema,
+    },
+    landmark: {
+      type: String,
+      trim: true,
+      maxlength: 200,
+    },
+    // The pin is the filer's own home; never shown to other residents
+    locationIsResidence: {
+      type: Boolean,
+      default: false,
+    },
     status: {
       type: String,
-      enum: ["pending", "in-progress", "resolved", "closed"],
+      enum: COMPLAINT_STATUSES,
       default: "pending",
     },
     priority: {
       type: String,
-      enum: ["low", "medium", "high"],
+      enum: COMPLAINT_PRIORITIES,
       default: "medium",
     },
     attachments: [
@@ -89,6 +271,37 @@ const complaintSchema = new Schema<IComplaint>(
     resolvedAt: {
       type: Date,
     },
+    // The complaint this one repeats, when marked duplicate
+    duplicateOf: {
+      type: Schema.Types.ObjectId,
+      ref: "Complaint",
+    },
+    // Other residents reporting the same problem: those who joined it and
+    // the filers of complaints merged into it. They get its status updates.
+    reporters: [
+      {
+        _id: false,
+        userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        // Their own complaint, when it was merged into this one
+        complaintId: { type: Schema.Types.ObjectId, ref: "Complaint" },
+        joinedAt: { type: Date, default: Date.now },
+      },
+    ],
+    // Similar open complaints found when this one was filed, for staff review
+    possibleDuplicates: [
+      {
+        _id: false,
+        complaintId: { type: Schema.Types.ObjectId, ref: "Complaint" },
+        score: Number,
+      },
+    ],
+    reopenCount: {
+      type: Number,
+      default: 0,
+    },
+    reopenedAt: {
+      type: Date,
+    },
     comments: [complaintCommentSchema],
     history: [complaintHistorySchema],
     rating: {
@@ -106,6 +319,13 @@ const complaintSchema = new Schema<IComplaint>(
     lastEscalatedAt: {
       type: Date,
     },
+    sla: {
+      firstResponseDueAt: Date,
+      resolutionDueAt: Date,
+      firstRespondedAt: Date,
+      responseBreachedAt: Date,
+      resolutionBreachedAt: Date,
+    },
   },
   {
     timestamps: true,
@@ -118,5 +338,11 @@ complaintSchema.index({ status: 1, priority: 1 });
 complaintSchema.index({ createdAt: -1 });
 complaintSchema.index({ assignedTo: 1 });
 complaintSchema.index({ category: 1 });
+complaintSchema.index({ zoneId: 1, status: 1 });
+complaintSchema.index({ status: 1, "sla.resolutionDueAt": 1 });
+complaintSchema.index({ "reporters.userId": 1 });
+complaintSchema.index({ location: "2dsphere" });
+complaintSchema.index({ trackingCodeHash: 1 }, { unique: true, sparse: true });
+complaintSchema.index({ category: 1, status: 1, createdAt: -1 });
 
 export default mongoose.model<IComplaint>("Complaint", complaintSchema);
@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/**
+ * Named sequences for human-readable serial numbers (certificates,
+ * receipts). Increments are atomic, so numbers are never handed out twice.
+ */
+export interface ICounter extends Document {
+  name: string;
+  value: number;
+}
+
+interface ICounterModel extends Model<ICounter> {
+  next(name: string): Promise<number>;
+}
+
+const counterSchema = new Schema<ICounter>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  value: {
+    type: Number,
+    default: 0,
+  },
+});
+
+counterSchema.statics.next = async function (name: string): Promise<number> {
+  const counter = await this.findOneAndUpdate(
+    { name },
+    { $inc: { value: 1 } },
+    { new: true, upsert: true },
+  );
+  return counter.value;
+};
+
+export default mongoose.model<ICounter, ICounterModel>(
+  "Counter",
+  counterSchema,
+);
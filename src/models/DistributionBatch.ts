@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * One payout or distribution run of a program. The eligible households are
+ * copied when the batch is opened so later registry edits do not change who
+ * could claim in it.
+ */
+export interface IDistributionBatch extends Document {
+  programId: mongoose.Types.ObjectId;
+  name: string;
+  distributionDate: Date;
+  location?: string;
+  items: string;
+  amountPerHousehold?: number;
+  status: "open" | "closed";
+  eligibleHouseholds: mongoose.Types.ObjectId[];
+  createdBy: mongoose.Types.ObjectId;
+  closedBy?: mongoose.Types.ObjectId;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const distributionBatchSchema = new Schema<IDistributionBatch>(
+  {
+    programId: {
+      type: Schema.Types.ObjectId,
+      ref: "AidProgram",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Batch name is required"],
+      trim: true,
+      maxlength: [100, "Batch name must not exceed 100 characters"],
+    },
+    distributionDate: {
+      type: Date,
+      required: [true, "Distribution date is required"],
+    },
+    location: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Location must not exceed 200 characters"],
+    },
+    // What each household receives, e.g. "5 kg rice, 6 canned goods"
+    items: {
+      type: String,
+      required: [true, "Items distributed are required"],
+      trim: true,
+      maxlength: [500, "Items must not exceed 500 characters"],
+    },
+    amountPerHousehold: {
+      type: Number,
+      min: [0, "Amount cannot be negative"],
+    },
+    status: {
+      type: String,
+      enum: ["open", "closed"],
+      default: "open",
+    },
+    eligibleHouseholds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Household",
+      },
+    ],
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    closedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    closedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+distributionBatchSchema.index({ programId: 1, distributionDate: -1 });
+distributionBatchSchema.index({ status: 1 });
+
+export default mongoose.model<IDistributionBatch>(
+  "DistributionBatch",
+  distributionBatchSchema,
+);
@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A household's claim in a distribution batch. The unique index on
+ * (batchId, householdId) is what prevents double claims.
+ */
+export interface IDistributionClaim extends Document {
+  batchId: mongoose.Types.ObjectId;
+  programId: mongoose.Types.ObjectId;
+  householdId: mongoose.Types.ObjectId;
+  // Set when the claimant is a listed household member
+  claimantMemberId?: mongoose.Types.ObjectId;
+  claimantUserId?: mongoose.Types.ObjectId;
+  claimantName: string;
+  claimantRelationship?: string;
+  claimedAt: Date;
+  releasedBy: mongoose.Types.ObjectId;
+  notes?: string;
+  // Why a household outside the batch's eligibility list was served
+  overrideReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const distributionClaimSchema = new Schema<IDistributionClaim>(
+  {
+    batchId: {
+      type: Schema.Types.ObjectId,
+      ref: "DistributionBatch",
+      required: true,
+    },
+    programId: {
+      type: Schema.Types.ObjectId,
+      ref: "AidProgram",
+      required: true,
+    },
+    householdId: {
+      type: Schema.Types.ObjectId,
+      ref: "Household",
+      required: true,
+    },
+    claimantMemberId: {
+      type: Schema.Types.ObjectId,
+    },
+    claimantUserId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    claimantName: {
+      type: String,
+      required: [true, "Claimant name is required"],
+      trim: true,
+      maxlength: [100, "Claimant name must not exceed 100 characters"],
+    },
+    claimantRelationship: {
+      type: String,
+      trim: true,
+      maxlength: [50, "Relationship must not exceed 50 characters"],
+    },
+    claimedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    releasedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes must not exceed 500 characters"],
+    },
+    overrideReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Override reason must not exceed 500 characters"],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+distributionClaimSchema.index({ batchId: 1, householdId: 1 }, { unique: true });
+distributionClaimSchema.index({ householdId: 1, claimedAt: -1 });
+distributionClaimSchema.index({ programId: 1 });
+
+export default mongoose.model<IDistributionClaim>(
+  "DistributionClaim",
+  distributionClaimSchema,
+);
@@ -0,0 +1,237 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IDocumentTypeRequirement {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+/**
+ * A requestable certificate, stored in the `document_types` system config
+ */
+export interface IDocumentTypeConfig {
+  type: string;
+  name: string;
+  requirements: IDocumentTypeRequirement[];
+  fee: number;
+  validityDays?: number;
+  serialPrefix: string;
+  template: string;
+  isActive: boolean;
+}
+
+export interface IRequirementFile {
+  key: string;
+  label: string;
+  fileName: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * A resident's request for a barangay certificate or clearance. Approval
+ * assigns the serial number and renders the PDF; release records pickup.
+ * Issued documents can later be revoked, which the public verification
+ * endpoint reports.
+ */
+export interface IDocumentRequest extends Document {
+  userId: mongoose.Types.ObjectId;
+  householdId?: mongoose.Types.ObjectId;
+  zoneId?: mongoose.Types.ObjectId;
+  documentType: string;
+  documentName: string;
+  purpose: string;
+  requirements: IRequirementFile[];
+  fee: number;
+  status:
+    "pending" | "approved" | "rejected" | "released" | "cancelled" | "revoked";
+  notes?: string;
+  rejectionReason?: string;
+  serialNumber?: string;
+  issuedAt?: Date;
+  validUntil?: Date;
+  issuingOfficial?: {
+    userId: mongoose.Types.ObjectId;
+    name: string;
+    position: string;
+  };
+  pdfFileName?: string;
+  approvedBy?: mongoose.Types.ObjectId;
+  approvedAt?: Date;
+  rejectedBy?: mongoose.Types.ObjectId;
+  rejectedAt?: Date;
+  releasedBy?: mongoose.Types.ObjectId;
+  releasedAt?: Date;
+  revocationReason?: string;
+  revokedBy?: mongoose.Types.ObjectId;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const requirementFileSchema = new Schema<IRequirementFile>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    label: {
+      type: String,
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    originalName: {
+      type: String,
+      required: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false },
+);
+
+const documentRequestSchema = new Schema<IDocumentRequest>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    householdId: {
+      type: Schema.Types.ObjectId,
+      ref: "Household",
+    },
+    zoneId: {
+      type: Schema.Types.ObjectId,
+      ref: "Zone",
+    },
+    documentType: {
+      type: String,
+      required: [true, "Document type is required"],
+      trim: true,
+    },
+    // Snapshot of the type's display name when the request was filed
+    documentName: {
+      type: String,
+      required: true,
+    },
+    purpose: {
+      type: String,
+      required: [true, "Purpose is required"],
+      trim: true,
+      maxlength: [300, "Purpose must not exceed 300 characters"],
+    },
+    requirements: {
+      type: [requirementFileSchema],
+      default: [],
+    },
+    fee: {
+      type: Number,
+      default: 0,
+      min: [0, "Fee cannot be negative"],
+    },
+    status: {
+      type: String,
+      enum: [
+        "pending",
+        "approved",
+        "rejected",
+        "released",
+        "cancelled",
+        "revoked",
+      ],
+      default: "pending",
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Notes must not exceed 1000 characters"],
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Rejection reason must not exceed 500 characters"],
+    },
+    serialNumber: {
+      type: String,
+    },
+    issuedAt: {
+      type: Date,
+    },
+    validUntil: {
+      type: Date,
+    },
+    issuingOfficial: {
+      userId: {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+      name: String,
+      position: String,
+    },
+    pdfFileName: {
+      type: String,
+      select: false,
+    },
+    approvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    approvedAt: {
+      type: Date,
+    },
+    rejectedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    rejectedAt: {
+      type: Date,
+    },
+    releasedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    releasedAt: {
+      type: Date,
+    },
+    revocationReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Revocation reason must not exceed 500 characters"],
+    },
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+documentRequestSchema.index({ status: 1, createdAt: 1 });
+documentRequestSchema.index({ userId: 1, createdAt: -1 });
+documentRequestSchema.index({ documentType: 1, status: 1 });
+documentRequestSchema.index(
+  { serialNumber: 1 },
+  { unique: true, sparse: true },
+);
+
+export default mongoose.model<IDocumentRequest>(
+  "DocumentRequest",
+  documentRequestSchema,
+);
@@ -0,0 +1,111 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A school, covered court or hall used to shelter evacuees.
+ *
+ * `headcount` and `households` are kept by check-ins and check-outs with
+ * atomic increments so the live count never needs a recount and can be
+ * checked against `capacity` in the same write.
+ */
+export interface IEvacuationCenter extends Document {
+  name: string;
+  address: string;
+  zoneId?: mongoose.Types.ObjectId;
+  capacity: number;
+  facilities?: string;
+  contactPerson?: string;
+  contactNumber?: string;
+  status: "standby" | "open" | "closed";
+  headcount: number;
+  households: number;
+  openedAt?: Date;
+  closedAt?: Date;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const evacuationCenterSchema = new Schema<IEvacuationCenter>(
+  {
+    name: {
+      type: String,
+      required: [true, "Center name is required"],
+      unique: true,
+      trim: true,
+      maxlength: [100, "Center name must not exceed 100 characters"],
+    },
+    address: {
+      type: String,
+      required: [true, "Address is required"],
+      trim: true,
+      maxlength: [200, "Address must not exceed 200 characters"],
+    },
+    zoneId: {
+      type: Schema.Types.ObjectId,
+      ref: "Zone",
+    },
+    // Persons the center can shelter
+    capacity: {
+      type: Number,
+      required: [true, "Capacity is required"],
+      min: [1, "Capacity must be at least 1"],
+    },
+    facilities: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Facilities must not exceed 500 characters"],
+    },
+    contactPerson: {
+      type: String,
+      trim: true,
+      maxlength: [100, "Contact person must not exceed 100 characters"],
+    },
+    contactNumber: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ["standby", "open", "closed"],
+      default: "standby",
+    },
+    headcount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    households: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    openedAt: {
+      type: Date,
+    },
+    closedAt: {
+      type: Date,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+evacuationCenterSchema.index({ status: 1 });
+evacuationCenterSchema.index({ zoneId: 1 });
+
+export default mongoose.model<IEvacuationCenter>(
+  "EvacuationCenter",
+  evacuationCenterSchema,
+);
@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A household's stay at an evacuation center. A household can only be
+ * checked in at one center at a time.
+ */
+export interface IEvacuationCheckIn extends Document {
+  centerId: mongoose.Types.ObjectId;
+  householdId: mongoose.Types.ObjectId;
+  // Household members present; headcount may include unlisted persons
+  memberIds: mongoose.Types.ObjectId[];
+  headcount: number;
+  status: "checked_in" | "checked_out";
+  specialNeeds?: string;
+  notes?: string;
+  checkedInAt: Date;
+  checkedInBy: mongoose.Types.ObjectId;
+  checkedOutAt?: Date;
+  checkedOutBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const evacuationCheckInSchema = new Schema<IEvacuationCheckIn>(
+  {
+    centerId: {
+      type: Schema.Types.ObjectId,
+      ref: "EvacuationCenter",
+      required: true,
+    },
+    householdId: {
+      type: Schema.Types.ObjectId,
+      ref: "Household",
+      required: true,
+    },
+    memberIds: {
+      type: [Schema.Types.ObjectId],
+      default: [],
+    },
+    headcount: {
+      type: Number,
+      required: [true, "Headcount is required"],
+      min: [1, "Headcount must be at least 1"],
+    },
+    status: {
+      type: String,
+      enum: ["checked_in", "checked_out"],
+      default: "checked_in",
+    },
+    // Seniors, PWDs, infants, pregnant members, medication needs
+    specialNeeds: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Special needs must not exceed 500 characters"],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes must not exceed 500 characters"],
+    },
+    checkedInAt: {
+      type: Date,
+      default: Date.now,
+    },
+    checkedInBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    checkedOutAt: {
+      type: Date,
+    },
+    checkedOutBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+evacuationCheckInSchema.index(
+  { householdId: 1 },
+  { unique: true, partialFilterExpression: { status: "checked_in" } },
+);
+evacuationCheckInSchema.index({ centerId: 1, status: 1 });
+
+export default mongoose.model<IEvacuationCheckIn>(
+  "EvacuationCheckIn",
+  evacuationCheckInSchema,
+);
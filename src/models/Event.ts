@@ -34,6 +34,24 @@ const eventSchema = new Schema<IEvent>(
         ref: "User",
       },
     ],
+    registrations: [
+      {
+        _id: false,
+        userId: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: true,
+        },
+        householdId: {
+          type: Schema.Types.ObjectId,
+          ref: "Household",
+        },
+        registeredAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
     category: {
       type: String,
       required: [true, "Category is required"],
@@ -0,0 +1,140 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const HOUSEHOLD_RELATIONSHIPS = [
+  "head",
+  "spouse",
+  "son",
+  "daughter",
+  "father",
+  "mother",
+  "brother",
+  "sister",
+  "grandchild",
+  "grandparent",
+  "relative",
+  "boarder",
+  "helper",
+  "other",
+] as const;
+
+export type HouseholdRelationship = (typeof HOUSEHOLD_RELATIONSHIPS)[number];
+
+/**
+ * A person living in the household. `userId` is only set when the member has
+ * an account; children and elderly relatives are usually recorded by name.
+ */
+export interface IHouseholdMember {
+  _id: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId;
+  firstName: string;
+  middleName?: string;
+  lastName: string;
+  relationship: HouseholdRelationship;
+  birthDate?: Date;
+  sex?: "male" | "female";
+}
+
+export interface IHousehold extends Document {
+  address: string;
+  purok?: string;
+  zoneId?: mongoose.Types.ObjectId;
+  members: mongoose.Types.DocumentArray<IHouseholdMember & Document>;
+  notes?: string;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const householdMemberSchema = new Schema<IHouseholdMember>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  firstName: {
+    type: String,
+    required: [true, "Member first name is required"],
+    trim: true,
+    maxlength: [50, "First name must not exceed 50 characters"],
+  },
+  middleName: {
+    type: String,
+    trim: true,
+    maxlength: [50, "Middle name must not exceed 50 characters"],
+  },
+  lastName: {
+    type: String,
+    required: [true, "Member last name is required"],
+    trim: true,
+    maxlength: [50, "Last name must not exceed 50 characters"],
+  },
+  relationship: {
+    type: String,
+    enum: {
+      values: HOUSEHOLD_RELATIONSHIPS,
+      message: "{VALUE} is not a valid relationship",
+    },
+    required: [true, "Relationship to the head of family is required"],
+  },
+  birthDate: {
+    type: Date,
+  },
+  sex: {
+    type: String,
+    enum: ["male", "female"],
+  },
+});
+
+const householdSchema = new Schema<IHousehold>(
+  {
+    address: {
+      type: String,
+      required: [true, "Address is required"],
+      trim: true,
+      minlength: [10, "Address must be at least 10 characters"],
+      maxlength: [200, "Address must not exceed 200 characters"],
+    },
+    purok: {
+      type: String,
+      trim: true,
+      maxlength: [50, "Purok must not exceed 50 characters"],
+    },
+    zoneId: {
+      type: Schema.Types.ObjectId,
+      ref: "Zone",
+    },
+    members: {
+      type: [householdMemberSchema],
+      validate: {
+        validator: (members: IHouseholdMember[]) =>
+          members.filter((member) => member.relationship === "head").length ===
+          1,
+        message: "A household must have exactly one head of family",
+      },
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes must not exceed 500 characters"],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+householdSchema.index({ purok: 1 });
+householdSchema.index({ zoneId: 1 });
+householdSchema.index({ "members.userId": 1 });
+
+export default mongoose.model<IHousehold>("Household", householdSchema);
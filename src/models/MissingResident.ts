@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+/**
+ * A person reported missing during a disaster. `householdId`/`memberId`
+ * link the report to the registry when the person is listed, so checking
+ * them into a center clears the flag.
+ */
+export interface IMissingResident extends Document {
+  name: string;
+  householdId?: mongoose.Types.ObjectId;
+  memberId?: mongoose.Types.ObjectId;
+  age?: number;
+  description?: string;
+  lastSeenLocation?: string;
+  lastSeenAt?: Date;
+  contactNumber?: string;
+  status: "missing" | "found";
+  reportedBy: mongoose.Types.ObjectId;
+  foundAt?: Date;
+  foundBy?: mongoose.Types.ObjectId;
+  foundLocation?: string;
+  foundNotes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const missingResidentSchema = new Schema<IMissingResident>(
+  {
+    name: {
+      type: String,
+      required: [true, "Name is required"],
+      trim: true,
+      maxlength: [100, "Name must not exceed 100 characters"],
+    },
+    householdId: {
+      type: Schema.Types.ObjectId,
+      ref: "Household",
+    },
+    memberId: {
+      type: Schema.Types.ObjectId,
+    },
+    age: {
+      type: Number,
+      min: 0,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Description must not exceed 1000 characters"],
+    },
+    lastSeenLocation: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Location must not exceed 200 characters"],
+    },
+    lastSeenAt: {
+      type: Date,
+    },
+    // Who to call when the person is found
+    contactNumber: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ["missing", "found"],
+      default: "missing",
+    },
+    reportedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    foundAt: {
+      type: Date,
+    },
+    foundBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    foundLocation: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Location must not exceed 200 characters"],
+    },
+    foundNotes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes must not exceed 500 characters"],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+missingResidentSchema.index({ status: 1, createdAt: -1 });
+missingResidentSchema.index({ memberId: 1, status: 1 });
+
+export default mongoose.model<IMissingResident>(
+  "MissingResident",
+  missingResidentSchema,
+);
@@ -31,7 +31,17 @@ const notificationSchema = new Schema<INotification>(
     },
     relatedType: {
       type: String,
-      enum: ["service", "complaint", "event"],
+      enum: [
+        "service",
+        "complaint",
+        "event",
+        "verification",
+        "document",
+        "case",
+        "business",
+        "announcement",
+        "disaster",
+      ],
     },
   },
   {
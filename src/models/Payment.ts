@@ -0,0 +1,171 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const PAYMENT_METHODS = ["cash", "e_wallet", "bank_transfer"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+/**
+ * A collected fee and its official receipt (OR). Receipts are never
+ * deleted: mistakes are voided and returned money is recorded as a refund,
+ * so the OR sequence stays complete for the treasurer.
+ */
+export interface IPayment extends Document {
+  orNumber: string;
+  documentRequestId?: mongoose.Types.ObjectId;
+  serviceId?: mongoose.Types.ObjectId;
+  payerId?: mongoose.Types.ObjectId;
+  payerName: string;
+  description: string;
+  amount: number;
+  method: PaymentMethod;
+  provider?: string;
+  referenceNumber?: string;
+  notes?: string;
+  status: "paid" | "voided" | "refunded";
+  collectedBy: mongoose.Types.ObjectId;
+  paidAt: Date;
+  voidReason?: string;
+  voidedBy?: mongoose.Types.ObjectId;
+  voidedAt?: Date;
+  refundReason?: string;
+  refundedBy?: mongoose.Types.ObjectId;
+  refundedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentSchema = new Schema<IPayment>(
+  {
+    orNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    documentRequestId: {
+      type: Schema.Types.ObjectId,
+      ref: "DocumentRequest",
+    },
+    serviceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Service",
+    },
+    payerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    payerName: {
+      type: String,
+      required: [true, "Payer name is required"],
+      trim: true,
+      maxlength: [100, "Payer name must not exceed 100 characters"],
+    },
+    description: {
+      type: String,
+      required: [true, "Description is required"],
+      trim: true,
+      maxlength: [200, "Description must not exceed 200 characters"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0.01, "Amount must be greater than zero"],
+    },
+    method: {
+      type: String,
+      enum: PAYMENT_METHODS,
+      required: [true, "Payment method is required"],
+    },
+    // e.g. GCash or Maya for e-wallets, the bank for transfers
+    provider: {
+      type: String,
+      trim: true,
+      maxlength: [50, "Provider must not exceed 50 characters"],
+    },
+    referenceNumber: {
+      type: String,
+      trim: true,
+      maxlength: [100, "Reference number must not exceed 100 characters"],
+      required: [
+        function (this: IPayment) {
+          return this.method !== "cash";
+        },
+        "Reference number is required for non-cash payments",
+      ],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes must not exceed 500 characters"],
+    },
+    status: {
+      type: String,
+      enum: ["paid", "voided", "refunded"],
+      default: "paid",
+    },
+    collectedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    paidAt: {
+      type: Date,
+      default: Date.now,
+    },
+    voidReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Void reason must not exceed 500 characters"],
+    },
+    voidedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    voidedAt: {
+      type: Date,
+    },
+    refundReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Refund reason must not exceed 500 characters"],
+    },
+    refundedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    refundedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+paymentSchema.pre("validate", function (next) {
+  if (!this.documentRequestId === !this.serviceId) {
+    this.invalidate(
+      "documentRequestId",
+      "A payment must be for exactly one document request or service request",
+    );
+  }
+  next();
+});
+
+// Indexes
+paymentSchema.index({ paidAt: -1 });
+paymentSchema.index({ refundedAt: -1 }, { sparse: true });
+paymentSchema.index({ payerId: 1, paidAt: -1 });
+paymentSchema.index({ serviceId: 1 });
+// A document request is settled by at most one standing payment
+paymentSchema.index(
+  { documentRequestId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      documentRequestId: { $exists: true },
+      status: "paid",
+    },
+  },
+);
+
+export default mongoose.model<IPayment>("Payment", paymentSchema);
@@ -0,0 +1,166 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import {
+  ALL_PERMISSIONS,
+  DEFAULT_ROLES,
+  Permission,
+} from "../config/permissions";
+
+export interface IRole extends Document {
+  name: string;
+  displayName: string;
+  description?: string;
+  permissions: Permission[];
+  // Permission catalog the role was last reconciled with
+  knownPermissions: Permission[];
+  isSystem: boolean;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IRoleModel extends Model<IRole> {
+  initializeDefaults(): Promise<void>;
+  getPermissions(name: string): Promise<Permission[]>;
+  hasPermission(name: string, permission: Permission): Promise<boolean>;
+  namesWithPermission(...permissions: Permission[]): Promise<string[]>;
+  clearPermissionCache(): void;
+}
+
+const roleSchema = new Schema<IRole>(
+  {
+    name: {
+      type: String,
+      required: [true, "Role name is required"],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [
+        /^[a-z][a-z0-9_]*$/,
+        "Role name may only contain lowercase letters, digits and underscores",
+      ],
+    },
+    displayName: {
+      type: String,
+      required: [true, "Display name is required"],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    permissions: [
+      {
+        type: String,
+        enum: {
+          values: ALL_PERMISSIONS,
+          message: "{VALUE} is not a valid permission",
+        },
+      },
+    ],
+    knownPermissions: {
+      type: [String],
+      select: false,
+    },
+    isSystem: {
+      type: Boolean,
+      default: false,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Role lookups happen on every protected request, so keep them in memory
+const CACHE_TTL_MS = 60 * 1000;
+const permissionCache = new Map<
+  string,
+  { permissions: Permission[]; expiresAt: number }
+>();
+
+// Seed the built-in roles without overwriting edited mappings. Permissions
+// added to the catalog later are granted per the defaults exactly once, so
+// permissions an admin removed are not brought back.
+roleSchema.statics.initializeDefaults = async function () {
+  for (const role of DEFAULT_ROLES) {
+    const existing = await this.findOne({ name: role.name }).select(
+      "+knownPermissions",
+    );
+
+    if (!existing) {
+      await this.create({ ...role, knownPermissions: ALL_PERMISSIONS });
+      continue;
+    }
+
+    const known: Permission[] = existing.knownPermissions || [];
+    const introduced = role.permissions.filter(
+      (permission) => !known.includes(permission),
+    );
+
+    if (introduced.length > 0 || known.length !== ALL_PERMISSIONS.length) {
+      await this.updateOne(
+        { _id: existing._id },
+        {
+          $addToSet: { permissions: { $each: introduced } },
+          $set: { knownPermissions: ALL_PERMISSIONS },
+        },
+      );
+    }
+  }
+};
+
+roleSchema.statics.getPermissions = async function (
+  name: string,
+): Promise<Permission[]> {
+  // Admins can never lock themselves out
+  if (name === "admin") {
+    return ALL_PERMISSIONS;
+  }
+
+  const cached = permissionCache.get(name);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.permissions;
+  }
+
+  const role = await this.findOne({ name }).select("permissions").lean();
+  const permissions: Permission[] = role?.permissions || [];
+
+  permissionCache.set(name, {
+    permissions,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  });
+
+  return permissions;
+};
+
+roleSchema.statics.hasPermission = async function (
+  name: string,
+  permission: Permission,
+): Promise<boolean> {
+  const permissions = await (this as IRoleModel).getPermissions(name);
+  return permissions.includes(permission);
+};
+
+/**
+ * Names of the roles granting any of the given permissions, for finding the
+ * users who should hear about something
+ */
+roleSchema.statics.namesWithPermission = async function (
+  ...permissions: Permission[]
+): Promise<string[]> {
+  const names: string[] = await this.find({
+    permissions: { $in: permissions },
+  }).distinct("name");
+  // Admins hold every permission whatever their stored list says
+  return [...new Set(["admin", ...names])];
+};
+
+roleSchema.statics.clearPermissionCache = function (): void {
+  permissionCache.clear();
+};
+
+export default mongoose.model<IRole, IRoleModel>("Role", roleSchema);
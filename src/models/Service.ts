@@ -8,6 +8,14 @@ const serviceSchema = new Schema<IService>(
       required: true,
       ref: "User",
     },
+    householdId: {
+      type: Schema.Types.ObjectId,
+      ref: "Household",
+    },
+    zoneId: {
+      type: Schema.Types.ObjectId,
+      ref: "Zone",
+    },
     itemName: {
       type: String,
       required: [true, "Item name is required"],
@@ -73,5 +81,7 @@ const serviceSchema = new Schema<IService>(
 serviceSchema.index({ userId: 1, status: 1 });
 serviceSchema.index({ borrowDate: -1 });
 serviceSchema.index({ status: 1 });
+serviceSchema.index({ householdId: 1 });
+serviceSchema.index({ zoneId: 1, status: 1 });
 
 export default mongoose.model<IService>("Service", serviceSchema);
@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/**
+ * A session represents one sign-in on one device. Its refresh token is
+ * rotated on every refresh; only the hash of the latest token is stored, so
+ * presenting an older token of the same session signals token theft.
+ */
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ISessionModel extends Model<ISession> {
+  revokeAllForUser(
+    userId: string | mongoose.Types.ObjectId,
+    reason: string,
+  ): Promise<number>;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    tokenHash: {
+      type: String,
+      required: [true, "Token hash is required"],
+      select: false,
+    },
+    userAgent: {
+      type: String,
+    },
+    ipAddress: {
+      type: String,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, "Expiry date is required"],
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Revoke every active session of a user
+sessionSchema.statics.revokeAllForUser = async function (
+  userId: string | mongoose.Types.ObjectId,
+  reason: string,
+): Promise<number> {
+  const result = await this.updateMany(
+    { userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason },
+  );
+  return result.modifiedCount;
+};
+
+// Indexes
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+
+// TTL index to remove sessions once their refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession, ISessionModel>(
+  "Session",
+  sessionSchema,
+);
@@ -1,4 +1,10 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
+import {
+  DEFAULT_COMPLAINT_ASSIGNMENT_POLICY,
+  DEFAULT_COMPLAINT_DUPLICATE_POLICY,
+  DEFAULT_COMPLAINT_SLA_POLICY,
+  DEFAULT_COMPLAINT_WORKFLOW,
+} from "./Complaint";
 
 export interface ISystemConfig extends Document {
   key: string;
@@ -64,6 +70,111 @@ systemConfigSchema.statics.initializeDefaults = async function () {
       description: "Available service item types",
       isEditable: true,
     },
+    {
+      key: "resident_verification_policy",
+      value: { allowUnverifiedSubmissions: true },
+      description:
+        "Whether residents who have not verified their account may file complaints and service requests",
+      isEditable: true,
+    },
+    {
+      key: "document_types",
+      value: [
+        {
+          type: "barangay_clearance",
+          name: "Barangay Clearance",
+          requirements: [
+            { key: "valid_id", label: "Valid government ID", required: true },
+            {
+              key: "cedula",
+              label: "Community Tax Certificate (Cedula)",
+              required: true,
+            },
+          ],
+          fee: 50,
+          validityDays: 180,
+          serialPrefix: "BC",
+          template:
+            "This is to certify that {{fullName}}, {{civilStatus}}, is a bona fide resident of {{address}}, {{barangay}}, and has no derogatory record filed in this office.\n\nThis clearance is issued upon the request of the above-named person for {{purpose}}.",
+          isActive: true,
+        },
+        {
+          type: "certificate_of_indigency",
+          name: "Certificate of Indigency",
+          requirements: [
+            { key: "valid_id", label: "Valid government ID", required: true },
+          ],
+          fee: 0,
+          validityDays: 90,
+          serialPrefix: "CI",
+          template:
+            "This is to certify that {{fullName}}, a resident of {{address}}, {{barangay}}, belongs to an indigent family in this barangay.\n\nThis certification is issued upon the request of the above-named person for {{purpose}}.",
+          isActive: true,
+        },
+        {
+          type: "certificate_of_residency",
+          name: "Certificate of Residency",
+          requirements: [
+            { key: "valid_id", label: "Valid government ID", required: true },
+            {
+              key: "proof_of_address",
+              label: "Proof of address (e.g. utility bill)",
+              required: false,
+            },
+          ],
+          fee: 30,
+          validityDays: 180,
+          serialPrefix: "CR",
+          template:
+            "This is to certify that {{fullName}} is a resident of {{address}}, {{barangay}}, {{residencySince}}.\n\nThis certification is issued upon the request of the above-named person for {{purpose}}.",
+          isActive: true,
+        },
+      ],
+      description:
+        "Certificates residents can request, with their requirements, fee, validity and template",
+      isEditable: true,
+    },
+    {
+      key: "two_factor_required_roles",
+      value: [],
+      description: "Roles that must use two-factor authentication to sign in",
+      isEditable: true,
+    },
+    {
+      key: "business_clearance_policy",
+      value: { fee: 500, reminderDays: [30, 7] },
+      description:
+        "Default business clearance fee and how many days before expiry owners are reminded to renew",
+      isEditable: true,
+    },
+    {
+      key: "complaint_workflow",
+      value: DEFAULT_COMPLAINT_WORKFLOW,
+      description:
+        "Allowed complaint status changes, the fields each requires, and the resident reopen window",
+      isEditable: true,
+    },
+    {
+      key: "complaint_sla_policy",
+      value: DEFAULT_COMPLAINT_SLA_POLICY,
+      description:
+        "Hours to first response and resolution by complaint category and priority, and how overdue complaints are escalated",
+      isEditable: true,
+    },
+    {
+      key: "complaint_assignment_policy",
+      value: DEFAULT_COMPLAINT_ASSIGNMENT_POLICY,
+      description:
+        "How new complaints are auto-assigned to staff and how many open complaints each may hold",
+      isEditable: true,
+    },
+    {
+      key: "complaint_duplicate_policy",
+      value: DEFAULT_COMPLAINT_DUPLICATE_POLICY,
+      description:
+        "How far back and how closely new complaints are matched against open ones to flag duplicates",
+      isEditable: true,
+    },
   ];
 
   for (const config of defaults) {
@@ -1,6 +1,73 @@
 import mongoose, { Schema } from "mongoose";
 import bcrypt from "bcryptjs";
 import { IUser } from "../types";
+import Role from "./Role";
+
+export const CIVIL_STATUSES = [
+  "single",
+  "married",
+  "live_in",
+  "widowed",
+  "separated",
+  "annulled",
+] as const;
+
+export const RESIDENT_PROFILE_FIELDS = [
+  "middleName",
+  "suffix",
+  "birthDate",
+  "birthPlace",
+  "sex",
+  "civilStatus",
+  "citizenship",
+  "occupation",
+  "isRegisteredVoter",
+  "precinctNumber",
+  "isSeniorCitizen",
+  "isPwd",
+  "isSoloParent",
+  "residentSince",
+] as const;
+
+// Dotted `profile.*` paths so a partial update keeps the other fields
+export const toProfileUpdate = (
+  profile: Record<string, any> = {},
+): Record<string, any> => {
+  const update: Record<string, any> = {};
+  for (const field of RESIDENT_PROFILE_FIELDS) {
+    if (profile[field] !== undefined) {
+      update[`profile.${field}`] = profile[field];
+    }
+  }
+  return update;
+};
+
+const staffProfileSchema = new Schema(
+  {
+    specializations: [{ type: String, trim: true }],
+    // Off duty until switched back on
+    isAvailable: {
+      type: Boolean,
+      default: true,
+    },
+    leaves: [
+      {
+        _id: false,
+        startDate: { type: Date, required: true },
+        endDate: { type: Date, required: true },
+        reason: { type: String, trim: true, maxlength: 200 },
+      },
+    ],
+    maxOpenComplaints: {
+      type: Number,
+      min: 0,
+    },
+    lastAutoAssignedAt: {
+      type: Date,
+    },
+  },
+  { _id: false },
+);
 
 const userSchema = new Schema<IUser>(
   {
@@ -34,8 +101,9 @@ const userSchema = new Schema<IUser>(
     },
     role: {
       type: String,
-      enum: {
-        values: ["admin", "staff", "resident"],
+      validate: {
+        validator: async (value: string) =>
+          !!(await Role.exists({ name: value })),
         message: "{VALUE} is not a valid role",
       },
       default: "resident",
@@ -58,10 +126,176 @@ const userSchema = new Schema<IUser>(
       type: Boolean,
       default: false,
     },
+    verifiedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    verifiedAt: {
+      type: Date,
+    },
+    verificationMethod: {
+      type: String,
+      enum: ["email", "document", "manual"],
+    },
+    householdId: {
+      type: Schema.Types.ObjectId,
+      ref: "Household",
+    },
+    // Used when the resident is not part of a household
+    zoneId: {
+      type: Schema.Types.ObjectId,
+      ref: "Zone",
+    },
+    profile: {
+      middleName: {
+        type: String,
+        trim: true,
+        maxlength: [50, "Middle name must not exceed 50 characters"],
+      },
+      suffix: {
+        type: String,
+        trim: true,
+        maxlength: [10, "Suffix must not exceed 10 characters"],
+      },
+      birthDate: {
+        type: Date,
+        validate: {
+          validator: (value: Date) => !value || value <= new Date(),
+          message: "Birth date cannot be in the future",
+        },
+      },
+      birthPlace: {
+        type: String,
+        trim: true,
+        maxlength: [100, "Birth place must not exceed 100 characters"],
+      },
+      sex: {
+        type: String,
+        enum: ["male", "female"],
+      },
+      civilStatus: {
+        type: String,
+        enum: {
+          values: CIVIL_STATUSES,
+          message: "{VALUE} is not a valid civil status",
+        },
+      },
+      citizenship: {
+        type: String,
+        trim: true,
+        maxlength: [50, "Citizenship must not exceed 50 characters"],
+      },
+      occupation: {
+        type: String,
+        trim: true,
+        maxlength: [100, "Occupation must not exceed 100 characters"],
+      },
+      isRegisteredVoter: {
+        type: Boolean,
+      },
+      precinctNumber: {
+        type: String,
+        trim: true,
+        maxlength: [20, "Precinct number must not exceed 20 characters"],
+      },
+      isSeniorCitizen: {
+        type: Boolean,
+        default: false,
+      },
+      isPwd: {
+        type: Boolean,
+        default: false,
+      },
+      isSoloParent: {
+        type: Boolean,
+        default: false,
+      },
+      residentSince: {
+        type: Date,
+      },
+    },
+    // Only set for staff who handle complaints
+    staffProfile: {
+      type: staffProfileSchema,
+    },
     isActive: {
       type: Boolean,
       default: true,
     },
+    // Bumped to invalidate every issued token (role change, deactivation...)
+    tokenVersion: {
+      type: Number,
+      default: 0,
+    },
+    passwordChangedAt: {
+      type: Date,
+    },
+    passwordResetToken: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
+    emailVerificationToken: {
+      type: String,
+      select: false,
+    },
+    emailVerificationExpires: {
+      type: Date,
+      select: false,
+    },
+    emailVerificationSentAt: {
+      type: Date,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorEnabledAt: {
+      type: Date,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+    },
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false,
+    },
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+    },
+    lockUntil: {
+      type: Date,
+    },
+    lockoutCount: {
+      type: Number,
+      default: 0,
+    },
+    knownDevices: {
+      type: [
+        {
+          _id: false,
+          fingerprint: String,
+          ipAddress: String,
+          userAgent: String,
+          firstSeenAt: Date,
+          lastSeenAt: Date,
+        },
+      ],
+      select: false,
+    },
   },
   {
     timestamps: true,
@@ -77,6 +311,11 @@ userSchema.pre("save", async function (next) {
   try {
     const salt = await bcrypt.genSalt(12);
     this.password = await bcrypt.hash(this.password, salt);
+
+    // Tokens issued before this moment are no longer accepted
+    if (!this.isNew) {
+      this.passwordChangedAt = new Date(Date.now() - 1000);
+    }
     next();
   } catch (error: any) {
     next(error);
@@ -94,6 +333,21 @@ userSchema.methods.comparePassword = async function (
   }
 };
 
+// Check whether the password changed after a token was issued
+userSchema.methods.changedPasswordAfter = function (
+  tokenIssuedAt: number,
+): boolean {
+  if (!this.passwordChangedAt) {
+    return false;
+  }
+  return Math.floor(this.passwordChangedAt.getTime() / 1000) > tokenIssuedAt;
+};
+
+// Whether the account is in a lockout window
+userSchema.methods.isLocked = function (): boolean {
+  return Boolean(this.lockUntil && this.lockUntil > new Date());
+};
+
 // Virtual for full name
 userSchema.virtual("fullName").get(function () {
   return `${this.firstName} ${this.lastName}`;
@@ -106,6 +360,9 @@ userSchema.set("toObject", { virtuals: true });
 // Indexes for faster queries - removed duplicate email index
 userSchema.index({ role: 1 });
 userSchema.index({ isVerified: 1 });
+userSchema.index({ householdId: 1 });
+userSchema.index({ zoneId: 1 });
+userSchema.index({ "profile.birthDate": 1 });
 userSchema.index({ createdAt: -1 });
 
-export default mongoose.model<IUser>("User", userSchema);
\ No newline at end of file
+export default mongoose.model<IUser>("User", userSchema);
@@ -0,0 +1,136 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const ID_DOCUMENT_TYPES = [
+  "philid",
+  "passport",
+  "drivers_license",
+  "voters_id",
+  "umid",
+  "sss_id",
+  "postal_id",
+  "prc_id",
+  "senior_citizen_id",
+  "pwd_id",
+  "student_id",
+  "other",
+] as const;
+
+export type IdDocumentType = (typeof ID_DOCUMENT_TYPES)[number];
+
+export interface IVerificationDocument {
+  fileName: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * A resident's request to have their identity verified from uploaded
+ * government ID scans. Files live outside the public uploads and are only
+ * streamed to the owner and reviewers.
+ */
+export interface IVerificationRequest extends Document {
+  userId: mongoose.Types.ObjectId;
+  documentType: IdDocumentType;
+  documentNumber?: string;
+  documents: IVerificationDocument[];
+  status: "pending" | "approved" | "rejected";
+  reviewerNotes?: string;
+  rejectionReason?: string;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const verificationDocumentSchema = new Schema<IVerificationDocument>(
+  {
+    fileName: {
+      type: String,
+      required: true,
+    },
+    originalName: {
+      type: String,
+      required: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false },
+);
+
+const verificationRequestSchema = new Schema<IVerificationRequest>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    documentType: {
+      type: String,
+      enum: {
+        values: ID_DOCUMENT_TYPES,
+        message: "{VALUE} is not a supported ID type",
+      },
+      required: [true, "Document type is required"],
+    },
+    documentNumber: {
+      type: String,
+      trim: true,
+      maxlength: [50, "Document number cannot exceed 50 characters"],
+    },
+    documents: {
+      type: [verificationDocumentSchema],
+      validate: {
+        validator: (documents: IVerificationDocument[]) => documents.length > 0,
+        message: "At least one document is required",
+      },
+    },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "rejected"],
+      default: "pending",
+    },
+    reviewerNotes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Reviewer notes cannot exceed 1000 characters"],
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Rejection reason cannot exceed 500 characters"],
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    reviewedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+verificationRequestSchema.index({ status: 1, createdAt: 1 });
+verificationRequestSchema.index({ userId: 1, createdAt: -1 });
+
+// A resident can only have one request waiting for review
+verificationRequestSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { status: "pending" } },
+);
+
+export default mongoose.model<IVerificationRequest>(
+  "VerificationRequest",
+  verificationRequestSchema,
+);
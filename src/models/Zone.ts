@@ -0,0 +1,96 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import User from "./User";
+import Household from "./Household";
+
+/**
+ * A purok or zone of the barangay. Staff listed in `assignedStaff` are
+ * responsible for the area and see its complaints by default.
+ */
+export interface IZone extends Document {
+  name: string;
+  code?: string;
+  description?: string;
+  assignedStaff: mongoose.Types.ObjectId[];
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IZoneModel extends Model<IZone> {
+  getStaffZoneIds(userId: string): Promise<mongoose.Types.ObjectId[]>;
+  resolveForUser(userId: string): Promise<mongoose.Types.ObjectId | undefined>;
+}
+
+const zoneSchema = new Schema<IZone>(
+  {
+    name: {
+      type: String,
+      required: [true, "Zone name is required"],
+      unique: true,
+      trim: true,
+      maxlength: [50, "Zone name must not exceed 50 characters"],
+    },
+    code: {
+      type: String,
+      trim: true,
+      uppercase: true,
+      maxlength: [10, "Zone code must not exceed 10 characters"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Description must not exceed 500 characters"],
+    },
+    assignedStaff: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Indexes
+zoneSchema.index({ assignedStaff: 1 });
+
+// Zones a staff member is responsible for
+zoneSchema.statics.getStaffZoneIds = async function (
+  userId: string,
+): Promise<mongoose.Types.ObjectId[]> {
+  return this.find({ assignedStaff: userId, isActive: true }).distinct("_id");
+};
+
+// A resident's zone comes from their household, falling back to their own
+zoneSchema.statics.resolveForUser = async function (
+  userId: string,
+): Promise<mongoose.Types.ObjectId | undefined> {
+  const user = await User.findById(userId).select("householdId zoneId");
+  if (!user) {
+    return undefined;
+  }
+
+  if (user.householdId) {
+    const household = await Household.findById(user.householdId).select(
+      "zoneId",
+    );
+    if (household?.zoneId) {
+      return household.zoneId;
+    }
+  }
+
+  return user.zoneId;
+};
+
+export default mongoose.model<IZone, IZoneModel>("Zone", zoneSchema);
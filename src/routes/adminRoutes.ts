@@ -10,27 +10,59 @@ import {
   assignRole,
   getAuditLogs,
   bulkUpdateUsers,
+  resetUserTwoFactor,
+  unlockUser,
+  updateStaffProfile,
 } from "../controllers/adminController";
-import { authenticate, authorize } from "../middleware/auth";
+import {
+  getPermissions,
+  getRoles,
+  createRole,
+  updateRole,
+  deleteRole,
+} from "../controllers/roleController";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+  idValidation,
+  roleValidation,
+  staffProfileValidation,
+} from "../middleware/validation";
 
 const router = express.Router();
 
-// All admin routes require authentication and admin role
+// All admin routes require authentication
 router.use(authenticate);
-router.use(authorize("admin"));
 
 // User management routes
-router.get("/users", getAllUsers);
-router.get("/users/:id", getUserById);
-router.post("/users", createUser);
-router.put("/users/:id", updateUser);
-router.delete("/users/:id", deleteUser);
-router.patch("/users/:id/toggle-status", toggleUserStatus);
-router.patch("/users/:id/verify", verifyUser);
-router.patch("/users/:id/role", assignRole);
-router.post("/users/bulk-update", bulkUpdateUsers);
+const manageUsers = requirePermission("user:manage");
+router.get("/users", manageUsers, getAllUsers);
+router.get("/users/:id", manageUsers, getUserById);
+router.post("/users", manageUsers, createUser);
+router.put("/users/:id", manageUsers, updateUser);
+router.delete("/users/:id", manageUsers, deleteUser);
+router.patch("/users/:id/toggle-status", manageUsers, toggleUserStatus);
+router.patch("/users/:id/verify", manageUsers, verifyUser);
+router.patch("/users/:id/role", manageUsers, assignRole);
+router.delete("/users/:id/2fa", manageUsers, resetUserTwoFactor);
+router.patch("/users/:id/unlock", manageUsers, unlockUser);
+router.put(
+  "/users/:id/staff-profile",
+  manageUsers,
+  idValidation,
+  staffProfileValidation,
+  updateStaffProfile,
+);
+router.post("/users/bulk-update", manageUsers, bulkUpdateUsers);
+
+// Roles and permissions
+const manageRoles = requirePermission("role:manage");
+router.get("/permissions", manageRoles, getPermissions);
+router.get("/roles", manageRoles, getRoles);
+router.post("/roles", manageRoles, roleValidation, createRole);
+router.put("/roles/:id", manageRoles, idValidation, updateRole);
+router.delete("/roles/:id", manageRoles, idValidation, deleteRole);
 
 // Audit logs
-router.get("/audit-logs", getAuditLogs);
+router.get("/audit-logs", requirePermission("audit:view"), getAuditLogs);
 
 export default router;
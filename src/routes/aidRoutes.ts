@@ -0,0 +1,72 @@
+import { Router } from "express";
+import {
+  getPrograms,
+  createProgram,
+  getProgramById,
+  updateProgram,
+  getEligibleHouseholds,
+  createBatch,
+  getBatchById,
+  closeBatch,
+  recordClaim,
+  getBatchClaims,
+  exportBatch,
+  getHouseholdClaims,
+} from "../controllers/aidController";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+  idValidation,
+  aidProgramValidation,
+  distributionBatchValidation,
+  distributionClaimValidation,
+} from "../middleware/validation";
+
+const router = Router();
+
+router.use(authenticate);
+router.use(requirePermission("aid:distribute"));
+
+// Programs
+router.get("/programs", getPrograms);
+router.post(
+  "/programs",
+  requirePermission("aid:manage"),
+  aidProgramValidation,
+  createProgram,
+);
+router.get("/programs/:id", idValidation, getProgramById);
+router.put(
+  "/programs/:id",
+  requirePermission("aid:manage"),
+  idValidation,
+  aidProgramValidation,
+  updateProgram,
+);
+router.get("/programs/:id/eligible", idValidation, getEligibleHouseholds);
+router.post(
+  "/programs/:id/batches",
+  requirePermission("aid:manage"),
+  idValidation,
+  distributionBatchValidation,
+  createBatch,
+);
+
+// Distribution
+router.get("/batches/:id", idValidation, getBatchById);
+router.put(
+  "/batches/:id/close",
+  requirePermission("aid:manage"),
+  idValidation,
+  closeBatch,
+);
+router.get("/batches/:id/claims", idValidation, getBatchClaims);
+router.post(
+  "/batches/:id/claims",
+  idValidation,
+  distributionClaimValidation,
+  recordClaim,
+);
+router.get("/batches/:id/export", idValidation, exportBatch);
+router.get("/households/:id/claims", idValidation, getHouseholdClaims);
+
+export default router;
@@ -6,52 +6,68 @@ import {
   getResponseTimeAnalytics,
   getTrendAnalysis,
   getMonthlyReport,
+  getZoneAnalytics,
+  getSlaAnalytics,
 } from "../controllers/analyticsController";
-import { authenticate, authorize } from "../middleware/auth";
+import { authenticate, requirePermission } from "../middleware/auth";
 
 const router = Router();
 
-// All analytics routes require admin or staff role
+// All analytics routes require the analytics:view permission
 router.get(
   "/time-series",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("analytics:view"),
   getTimeSeriesData,
 );
 
 router.get(
   "/staff-performance",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("analytics:view"),
   getStaffPerformance,
 );
 
 router.get(
   "/category",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("analytics:view"),
   getCategoryAnalytics,
 );
 
 router.get(
   "/response-time",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("analytics:view"),
   getResponseTimeAnalytics,
 );
 
 router.get(
   "/trends",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("analytics:view"),
   getTrendAnalysis,
 );
 
 router.get(
   "/monthly-report",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("analytics:view"),
   getMonthlyReport,
 );
 
+router.get(
+  "/zones",
+  authenticate,
+  requirePermission("analytics:view"),
+  getZoneAnalytics,
+);
+
+router.get(
+  "/sla",
+  authenticate,
+  requirePermission("analytics:view"),
+  getSlaAnalytics,
+);
+
 export default router;
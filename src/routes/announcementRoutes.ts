@@ -8,7 +8,7 @@ import {
   togglePublishAnnouncement,
   togglePinAnnouncement,
 } from "../controllers/announcementController";
-import { authenticate, authorize } from "../middleware/auth";
+import { authenticate, requirePermission } from "../middleware/auth";
 
 const router = express.Router();
 
@@ -16,30 +16,35 @@ const router = express.Router();
 router.get("/", getAnnouncements);
 router.get("/:id", getAnnouncementById);
 
-// Protected routes - Admin and Staff only
+// Protected routes - announcement permissions
 router.post(
   "/",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("announcement:manage"),
   createAnnouncement,
 );
 router.put(
   "/:id",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("announcement:manage"),
   updateAnnouncement,
 );
-router.delete("/:id", authenticate, authorize("admin"), deleteAnnouncement);
+router.delete(
+  "/:id",
+  authenticate,
+  requirePermission("announcement:delete"),
+  deleteAnnouncement,
+);
 router.patch(
   "/:id/publish",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("announcement:publish"),
   togglePublishAnnouncement,
 );
 router.patch(
   "/:id/pin",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("announcement:manage"),
   togglePinAnnouncement,
 );
 
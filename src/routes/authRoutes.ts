@@ -12,17 +12,39 @@ import {
   deleteUser,
   createStaffAdmin,
   getCsrfToken,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  logout,
+  logoutAll,
+  getSessions,
+  revokeSession,
+  verifyTwoFactorLogin,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
 } from "../controllers/authController";
-import { authenticate, authorize } from "../middleware/auth";
+import {
+  authenticate,
+  requirePermission,
+  authenticateOrChallenge,
+} from "../middleware/auth";
 import {
   registerValidation,
   loginValidation,
   updateProfileValidation,
   changePasswordValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation,
+  verifyEmailValidation,
+  twoFactorLoginValidation,
+  twoFactorCodeValidation,
   idValidation,
   queryValidation,
 } from "../middleware/validation";
-import { authLimiter } from "../middleware/rateLimiter";
+import { authLimiter, emailLimiter } from "../middleware/rateLimiter";
 
 const router = Router();
 
@@ -31,8 +53,61 @@ router.get("/csrf-token", getCsrfToken);
 router.post("/register", authLimiter, registerValidation, register);
 router.post("/login", authLimiter, loginValidation, login);
 router.post("/refresh-token", refreshToken);
+router.post(
+  "/forgot-password",
+  emailLimiter,
+  forgotPasswordValidation,
+  forgotPassword,
+);
+router.post(
+  "/reset-password",
+  authLimiter,
+  resetPasswordValidation,
+  resetPassword,
+);
+router.get("/verify-email", verifyEmailValidation, verifyEmail);
+router.post(
+  "/2fa/verify",
+  authLimiter,
+  twoFactorLoginValidation,
+  verifyTwoFactorLogin,
+);
+
+// Two-factor enrollment (session or setup challenge from login)
+router.post("/2fa/setup", authenticateOrChallenge, setupTwoFactor);
+router.post(
+  "/2fa/enable",
+  authLimiter,
+  authenticateOrChallenge,
+  twoFactorCodeValidation,
+  enableTwoFactor,
+);
 
 // Protected routes (authenticated users)
+router.post(
+  "/resend-verification",
+  authenticate,
+  emailLimiter,
+  resendVerificationEmail,
+);
+router.post(
+  "/2fa/disable",
+  authenticate,
+  authLimiter,
+  twoFactorCodeValidation,
+  disableTwoFactor,
+);
+router.post(
+  "/2fa/recovery-codes",
+  authenticate,
+  authLimiter,
+  twoFactorCodeValidation,
+  regenerateRecoveryCodes,
+);
+router.post("/logout", authenticate, logout);
+router.post("/logout-all", authenticate, logoutAll);
+router.get("/sessions", authenticate, getSessions);
+router.delete("/sessions/:id", authenticate, idValidation, revokeSession);
 router.get("/profile", authenticate, getProfile);
 router.put("/profile", authenticate, updateProfileValidation, updateProfile);
 router.put(
@@ -42,39 +117,39 @@ router.put(
   changePassword,
 );
 
-// Admin only routes
+// User management routes
 router.get(
   "/users",
   authenticate,
-  authorize("admin"),
+  requirePermission("user:manage"),
   queryValidation,
   getAllUsers,
 );
 router.post(
   "/users/staff-admin",
   authenticate,
-  authorize("admin"),
+  requirePermission("user:manage"),
   registerValidation,
   createStaffAdmin,
 );
 router.put(
   "/users/:id/role",
   authenticate,
-  authorize("admin"),
+  requirePermission("user:manage"),
   idValidation,
   updateUserRole,
 );
 router.patch(
   "/users/:id/verify",
   authenticate,
-  authorize("admin"),
+  requirePermission("user:manage"),
   idValidation,
   verifyUser,
 );
 router.delete(
   "/users/:id",
   authenticate,
-  authorize("admin"),
+  requirePermission("user:manage"),
   idValidation,
   deleteUser,
 );
@@ -8,42 +8,52 @@ import {
   exportComplaints,
   exportServices,
 } from "../controllers/bulkController";
-import { authenticate, authorize } from "../middleware/auth";
+import { authenticate, requirePermission } from "../middleware/auth";
+import { complaintStatusValidation } from "../middleware/validation";
 
 const router = express.Router();
 
 // All bulk routes require authentication
 router.use(authenticate);
 
-// Bulk complaint operations - Admin and Staff
+// Bulk complaint operations
 router.post(
   "/complaints/status",
-  authorize("admin", "staff"),
+  requirePermission("complaint:update_status"),
+  complaintStatusValidation,
   bulkUpdateComplaintsStatus,
 );
 router.post(
   "/complaints/assign",
-  authorize("admin", "staff"),
+  requirePermission("complaint:assign"),
   bulkAssignComplaints,
 );
-router.post("/complaints/delete", authorize("admin"), bulkDeleteComplaints);
+router.post(
+  "/complaints/delete",
+  requirePermission("complaint:delete"),
+  bulkDeleteComplaints,
+);
 router.get(
   "/complaints/export",
-  authorize("admin", "staff"),
+  requirePermission("complaint:export"),
   exportComplaints,
 );
 
-// Bulk service operations - Admin and Staff
+// Bulk service operations
 router.post(
   "/services/status",
-  authorize("admin", "staff"),
+  requirePermission("service:approve"),
   bulkUpdateServicesStatus,
 );
 router.post(
   "/services/assign",
-  authorize("admin", "staff"),
+  requirePermission("service:assign"),
   bulkAssignServices,
 );
-router.get("/services/export", authorize("admin", "staff"), exportServices);
+router.get(
+  "/services/export",
+  requirePermission("service:export"),
+  exportServices,
+);
 
 export default router;
@@ -0,0 +1,75 @@
+import { Router } from "express";
+import {
+  createBusiness,
+  getMyBusinesses,
+  getBusinesses,
+  exportBusinesses,
+  getBusinessById,
+  updateBusiness,
+  applyForClearance,
+  getClearanceApplications,
+  recordInspection,
+  approveClearance,
+  rejectClearance,
+} from "../controllers/businessController";
+import {
+  authenticate,
+  requirePermission,
+  requireVerifiedResident,
+} from "../middleware/auth";
+import {
+  idValidation,
+  businessValidation,
+  businessClearanceValidation,
+  businessInspectionValidation,
+  businessApproveValidation,
+  businessRejectValidation,
+} from "../middleware/validation";
+
+const router = Router();
+
+router.use(authenticate);
+
+// Registry
+router.get("/", requirePermission("business:export"), getBusinesses);
+router.get("/export", requirePermission("business:export"), exportBusinesses);
+
+// Clearance processing
+router.get(
+  "/clearances",
+  requirePermission("business:manage"),
+  getClearanceApplications,
+);
+router.put(
+  "/clearances/:clearanceId/inspection",
+  requirePermission("business:manage"),
+  businessInspectionValidation,
+  recordInspection,
+);
+router.put(
+  "/clearances/:clearanceId/approve",
+  requirePermission("business:manage"),
+  businessApproveValidation,
+  approveClearance,
+);
+router.put(
+  "/clearances/:clearanceId/reject",
+  requirePermission("business:manage"),
+  businessRejectValidation,
+  rejectClearance,
+);
+
+// Owner or staff
+router.post("/", requireVerifiedResident, businessValidation, createBusiness);
+router.get("/me", getMyBusinesses);
+router.get("/:id", idValidation, getBusinessById);
+router.put("/:id", idValidation, businessValidation, updateBusiness);
+router.post(
+  "/:id/clearances",
+  requireVerifiedResident,
+  idValidation,
+  businessClearanceValidation,
+  applyForClearance,
+);
+
+export default router;
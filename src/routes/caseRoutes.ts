@@ -0,0 +1,62 @@
+import { Router } from "express";
+import {
+  createCase,
+  getCases,
+  getMyCases,
+  getCaseById,
+  updateCase,
+  updateCaseStatus,
+  extendConciliation,
+  recordSettlement,
+  scheduleHearing,
+  updateHearing,
+  getCaseForm,
+} from "../controllers/caseController";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+  idValidation,
+  caseValidation,
+  caseStatusValidation,
+  caseSettlementValidation,
+  caseHearingValidation,
+  hearingIdValidation,
+} from "../middleware/validation";
+
+const router = Router();
+
+router.use(authenticate);
+
+// Parties
+router.get("/me", getMyCases);
+router.get("/:id", idValidation, getCaseById);
+
+// Lupon
+router.use(requirePermission("case:manage"));
+
+router.get("/", getCases);
+router.post("/", caseValidation, createCase);
+router.put("/:id", idValidation, caseValidation, updateCase);
+router.put("/:id/status", idValidation, caseStatusValidation, updateCaseStatus);
+router.put("/:id/extend", idValidation, extendConciliation);
+router.post(
+  "/:id/settlement",
+  idValidation,
+  caseSettlementValidation,
+  recordSettlement,
+);
+router.post(
+  "/:id/hearings",
+  idValidation,
+  caseHearingValidation,
+  scheduleHearing,
+);
+router.put(
+  "/:id/hearings/:hearingId",
+  idValidation,
+  hearingIdValidation,
+  caseHearingValidation,
+  updateHearing,
+);
+router.get("/:id/forms/:form", idValidation, getCaseForm);
+
+export default router;
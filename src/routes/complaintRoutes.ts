@@ -5,31 +5,65 @@ import {
   getComplaintById,
   updateComplaintStatus,
   assignComplaint,
+  getAssignmentCandidates,
   addComment,
   rateComplaint,
   escalateComplaint,
   deleteComplaint,
   getComplaintStats,
+  reopenComplaint,
+  getSimilarComplaints,
+  joinComplaint,
+  mergeComplaints,
+  trackComplaint,
+  unsealComplaint,
 } from "../controllers/complaintController";
-import { authenticate, authorize } from "../middleware/auth";
-import { complaintValidation, idValidation } from "../middleware/validation";
+import {
+  authenticate,
+  requirePermission,
+  requireVerifiedResident,
+} from "../middleware/auth";
+import {
+  complaintValidation,
+  complaintStatusValidation,
+  complaintReopenValidation,
+  complaintEscalateValidation,
+  complaintSimilarValidation,
+  complaintMergeValidation,
+  complaintUnsealValidation,
+  geoQueryValidation,
+  idValidation,
+} from "../middleware/validation";
 import { validateComplaintCategory } from "../middleware/dynamicValidation";
+import { trackingLimiter } from "../middleware/rateLimiter";
 
 const router = Router();
 
+// Anonymous filers follow their complaint by tracking code, without logging in
+router.get("/track/:code", trackingLimiter, trackComplaint);
+
 // Public routes (authenticated)
 router.post(
   "/",
   authenticate,
+  requireVerifiedResident,
   complaintValidation,
   validateComplaintCategory,
   createComplaint,
 );
 router.get("/", authenticate, getComplaints);
+router.get(
+  "/similar",
+  authenticate,
+  requireVerifiedResident,
+  complaintSimilarValidation,
+  geoQueryValidation,
+  getSimilarComplaints,
+);
 router.get(
   "/stats",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("complaint:view_all"),
   getComplaintStats,
 );
 router.get("/:id", authenticate, idValidation, getComplaintById);
@@ -37,22 +71,65 @@ router.get("/:id", authenticate, idValidation, getComplaintById);
 // Comment routes
 router.post("/:id/comments", authenticate, idValidation, addComment);
 
+// Report the same problem as an existing complaint instead of filing anew
+router.post(
+  "/:id/join",
+  authenticate,
+  requireVerifiedResident,
+  idValidation,
+  joinComplaint,
+);
+
 // Rating routes (residents only)
 router.post("/:id/rate", authenticate, idValidation, rateComplaint);
+router.post(
+  "/:id/reopen",
+  authenticate,
+  idValidation,
+  complaintReopenValidation,
+  reopenComplaint,
+);
 
-// Staff/Admin routes
+// Complaint handling routes
 router.put(
   "/:id/status",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("complaint:update_status"),
   idValidation,
+  complaintStatusValidation,
   updateComplaintStatus,
 );
 
+router.get(
+  "/:id/assignment-candidates",
+  authenticate,
+  requirePermission("complaint:assign"),
+  idValidation,
+  getAssignmentCandidates,
+);
+
+router.post(
+  "/:id/merge",
+  authenticate,
+  requirePermission("complaint:merge"),
+  idValidation,
+  complaintMergeValidation,
+  mergeComplaints,
+);
+
+router.post(
+  "/:id/unseal",
+  authenticate,
+  requirePermission("complaint:unseal"),
+  idValidation,
+  complaintUnsealValidation,
+  unsealComplaint,
+);
+
 router.put(
   "/:id/assign",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("complaint:assign"),
   idValidation,
   assignComplaint,
 );
@@ -60,8 +137,9 @@ router.put(
 router.post(
   "/:id/escalate",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("complaint:escalate"),
   idValidation,
+  complaintEscalateValidation,
   escalateComplaint,
 );
 
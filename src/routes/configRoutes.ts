@@ -4,8 +4,22 @@ import {
   getServiceItemTypes,
   updateComplaintCategories,
   updateServiceItemTypes,
+  getVerificationPolicy,
+  updateVerificationPolicy,
+  getTwoFactorRequiredRoles,
+  updateTwoFactorRequiredRoles,
+  getDocumentTypes,
+  updateDocumentTypes,
+  getComplaintWorkflow,
+  updateComplaintWorkflow,
+  getComplaintSlaPolicy,
+  updateComplaintSlaPolicy,
+  getComplaintAssignmentPolicy,
+  updateComplaintAssignmentPolicy,
+  getComplaintDuplicatePolicy,
+  updateComplaintDuplicatePolicy,
 } from "../controllers/configController";
-import { authenticate, authorize } from "../middleware/auth";
+import { authenticate, requirePermission } from "../middleware/auth";
 
 const router = Router();
 
@@ -13,18 +27,114 @@ const router = Router();
 router.get("/complaint-categories", authenticate, getComplaintCategories);
 router.get("/service-item-types", authenticate, getServiceItemTypes);
 
-// Admin/Staff only routes (can edit)
+// List editing routes
 router.put(
   "/complaint-categories",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("config:lists"),
   updateComplaintCategories,
 );
 router.put(
   "/service-item-types",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("config:lists"),
   updateServiceItemTypes,
 );
 
+// Certificate templates and fees; residents use /document-requests/types
+router.get(
+  "/document-types",
+  authenticate,
+  requirePermission("config:lists"),
+  getDocumentTypes,
+);
+router.put(
+  "/document-types",
+  authenticate,
+  requirePermission("config:lists"),
+  updateDocumentTypes,
+);
+
+// Complaint status rules; enforced by status updates, bulk updates and reopen
+router.get(
+  "/complaint-workflow",
+  authenticate,
+  requirePermission("config:manage"),
+  getComplaintWorkflow,
+);
+router.put(
+  "/complaint-workflow",
+  authenticate,
+  requirePermission("config:manage"),
+  updateComplaintWorkflow,
+);
+
+// Response and resolution targets; new complaints get due dates from these
+router.get(
+  "/complaint-sla",
+  authenticate,
+  requirePermission("config:manage"),
+  getComplaintSlaPolicy,
+);
+router.put(
+  "/complaint-sla",
+  authenticate,
+  requirePermission("config:manage"),
+  updateComplaintSlaPolicy,
+);
+
+// How new complaints are routed to staff
+router.get(
+  "/complaint-assignment",
+  authenticate,
+  requirePermission("config:manage"),
+  getComplaintAssignmentPolicy,
+);
+router.put(
+  "/complaint-assignment",
+  authenticate,
+  requirePermission("config:manage"),
+  updateComplaintAssignmentPolicy,
+);
+
+// How closely new complaints are matched against open ones
+router.get(
+  "/complaint-duplicates",
+  authenticate,
+  requirePermission("config:manage"),
+  getComplaintDuplicatePolicy,
+);
+router.put(
+  "/complaint-duplicates",
+  authenticate,
+  requirePermission("config:manage"),
+  updateComplaintDuplicatePolicy,
+);
+
+// Security settings
+router.get(
+  "/verification-policy",
+  authenticate,
+  requirePermission("config:manage"),
+  getVerificationPolicy,
+);
+router.put(
+  "/verification-policy",
+  authenticate,
+  requirePermission("config:manage"),
+  updateVerificationPolicy,
+);
+router.get(
+  "/two-factor-roles",
+  authenticate,
+  requirePermission("config:manage"),
+  getTwoFactorRequiredRoles,
+);
+router.put(
+  "/two-factor-roles",
+  authenticate,
+  requirePermission("config:manage"),
+  updateTwoFactorRequiredRoles,
+);
+
 export default router;
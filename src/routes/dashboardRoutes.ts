@@ -5,31 +5,53 @@ import {
   getTimeSeriesData,
   getCategoryDistribution,
   getStaffPerformance,
+  getComplaintHeatmap,
 } from "../controllers/dashboardController";
-import { authenticate, authorize } from "../middleware/auth";
+import { authenticate, requirePermission } from "../middleware/auth";
+import { geoQueryValidation } from "../middleware/validation";
 
 const router = express.Router();
 
 // All dashboard routes require authentication
 router.use(authenticate);
 
-// Dashboard statistics - Admin and Staff only
-router.get("/stats", authorize("admin", "staff"), getDashboardStats);
+// Dashboard statistics
+router.get("/stats", requirePermission("dashboard:view"), getDashboardStats);
 
-// Recent activities - Admin and Staff only
-router.get("/activities", authorize("admin", "staff"), getRecentActivities);
+// Recent activities
+router.get(
+  "/activities",
+  requirePermission("dashboard:view"),
+  getRecentActivities,
+);
 
-// Time-series data for charts - Admin and Staff only
-router.get("/time-series", authorize("admin", "staff"), getTimeSeriesData);
+// Time-series data for charts
+router.get(
+  "/time-series",
+  requirePermission("dashboard:view"),
+  getTimeSeriesData,
+);
 
-// Category distribution - Admin and Staff only
+// Category distribution
 router.get(
   "/category-distribution",
-  authorize("admin", "staff"),
+  requirePermission("dashboard:view"),
   getCategoryDistribution,
 );
 
-// Staff performance - Admin only
-router.get("/staff-performance", authorize("admin"), getStaffPerformance);
+// Where pinned complaints cluster
+router.get(
+  "/complaint-heatmap",
+  requirePermission("dashboard:view"),
+  geoQueryValidation,
+  getComplaintHeatmap,
+);
+
+// Staff performance
+router.get(
+  "/staff-performance",
+  requirePermission("dashboard:staff_performance"),
+  getStaffPerformance,
+);
 
 export default router;
@@ -0,0 +1,75 @@
+import { Router } from "express";
+import {
+  getCenters,
+  createCenter,
+  updateCenter,
+  updateCenterStatus,
+  getCenterCheckIns,
+  checkInHousehold,
+  checkOutHousehold,
+  getHeadcount,
+  reportMissing,
+  getMissingResidents,
+  markFound,
+  sendEmergencyAlert,
+} from "../controllers/disasterController";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+  idValidation,
+  evacuationCenterValidation,
+  evacuationCenterStatusValidation,
+  evacuationCheckInValidation,
+  missingResidentValidation,
+  missingFoundValidation,
+  emergencyAlertValidation,
+} from "../middleware/validation";
+
+const router = Router();
+
+router.use(authenticate);
+
+// Residents: where to go, and reporting missing family members
+router.get("/centers", getCenters);
+router.post("/missing", missingResidentValidation, reportMissing);
+
+router.post(
+  "/alerts",
+  requirePermission("disaster:alert"),
+  emergencyAlertValidation,
+  sendEmergencyAlert,
+);
+
+// Response teams
+router.use(requirePermission("disaster:manage"));
+
+router.get("/headcount", getHeadcount);
+router.post("/centers", evacuationCenterValidation, createCenter);
+router.put(
+  "/centers/:id",
+  idValidation,
+  evacuationCenterValidation,
+  updateCenter,
+);
+router.put(
+  "/centers/:id/status",
+  idValidation,
+  evacuationCenterStatusValidation,
+  updateCenterStatus,
+);
+router.get("/centers/:id/checkins", idValidation, getCenterCheckIns);
+router.post(
+  "/centers/:id/checkins",
+  idValidation,
+  evacuationCheckInValidation,
+  checkInHousehold,
+);
+router.put("/checkins/:id/checkout", idValidation, checkOutHousehold);
+router.get("/missing", getMissingResidents);
+router.put(
+  "/missing/:id/found",
+  idValidation,
+  missingFoundValidation,
+  markFound,
+);
+
+export default router;
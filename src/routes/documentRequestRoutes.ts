@@ -0,0 +1,74 @@
+import { Router } from "express";
+import {
+  getRequestableDocumentTypes,
+  createDocumentRequest,
+  getMyDocumentRequests,
+  getDocumentRequests,
+  getDocumentRequestById,
+  getRequirementFile,
+  approveDocumentRequest,
+  rejectDocumentRequest,
+  releaseDocumentRequest,
+  cancelDocumentRequest,
+  downloadDocumentPdf,
+  revokeDocumentRequest,
+} from "../controllers/documentRequestController";
+import {
+  authenticate,
+  requirePermission,
+  requireVerifiedResident,
+} from "../middleware/auth";
+import { upload } from "../middleware/upload";
+import {
+  idValidation,
+  documentRejectValidation,
+  documentRevokeValidation,
+} from "../middleware/validation";
+
+const router = Router();
+
+router.use(authenticate);
+
+// Resident routes
+// Requirement files arrive under their requirement keys; the controller
+// checks them against the document type and removes them on failure
+router.get("/types", getRequestableDocumentTypes);
+router.post("/", requireVerifiedResident, upload.any(), createDocumentRequest);
+router.get("/me", getMyDocumentRequests);
+router.put("/:id/cancel", idValidation, cancelDocumentRequest);
+
+// Processing queue
+router.get("/", requirePermission("document:process"), getDocumentRequests);
+router.put(
+  "/:id/approve",
+  requirePermission("document:process"),
+  idValidation,
+  approveDocumentRequest,
+);
+router.put(
+  "/:id/reject",
+  requirePermission("document:process"),
+  idValidation,
+  documentRejectValidation,
+  rejectDocumentRequest,
+);
+router.put(
+  "/:id/release",
+  requirePermission("document:process"),
+  idValidation,
+  releaseDocumentRequest,
+);
+router.put(
+  "/:id/revoke",
+  requirePermission("document:process"),
+  idValidation,
+  documentRevokeValidation,
+  revokeDocumentRequest,
+);
+
+// Owner or processor
+router.get("/:id", idValidation, getDocumentRequestById);
+router.get("/:id/requirements/:key", idValidation, getRequirementFile);
+router.get("/:id/pdf", idValidation, downloadDocumentPdf);
+
+export default router;
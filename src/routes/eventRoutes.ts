@@ -10,7 +10,7 @@ import {
   deleteEvent,
   exportEventAttendees,
 } from "../controllers/eventController";
-import { authenticate, authorize } from "../middleware/auth";
+import { authenticate, requirePermission } from "../middleware/auth";
 import { eventValidation, idValidation } from "../middleware/validation";
 
 const router = Router();
@@ -18,7 +18,7 @@ const router = Router();
 router.post(
   "/",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("event:manage"),
   eventValidation,
   createEvent,
 );
@@ -28,7 +28,7 @@ router.get("/:id/attendees", authenticate, idValidation, getEventAttendees);
 router.get(
   "/:id/attendees/export",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("event:manage"),
   idValidation,
   exportEventAttendees,
 );
@@ -37,14 +37,14 @@ router.post("/:id/unregister", authenticate, idValidation, unregisterFromEvent);
 router.put(
   "/:id",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("event:manage"),
   idValidation,
   updateEvent,
 );
 router.delete(
   "/:id",
   authenticate,
-  authorize("admin"),
+  requirePermission("event:delete"),
   idValidation,
   deleteEvent,
 );
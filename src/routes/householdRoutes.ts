@@ -0,0 +1,93 @@
+import { Router } from "express";
+import {
+  getMyHousehold,
+  createMyHousehold,
+  updateMyHousehold,
+  addMyHouseholdMember,
+  updateMyHouseholdMember,
+  removeMyHouseholdMember,
+  getHouseholds,
+  getHouseholdById,
+  createHousehold,
+  updateHousehold,
+  deleteHousehold,
+  addHouseholdMember,
+  updateHouseholdMember,
+  removeHouseholdMember,
+} from "../controllers/householdController";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+  idValidation,
+  memberIdValidation,
+  householdValidation,
+  householdMemberValidation,
+  householdMemberUpdateValidation,
+} from "../middleware/validation";
+
+const router = Router();
+
+router.use(authenticate);
+
+// Resident self-management, limited to the head of family for changes
+router.get("/me", getMyHousehold);
+router.post("/me", householdValidation, createMyHousehold);
+router.put("/me", householdValidation, updateMyHousehold);
+router.post("/me/members", householdMemberValidation, addMyHouseholdMember);
+router.put(
+  "/me/members/:memberId",
+  memberIdValidation,
+  householdMemberUpdateValidation,
+  updateMyHouseholdMember,
+);
+router.delete(
+  "/me/members/:memberId",
+  memberIdValidation,
+  removeMyHouseholdMember,
+);
+
+// Staff registry
+router.get("/", requirePermission("household:manage"), getHouseholds);
+router.post(
+  "/",
+  requirePermission("household:manage"),
+  householdValidation,
+  createHousehold,
+);
+router.get("/:id", idValidation, getHouseholdById);
+router.put(
+  "/:id",
+  requirePermission("household:manage"),
+  idValidation,
+  householdValidation,
+  updateHousehold,
+);
+router.delete(
+  "/:id",
+  requirePermission("household:manage"),
+  idValidation,
+  deleteHousehold,
+);
+router.post(
+  "/:id/members",
+  requirePermission("household:manage"),
+  idValidation,
+  householdMemberValidation,
+  addHouseholdMember,
+);
+router.put(
+  "/:id/members/:memberId",
+  requirePermission("household:manage"),
+  idValidation,
+  memberIdValidation,
+  householdMemberUpdateValidation,
+  updateHouseholdMember,
+);
+router.delete(
+  "/:id/members/:memberId",
+  requirePermission("household:manage"),
+  idValidation,
+  memberIdValidation,
+  removeHouseholdMember,
+);
+
+export default router;
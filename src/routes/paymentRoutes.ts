@@ -0,0 +1,57 @@
+import { Router } from "express";
+import {
+  recordPayment,
+  getPayments,
+  getMyPayments,
+  getPaymentById,
+  voidPayment,
+  refundPayment,
+  getDailyCollectionReport,
+} from "../controllers/paymentController";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+  idValidation,
+  paymentValidation,
+  paymentReasonValidation,
+} from "../middleware/validation";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/me", getMyPayments);
+router.get(
+  "/reports/daily",
+  requirePermission("payment:report"),
+  getDailyCollectionReport,
+);
+
+router.post(
+  "/",
+  requirePermission("payment:collect"),
+  paymentValidation,
+  recordPayment,
+);
+router.get("/", requirePermission("payment:collect"), getPayments);
+router.get(
+  "/:id",
+  requirePermission("payment:collect"),
+  idValidation,
+  getPaymentById,
+);
+router.put(
+  "/:id/void",
+  requirePermission("payment:void"),
+  idValidation,
+  paymentReasonValidation,
+  voidPayment,
+);
+router.put(
+  "/:id/refund",
+  requirePermission("payment:void"),
+  idValidation,
+  paymentReasonValidation,
+  refundPayment,
+);
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import {
+  searchResidents,
+  exportResidents,
+  getResident,
+  updateResidentProfile,
+} from "../controllers/registryController";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+  idValidation,
+  residentProfileValidation,
+  residentSearchValidation,
+} from "../middleware/validation";
+
+const router = Router();
+
+router.use(authenticate, requirePermission("registry:manage"));
+
+router.get("/residents", residentSearchValidation, searchResidents);
+router.get("/residents/export", residentSearchValidation, exportResidents);
+router.get("/residents/:id", idValidation, getResident);
+router.put(
+  "/residents/:id/profile",
+  idValidation,
+  residentProfileValidation,
+  updateResidentProfile,
+);
+
+export default router;
@@ -5,6 +5,7 @@ import {
   filterServices,
 } from "../controllers/searchController";
 import { authenticate } from "../middleware/auth";
+import { geoQueryValidation } from "../middleware/validation";
 
 const router = express.Router();
 
@@ -15,7 +16,7 @@ router.use(authenticate);
 router.get("/global", globalSearch);
 
 // Advanced filters
-router.get("/complaints/filter", filterComplaints);
+router.get("/complaints/filter", geoQueryValidation, filterComplaints);
 router.get("/services/filter", filterServices);
 
 export default router;
@@ -8,7 +8,11 @@ import {
   approveServiceRequest,
   rejectServiceRequest,
 } from "../controllers/serviceController";
-import { authenticate, authorize } from "../middleware/auth";
+import {
+  authenticate,
+  requirePermission,
+  requireVerifiedResident,
+} from "../middleware/auth";
 import {
   serviceRequestValidation,
   idValidation,
@@ -20,6 +24,7 @@ const router = Router();
 router.post(
   "/",
   authenticate,
+  requireVerifiedResident,
   serviceRequestValidation,
   validateServiceItemType,
   createServiceRequest,
@@ -29,21 +34,21 @@ router.get("/:id", authenticate, idValidation, getServiceRequestById);
 router.put(
   "/:id/status",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("service:approve"),
   idValidation,
   updateServiceStatus,
 );
 router.put(
   "/:id/approve",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("service:approve"),
   idValidation,
   approveServiceRequest,
 );
 router.put(
   "/:id/reject",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("service:approve"),
   idValidation,
   rejectServiceRequest,
 );
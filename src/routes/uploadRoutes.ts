@@ -4,7 +4,7 @@ import {
   deleteComplaintAttachment,
   uploadEventImage,
 } from "../controllers/uploadController";
-import { authenticate, authorize } from "../middleware/auth";
+import { authenticate, requirePermission } from "../middleware/auth";
 import { upload, optimizeImage } from "../middleware/upload";
 
 const router = Router();
@@ -28,7 +28,7 @@ router.delete(
 router.post(
   "/events/:id/image",
   authenticate,
-  authorize("admin", "staff"),
+  requirePermission("event:manage"),
   upload.single("image"),
   optimizeImage,
   uploadEventImage,
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import {
+  submitVerificationRequest,
+  getMyVerificationRequests,
+  getVerificationQueue,
+  getVerificationRequestById,
+  getVerificationDocument,
+  approveVerificationRequest,
+  rejectVerificationRequest,
+} from "../controllers/verificationController";
+import { authenticate, requirePermission } from "../middleware/auth";
+import { upload } from "../middleware/upload";
+import {
+  idValidation,
+  verificationRejectValidation,
+} from "../middleware/validation";
+
+const router = Router();
+
+router.use(authenticate);
+
+// Resident routes
+// ID scans are stored as uploaded so reviewers see the original
+router.post("/", upload.array("documents", 3), submitVerificationRequest);
+router.get("/me", getMyVerificationRequests);
+
+// Review queue
+router.get("/", requirePermission("verification:review"), getVerificationQueue);
+router.patch(
+  "/:id/approve",
+  requirePermission("verification:review"),
+  idValidation,
+  approveVerificationRequest,
+);
+router.patch(
+  "/:id/reject",
+  requirePermission("verification:review"),
+  idValidation,
+  verificationRejectValidation,
+  rejectVerificationRequest,
+);
+
+// Owner or reviewer
+router.get("/:id", idValidation, getVerificationRequestById);
+router.get("/:id/documents/:index", idValidation, getVerificationDocument);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { verifyDocument } from "../controllers/documentRequestController";
+import { verifyLimiter } from "../middleware/rateLimiter";
+
+const router = Router();
+
+// Public: reached by scanning the QR code on an issued certificate
+router.get("/:serial", verifyLimiter, verifyDocument);
+
+export default router;
@@ -0,0 +1,45 @@
+import { Router } from "express";
+import {
+  getZones,
+  getZoneById,
+  createZone,
+  updateZone,
+  setZoneStaff,
+  deleteZone,
+} from "../controllers/zoneController";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+  idValidation,
+  zoneValidation,
+  zoneStaffValidation,
+} from "../middleware/validation";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", getZones);
+router.get("/:id", idValidation, getZoneById);
+router.post("/", requirePermission("zone:manage"), zoneValidation, createZone);
+router.put(
+  "/:id",
+  requirePermission("zone:manage"),
+  idValidation,
+  zoneValidation,
+  updateZone,
+);
+router.put(
+  "/:id/staff",
+  requirePermission("zone:manage"),
+  idValidation,
+  zoneStaffValidation,
+  setZoneStaff,
+);
+router.delete(
+  "/:id",
+  requirePermission("zone:manage"),
+  idValidation,
+  deleteZone,
+);
+
+export default router;
@@ -4,6 +4,8 @@ import app from "./app";
 import { connectDatabase, disconnectDatabase } from "./config/database";
 import { initializeSocket } from "./config/socket";
 import SystemConfig from "./models/SystemConfig";
+import Role from "./models/Role";
+import { startJobs, stopJobs } from "./jobs/scheduler";
 
 // Load environment variables
 dotenv.config();
@@ -23,6 +25,10 @@ const startServer = async (): Promise<void> => {
     await SystemConfig.initializeDefaults();
     console.log("✅ System configurations initialized");
 
+    // Seed built-in roles and permissions
+    await Role.initializeDefaults();
+    console.log("✅ Roles initialized");
+
     // Create HTTP server
     const httpServer = createServer(app);
 
@@ -38,6 +44,9 @@ const startServer = async (): Promise<void> => {
       console.log(`💚 Health Check: http://localhost:${PORT}/health`);
       console.log(`🔌 WebSocket: ws://localhost:${PORT}`);
     });
+
+    // Start background jobs (expiries, reminders)
+    startJobs();
   } catch (error: any) {
     console.error("❌ Failed to start server:", error);
     process.exit(1);
@@ -50,6 +59,8 @@ const startServer = async (): Promise<void> => {
 const gracefulShutdown = async (signal: string): Promise<void> => {
   console.log(`\n${signal} received. Starting graceful shutdown...`);
 
+  stopJobs();
+
   if (server) {
     server.close(async () => {
       console.log("✅ HTTP server closed");
@@ -1,24 +1,100 @@
 import { Request } from "express";
 import { Document, Types } from "mongoose";
 
+export interface IKnownDevice {
+  fingerprint: string;
+  ipAddress?: string;
+  userAgent?: string;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export type CivilStatus =
+  "single" | "married" | "live_in" | "widowed" | "separated" | "annulled";
+
+// Registry of Barangay Inhabitants (RBI) details
+export interface IResidentProfile {
+  middleName?: string;
+  suffix?: string;
+  birthDate?: Date;
+  birthPlace?: string;
+  sex?: "male" | "female";
+  civilStatus?: CivilStatus;
+  citizenship?: string;
+  occupation?: string;
+  isRegisteredVoter?: boolean;
+  precinctNumber?: string;
+  isSeniorCitizen?: boolean;
+  isPwd?: boolean;
+  isSoloParent?: boolean;
+  // Years of residency are derived from this date
+  residentSince?: Date;
+}
+
+export interface IStaffLeave {
+  startDate: Date;
+  endDate: Date;
+  reason?: string;
+}
+
+// Settings the complaint auto-assignment uses for staff who handle complaints
+export interface IStaffProfile {
+  // Complaint categories the staff member is best placed to handle
+  specializations: string[];
+  isAvailable?: boolean;
+  leaves: IStaffLeave[];
+  // Overrides the assignment policy's cap on open complaints
+  maxOpenComplaints?: number;
+  lastAutoAssignedAt?: Date;
+}
+
 export interface IUser extends Document {
   firstName: string;
   lastName: string;
   email: string;
   password: string;
-  role: "admin" | "staff" | "resident";
+  // Name of a Role document, e.g. "admin", "staff", "resident", "tanod"
+  role: string;
   address: string;
   phoneNumber: string;
   isVerified: boolean;
+  verifiedBy?: Types.ObjectId;
+  verifiedAt?: Date;
+  verificationMethod?: "email" | "document" | "manual";
+  householdId?: Types.ObjectId;
+  zoneId?: Types.ObjectId;
+  profile?: IResidentProfile;
+  staffProfile?: IStaffProfile;
   isActive?: boolean;
+  tokenVersion: number;
+  passwordChangedAt?: Date;
+  passwordResetToken?: string;
+  passwordResetExpires?: Date;
+  emailVerificationToken?: string;
+  emailVerificationExpires?: Date;
+  emailVerificationSentAt?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt?: Date;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number;
+  failedLoginAttempts: number;
+  lockUntil?: Date;
+  lockoutCount: number;
+  knownDevices?: IKnownDevice[];
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
+  changedPasswordAfter(tokenIssuedAt: number): boolean;
+  isLocked(): boolean;
   fullName: string;
 }
 
 export interface IService extends Document {
   userId: Types.ObjectId;
+  householdId?: Types.ObjectId;
+  zoneId?: Types.ObjectId;
   itemName: string;
   itemType: string;
   borrowDate: Date;
@@ -51,35 +127,76 @@ export interface IComplaintComment {
 
 export interface IComplaintHistory {
   action: string;
-  performedBy: Types.ObjectId;
+  performedBy?: Types.ObjectId;
   previousStatus?: string;
   newStatus?: string;
   notes?: string;
   timestamp: Date;
 }
 
-export interface IComplaint extends Document {
+export interface IComplaintReporter {
   userId: Types.ObjectId;
+  complaintId?: Types.ObjectId;
+  joinedAt: Date;
+}
+
+// Due dates come from the SLA policy at filing; breaches are set by the sweeper
+export interface IComplaintSla {
+  firstResponseDueAt?: Date;
+  resolutionDueAt?: Date;
+  firstRespondedAt?: Date;
+  responseBreachedAt?: Date;
+  resolutionBreachedAt?: Date;
+}
+
+export interface IComplaint extends Document {
+  userId?: Types.ObjectId;
+  isAnonymous: boolean;
+  sealedReporterId?: Types.ObjectId;
+  trackingCodeHash?: string;
   title: string;
   description: string;
   category: string;
-  status: "pending" | "in-progress" | "resolved" | "closed";
+  zoneId?: Types.ObjectId;
+  location?: { type: "Point"; coordinates: [number, number] };
+  landmark?: string;
+  locationIsResidence: boolean;
+  status:
+    | "pending"
+    | "in-progress"
+    | "resolved"
+    | "closed"
+    | "rejected"
+    | "duplicate";
   priority: "low" | "medium" | "high";
   attachments?: string[];
   response?: string;
   assignedTo?: Types.ObjectId;
   resolvedBy?: Types.ObjectId;
   resolvedAt?: Date;
+  duplicateOf?: Types.ObjectId;
+  reporters: IComplaintReporter[];
+  possibleDuplicates: { complaintId: Types.ObjectId; score: number }[];
+  reopenCount: number;
+  reopenedAt?: Date;
   comments: IComplaintComment[];
   history: IComplaintHistory[];
   rating?: number;
   feedback?: string;
   escalationLevel: number;
   lastEscalatedAt?: Date;
+  sla?: IComplaintSla;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Who registered and, optionally, the household they registered on behalf of
+export interface IEventRegistration {
+  userId: Types.ObjectId;
+  householdId?: Types.ObjectId;
+  registeredAt: Date;
+}
+
 export interface IEvent extends Document {
   title: string;
   description: string;
@@ -89,6 +206,7 @@ export interface IEvent extends Document {
   organizer: Types.ObjectId;
   maxAttendees?: number;
   attendees: Types.ObjectId[];
+  registrations: IEventRegistration[];
   category: string;
   imageUrl?: string;
   status: "upcoming" | "ongoing" | "completed" | "cancelled";
@@ -103,7 +221,16 @@ export interface INotification extends Document {
   type: "info" | "warning" | "success" | "error";
   isRead: boolean;
   relatedId?: Types.ObjectId;
-  relatedType?: "service" | "complaint" | "event" | "announcement";
+  relatedType?:
+    | "service"
+    | "complaint"
+    | "event"
+    | "announcement"
+    | "verification"
+    | "document"
+    | "case"
+    | "business"
+    | "disaster";
   createdAt: Date;
 }
 
@@ -111,12 +238,7 @@ export interface IAnnouncement extends Document {
   title: string;
   content: string;
   category:
-    | "general"
-    | "emergency"
-    | "event"
-    | "maintenance"
-    | "health"
-    | "security";
+    "general" | "emergency" | "event" | "maintenance" | "health" | "security";
   priority: "low" | "medium" | "high" | "urgent";
   author: Types.ObjectId;
   imageUrl?: string;
@@ -144,6 +266,7 @@ export interface AuthRequest extends Request {
   user?: {
     id: string;
     role: string;
+    sessionId?: string;
   };
   id?: string;
 }
@@ -151,6 +274,10 @@ export interface AuthRequest extends Request {
 export interface JWTPayload {
   id: string;
   role: string;
+  sid?: string;
+  tv?: number;
+  iat?: number;
+  exp?: number;
 }
 
 export interface DashboardStats {
@@ -181,4 +308,4 @@ export interface FilterQuery {
   priority?: string;
   startDate?: Date;
   endDate?: Date;
-}
\ No newline at end of file
+}
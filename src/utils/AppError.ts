@@ -4,11 +4,14 @@
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  // Machine-readable reason the client can branch on
+  code?: string;
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code?: string) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.code = code;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -27,8 +30,8 @@ export class UnauthorizedError extends AppError {
 }
 
 export class ForbiddenError extends AppError {
-  constructor(message: string = "Access forbidden") {
-    super(message, 403);
+  constructor(message: string = "Access forbidden", code?: string) {
+    super(message, 403, code);
   }
 }
 
@@ -43,3 +46,15 @@ export class ConflictError extends AppError {
     super(message, 409);
   }
 }
+
+export class LockedError extends AppError {
+  constructor(message: string = "Resource is locked") {
+    super(message, 423);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(message: string = "Too many requests") {
+    super(message, 429);
+  }
+}
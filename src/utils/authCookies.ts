@@ -0,0 +1,49 @@
+import { CookieOptions, Response } from "express";
+import jwt from "jsonwebtoken";
+
+export const ACCESS_TOKEN_COOKIE = "accessToken";
+export const REFRESH_TOKEN_COOKIE = "refreshToken";
+
+// The refresh token is only needed by the auth routes
+const REFRESH_TOKEN_COOKIE_PATH = "/api/v1/auth";
+
+const baseCookieOptions = (): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite:
+    (process.env.COOKIE_SAME_SITE as CookieOptions["sameSite"]) || "lax",
+});
+
+const getTokenExpiry = (token: string): Date | undefined => {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  return decoded?.exp ? new Date(decoded.exp * 1000) : undefined;
+};
+
+/**
+ * Store the session tokens in httpOnly cookies for browser clients
+ */
+export const setAuthCookies = (
+  res: Response,
+  tokens: { token: string; refreshToken: string },
+): void => {
+  res.cookie(ACCESS_TOKEN_COOKIE, tokens.token, {
+    ...baseCookieOptions(),
+    expires: getTokenExpiry(tokens.token),
+  });
+  res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    ...baseCookieOptions(),
+    path: REFRESH_TOKEN_COOKIE_PATH,
+    expires: getTokenExpiry(tokens.refreshToken),
+  });
+};
+
+/**
+ * Remove the session cookies
+ */
+export const clearAuthCookies = (res: Response): void => {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, baseCookieOptions());
+  res.clearCookie(REFRESH_TOKEN_COOKIE, {
+    ...baseCookieOptions(),
+    path: REFRESH_TOKEN_COOKIE_PATH,
+  });
+};
@@ -0,0 +1,256 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import crypto from "crypto";
+import path from "path";
+import fs from "fs";
+
+// Issued certificates are only streamed through the document request routes
+export const certificatesDir = path.join(
+  process.cwd(),
+  "uploads",
+  "certificates",
+);
+
+// Ensure certificates directory exists
+if (!fs.existsSync(certificatesDir)) {
+  fs.mkdirSync(certificatesDir, { recursive: true });
+}
+
+export interface BarangayInfo {
+  name: string;
+  municipality: string;
+  province: string;
+}
+
+export const getBarangayInfo = (): BarangayInfo => ({
+  name: process.env.BARANGAY_NAME || "Barangay",
+  municipality: process.env.BARANGAY_MUNICIPALITY || "",
+  province: process.env.BARANGAY_PROVINCE || "",
+});
+
+const getSigningKey = (): Buffer => {
+  const secret =
+    process.env.CERTIFICATE_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is not configured");
+  }
+  return crypto
+    .createHmac("sha256", secret)
+    .update("certificate-serial")
+    .digest();
+};
+
+const signatureFor = (serialNumber: string): string =>
+  crypto
+    .createHmac("sha256", getSigningKey())
+    .update(serialNumber)
+    .digest("base64url")
+    .slice(0, 16);
+
+/**
+ * Append an HMAC to a serial number so verification codes cannot be guessed
+ * from the sequential serials printed on certificates
+ */
+export const signSerial = (serialNumber: string): string =>
+  `${serialNumber}.${signatureFor(serialNumber)}`;
+
+/**
+ * Returns the serial number of a signed serial, or null when the signature
+ * does not match
+ */
+export const verifySignedSerial = (signedSerial: string): string | null => {
+  const separator = signedSerial.lastIndexOf(".");
+  if (separator <= 0) return null;
+
+  const serialNumber = signedSerial.slice(0, separator);
+  const expected = Buffer.from(signatureFor(serialNumber));
+  const actual = Buffer.from(signedSerial.slice(separator + 1));
+
+  return actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+    ? serialNumber
+    : null;
+};
+
+export const getVerificationUrl = (signedSerial: string): string => {
+  const baseUrl =
+    process.env.PUBLIC_API_URL ||
+    `http://localhost:${process.env.PORT || 5000}`;
+  return `${baseUrl.replace(/\/$/, "")}/api/v1/verify/${encodeURIComponent(signedSerial)}`;
+};
+
+/**
+ * "Juan Dela Cruz" becomes "J*** D*** C***"
+ */
+export const maskName = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => `${part[0].toUpperCase()}***`)
+    .join(" ");
+
+export interface CertificateContent {
+  serialNumber: string;
+  title: string;
+  body: string;
+  issuedAt: Date;
+  validUntil?: Date;
+  fee: number;
+  signedSerial: string;
+  official: {
+    name: string;
+    position: string;
+  };
+}
+
+/**
+ * Fill `{{placeholder}}` tokens of a document type template. Unknown
+ * placeholders are left empty rather than printed.
+ */
+export const renderCertificateTemplate = (
+  template: string,
+  values: Record<string, string | undefined>,
+): string =>
+  template.replace(/{{\s*(\w+)\s*}}/g, (_match, key) => values[key] ?? "");
+
+const formatLongDate = (date: Date): string =>
+  date.toLocaleDateString("en-PH", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+/**
+ * Letterhead shared by certificates and Katarungang Pambarangay forms
+ */
+export const drawBarangayHeader = (
+  doc: PDFKit.PDFDocument,
+  office = "OFFICE OF THE PUNONG BARANGAY",
+): void => {
+  const barangay = getBarangayInfo();
+
+  doc.font("Helvetica").fontSize(11);
+  doc.text("Republic of the Philippines", { align: "center" });
+  if (barangay.province) {
+    doc.text(`Province of ${barangay.province}`, { align: "center" });
+  }
+  if (barangay.municipality) {
+    doc.text(barangay.municipality, { align: "center" });
+  }
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .text(barangay.name.toUpperCase(), { align: "center" });
+  doc.font("Helvetica").fontSize(10).text(office, { align: "center" });
+
+  doc
+    .moveDown(0.5)
+    .moveTo(72, doc.y)
+    .lineTo(doc.page.width - 72, doc.y)
+    .stroke();
+};
+
+/**
+ * Render a certificate with the barangay header, serial number and the
+ * issuing official's signature block, plus a QR code pointing to the public
+ * verification endpoint. Resolves with the file path.
+ */
+export const generateCertificatePdf = async (
+  content: CertificateContent,
+  fileName: string,
+): Promise<string> => {
+  const filePath = path.join(certificatesDir, fileName);
+  const barangay = getBarangayInfo();
+  const qrCode = await QRCode.toBuffer(
+    getVerificationUrl(content.signedSerial),
+    { margin: 1, width: 240 },
+  );
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: 72 });
+    const stream = fs.createWriteStream(filePath);
+    stream.on("finish", () => resolve(filePath));
+    stream.on("error", reject);
+    doc.pipe(stream);
+
+    drawBarangayHeader(doc);
+
+    doc
+      .moveDown(0.5)
+      .fontSize(9)
+      .text(`Serial No.: ${content.serialNumber}`, { align: "right" });
+
+    // Title and body
+    doc
+      .moveDown(2)
+      .font("Helvetica-Bold")
+      .fontSize(18)
+      .text(content.title.toUpperCase(), { align: "center" });
+
+    doc
+      .moveDown(2)
+      .font("Helvetica-Bold")
+      .fontSize(12)
+      .text("TO WHOM IT MAY CONCERN:");
+
+    doc.moveDown().font("Helvetica").fontSize(12);
+    for (const paragraph of content.body.split(/\n\s*\n/)) {
+      doc.text(paragraph.trim(), { align: "justify", indent: 36 });
+      doc.moveDown();
+    }
+
+    doc.text(
+      `Issued this ${formatLongDate(content.issuedAt)} at ${barangay.name}` +
+        (barangay.municipality ? `, ${barangay.municipality}` : "") +
+        ".",
+      { align: "justify", indent: 36 },
+    );
+
+    // Signature block
+    doc.moveDown(4);
+    const signatureX = doc.page.width / 2;
+    doc
+      .font("Helvetica-Bold")
+      .text(content.official.name.toUpperCase(), signatureX, doc.y, {
+        width: doc.page.width / 2 - 72,
+        align: "center",
+      });
+    doc.font("Helvetica").text(content.official.position, {
+      width: doc.page.width / 2 - 72,
+      align: "center",
+    });
+
+    // Verification QR code, bottom left
+    const qrSize = 90;
+    const qrY = doc.page.height - 108 - qrSize - 24;
+    doc.image(qrCode, 72, qrY, { width: qrSize, height: qrSize });
+    doc
+      .fontSize(8)
+      .text("Scan to verify or enter this code:", 72 + qrSize + 12, qrY + 30, {
+        width: 220,
+      })
+      .font("Courier")
+      .text(content.signedSerial, { width: 220 })
+      .font("Helvetica");
+
+    // Footer
+    doc
+      .fontSize(9)
+      .text(
+        [
+          `Fee: PHP ${content.fee.toFixed(2)}`,
+          content.validUntil
+            ? `Valid until: ${formatLongDate(content.validUntil)}`
+            : "",
+          "Not valid without the official dry seal.",
+        ]
+          .filter(Boolean)
+          .join("    "),
+        72,
+        doc.page.height - 108,
+        { width: doc.page.width - 144, align: "center" },
+      );
+
+    doc.end();
+  });
+};
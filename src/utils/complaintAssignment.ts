@@ -0,0 +1,157 @@
+import { Types } from "mongoose";
+import Complaint, {
+  ComplaintAssignmentPolicy,
+  DEFAULT_COMPLAINT_ASSIGNMENT_POLICY,
+} from "../models/Complaint";
+import Role from "../models/Role";
+import SystemConfig from "../models/SystemConfig";
+import User from "../models/User";
+import Zone from "../models/Zone";
+import { IUser } from "../types";
+import { SLA_OPEN_STATUSES } from "./complaintSla";
+
+/**
+ * Picks who a new complaint goes to. Staff whose role can handle complaints
+ * are considered when active, available, not on leave and under their cap on
+ * open complaints. Admins oversee the queue and are never auto-assigned.
+ */
+
+export interface AssignmentCandidate {
+  user: IUser;
+  openComplaints: number;
+  specialized: boolean;
+  inZone: boolean;
+}
+
+export interface AssignmentExclusion {
+  userId: Types.ObjectId;
+  name: string;
+  reason: string;
+}
+
+export interface AssignmentRanking {
+  strategy: ComplaintAssignmentPolicy["strategy"];
+  // Best first; empty when nobody can take the complaint
+  candidates: AssignmentCandidate[];
+  excluded: AssignmentExclusion[];
+}
+
+export const getAssignmentPolicy =
+  async (): Promise<ComplaintAssignmentPolicy> => {
+    const config = await SystemConfig.findOne({
+      key: "complaint_assignment_policy",
+    });
+    return { ...DEFAULT_COMPLAINT_ASSIGNMENT_POLICY, ...config?.value };
+  };
+
+const isOnLeave = (user: IUser, now: Date): boolean =>
+  (user.staffProfile?.leaves || []).some(
+    (leave) => leave.startDate <= now && leave.endDate >= now,
+  );
+
+const lastAssigned = (candidate: AssignmentCandidate): number =>
+  candidate.user.staffProfile?.lastAutoAssignedAt?.getTime() || 0;
+
+export const rankAssignees = async (
+  category: string,
+  zoneId: Types.ObjectId | string | undefined,
+  policy: ComplaintAssignmentPolicy,
+): Promise<AssignmentRanking> => {
+  const now = new Date();
+  const handlerRoles = await Role.find({
+    permissions: "complaint:handle",
+    name: { $ne: "admin" },
+  }).distinct("name");
+
+  const [staff, zone] = await Promise.all([
+    User.find({ role: { $in: handlerRoles }, isActive: true }),
+    zoneId ? Zone.findById(zoneId).select("assignedStaff") : null,
+  ]);
+
+  const openCounts = await Complaint.aggregate([
+    {
+      $match: {
+        assignedTo: { $in: staff.map((user) => user._id) },
+        status: { $in: SLA_OPEN_STATUSES },
+      },
+    },
+    { $group: { _id: "$assignedTo", count: { $sum: 1 } } },
+  ]);
+  const openByStaff = new Map<string, number>(
+    openCounts.map((row) => [row._id.toString(), row.count]),
+  );
+  const zoneStaff = new Set(
+    (zone?.assignedStaff || []).map((id) => id.toString()),
+  );
+
+  const excluded: AssignmentExclusion[] = [];
+  const exclude = (user: IUser, reason: string) =>
+    excluded.push({
+      userId: user._id as Types.ObjectId,
+      name: `${user.firstName} ${user.lastName}`,
+      reason,
+    });
+
+  let pool: AssignmentCandidate[] = [];
+  for (const user of staff) {
+    const openComplaints = openByStaff.get(user._id.toString()) || 0;
+    const cap =
+      user.staffProfile?.maxOpenComplaints ?? policy.maxOpenComplaints;
+
+    if (user.staffProfile?.isAvailable === false) {
+      exclude(user, "Marked unavailable");
+    } else if (isOnLeave(user, now)) {
+      exclude(user, "On leave");
+    } else if (cap > 0 && openComplaints >= cap) {
+      exclude(user, `At capacity (${openComplaints}/${cap} open)`);
+    } else {
+      pool.push({
+        user,
+        openComplaints,
+        specialized: (user.staffProfile?.specializations || []).includes(
+          category,
+        ),
+        inZone: zoneStaff.has(user._id.toString()),
+      });
+    }
+  }
+
+  if (policy.preferZoneStaff && pool.some((candidate) => candidate.inZone)) {
+    pool = pool.filter((candidate) => candidate.inZone);
+  }
+  if (
+    policy.strategy === "skill_match" &&
+    pool.some((candidate) => candidate.specialized)
+  ) {
+    pool = pool.filter((candidate) => candidate.specialized);
+  }
+
+  pool.sort((a, b) => {
+    if (policy.strategy !== "round_robin") {
+      if (a.openComplaints !== b.openComplaints) {
+        return a.openComplaints - b.openComplaints;
+      }
+      if (a.specialized !== b.specialized) return a.specialized ? -1 : 1;
+    }
+    // Longest since their last auto-assignment goes next
+    return lastAssigned(a) - lastAssigned(b);
+  });
+
+  return { strategy: policy.strategy, candidates: pool, excluded };
+};
+
+/**
+ * Why a candidate was picked, for the complaint history
+ */
+export const describeAssignment = (
+  strategy: ComplaintAssignmentPolicy["strategy"],
+  candidate: AssignmentCandidate,
+  category: string,
+): string => {
+  const reasons = [`${candidate.openComplaints} open complaint(s)`];
+  if (candidate.specialized) reasons.push(`specializes in ${category}`);
+  if (candidate.inZone) reasons.push("responsible for the complaint's zone");
+
+  const { firstName, lastName } = candidate.user;
+  return `Assigned to ${firstName} ${lastName} by ${strategy.replace("_", "-")} strategy: ${reasons.join(", ")}`;
+};
@@ -0,0 +1,206 @@
+import { Types } from "mongoose";
+import Complaint, {
+  ComplaintDuplicatePolicy,
+  DEFAULT_COMPLAINT_DUPLICATE_POLICY,
+} from "../models/Complaint";
+import SystemConfig from "../models/SystemConfig";
+import { IComplaint } from "../types";
+import { SLA_OPEN_STATUSES } from "./complaintSla";
+import { GeoPoint, geoWithinQuery } from "./geo";
+
+/**
+ * Finding complaints that report the same problem, and folding a duplicate
+ * into the complaint it repeats
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Words that say nothing about the problem itself (English and Filipino)
+const STOPWORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "that",
+  "this",
+  "there",
+  "near",
+  "our",
+  "from",
+  "have",
+  "has",
+  "was",
+  "are",
+  "not",
+  "please",
+  "ang",
+  "mga",
+  "yung",
+  "nang",
+  "may",
+  "kami",
+  "namin",
+  "dito",
+  "doon",
+  "po",
+]);
+
+const keywords = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 3 && !STOPWORDS.has(word)),
+  );
+
+// Share of the shorter text's keywords found in the other
+const overlap = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared += 1;
+  }
+  return shared / Math.min(a.size, b.size);
+};
+
+export interface SimilarComplaint {
+  complaintId: Types.ObjectId;
+  title: string;
+  status: string;
+  createdAt: Date;
+  isAnonymous: boolean;
+  score: number;
+}
+
+export interface ComplaintText {
+  category: string;
+  title: string;
+  description: string;
+  zoneId?: Types.ObjectId | string;
+  location?: GeoPoint;
+}
+
+export const getDuplicatePolicy =
+  async (): Promise<ComplaintDuplicatePolicy> => {
+    const config = await SystemConfig.findOne({
+      key: "complaint_duplicate_policy",
+    });
+    return { ...DEFAULT_COMPLAINT_DUPLICATE_POLICY, ...config?.value };
+  };
+
+/**
+ * Open complaints in the same category and zone (or nearby, when pinned),
+ * filed within the policy window, whose text overlaps enough with the given
+ * one. Best match first. Residents must never be pointed at anonymous
+ * complaints, so their lookups pass `excludeAnonymous`.
+ */
+export const findSimilarComplaints = async (
+  complaint: ComplaintText,
+  policy: ComplaintDuplicatePolicy,
+  options: { excludeAnonymous?: boolean } = {},
+): Promise<SimilarComplaint[]> => {
+  const query: any = {
+    category: complaint.category,
+    status: { $in: SLA_OPEN_STATUSES },
+    createdAt: { $gte: new Date(Date.now() - policy.windowDays * DAY_MS) },
+  };
+  if (options.excludeAnonymous) query.isAnonymous = { $ne: true };
+  if (complaint.location) {
+    // Unpinned complaints in the same zone can still match on text
+    const [lng, lat] = complaint.location.coordinates;
+    query.$or = [
+      {
+        location: { $exists: false },
+        ...(complaint.zoneId && { zoneId: complaint.zoneId }),
+      },
+      {
+        location: geoWithinQuery({ lat, lng, radius: policy.nearbyMeters }),
+      },
+    ];
+  } else if (complaint.zoneId) {
+    query.zoneId = complaint.zoneId;
+  }
+
+  const recent = await Complaint.find(query)
+    .select("title description status isAnonymous createdAt")
+    .sort({ createdAt: -1 })
+    .limit(200);
+
+  const words = keywords(`${complaint.title} ${complaint.description}`);
+
+  return recent
+    .map((candidate) => ({
+      complaintId: candidate._id as Types.ObjectId,
+      title: candidate.title,
+      status: candidate.status,
+      createdAt: candidate.createdAt,
+      isAnonymous: !!candidate.isAnonymous,
+      score:
+        Math.round(
+          overlap(
+            words,
+            keywords(`${candidate.title} ${candidate.description}`),
+          ) * 100,
+        ) / 100,
+    }))
+    .filter((candidate) => candidate.score >= policy.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, policy.maxSuggestions);
+};
+
+/**
+ * Move the reporters, comments and attachments of a complaint just marked
+ * duplicate onto the complaint it duplicates
+ */
+export const foldDuplicate = async (
+  duplicate: IComplaint,
+  performedBy: string | undefined,
+): Promise<void> => {
+  const primary = await Complaint.findById(duplicate.duplicateOf).select(
+    "userId reporters",
+  );
+  if (!primary) return;
+
+  const now = new Date();
+  const known = new Set(
+    primary.reporters.map((reporter) => reporter.userId.toString()),
+  );
+  if (primary.userId) known.add(primary.userId.toString());
+  // Anonymous filers are never added as reporters
+  const filer = duplicate.userId
+    ? [{ userId: duplicate.userId, complaintId: duplicate._id, joinedAt: now }]
+    : [];
+  const reporters = [...filer, ...duplicate.reporters].filter((reporter) => {
+    const userId = reporter.userId.toString();
+    if (known.has(userId)) return false;
+    known.add(userId);
+    return true;
+  });
+
+  await Complaint.updateOne(
+    { _id: primary._id },
+    {
+      $addToSet: { attachments: { $each: duplicate.attachments || [] } },
+      $push: {
+        reporters: { $each: reporters },
+        comments: {
+          $each: duplicate.comments.map((comment) => ({
+            userId: comment.userId,
+            message: comment.message,
+            isInternal: comment.isInternal,
+            createdAt: comment.createdAt,
+          })),
+          $sort: { createdAt: 1 },
+        },
+        history: {
+          action: "Duplicate merged",
+          performedBy,
+          notes: `Merged complaint ${duplicate._id} "${duplicate.title}"`,
+          timestamp: now,
+        },
+      },
+    },
+  );
+};
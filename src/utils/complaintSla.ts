@@ -0,0 +1,225 @@
+import { Types } from "mongoose";
+import Complaint, {
+  ComplaintSlaPolicy,
+  ComplaintSlaRule,
+  DEFAULT_COMPLAINT_SLA_POLICY,
+} from "../models/Complaint";
+import Notification from "../models/Notification";
+import Role from "../models/Role";
+import SystemConfig from "../models/SystemConfig";
+import User from "../models/User";
+import { IComplaint, IComplaintSla } from "../types";
+import { emitToUser } from "../config/socket";
+
+/**
+ * Complaint SLA due dates, breach tracking and escalation, shared by the
+ * complaint handlers and the SLA sweeper job
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Statuses the SLA clock runs in; leaving them stops the resolution clock
+export const SLA_OPEN_STATUSES = ["pending", "in-progress"];
+
+export const getSlaPolicy = async (): Promise<ComplaintSlaPolicy> => {
+  const config = await SystemConfig.findOne({ key: "complaint_sla_policy" });
+  return { ...DEFAULT_COMPLAINT_SLA_POLICY, ...config?.value };
+};
+
+/**
+ * The most specific matching rule; a category match outranks a priority match
+ */
+export const findSlaRule = (
+  policy: ComplaintSlaPolicy,
+  category: string,
+  priority: string,
+): ComplaintSlaRule | undefined => {
+  let best: ComplaintSlaRule | undefined;
+  let bestScore = -1;
+
+  for (const rule of policy.rules) {
+    if (rule.category && rule.category !== category) continue;
+    if (rule.priority && rule.priority !== priority) continue;
+
+    const score = (rule.category ? 2 : 0) + (rule.priority ? 1 : 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+export const computeSlaDueDates = (
+  policy: ComplaintSlaPolicy,
+  category: string,
+  priority: string,
+  filedAt: Date,
+): IComplaintSla => {
+  const rule = findSlaRule(policy, category, priority);
+  if (!rule) return {};
+
+  return {
+    firstResponseDueAt: new Date(
+      filedAt.getTime() + rule.firstResponseHours * HOUR_MS,
+    ),
+    resolutionDueAt: new Date(
+      filedAt.getTime() + rule.resolutionHours * HOUR_MS,
+    ),
+  };
+};
+
+/**
+ * `$set` fields recording staff progress against the SLA: the first response
+ * and, when the complaint leaves the open statuses, a late resolution
+ */
+export const slaProgressUpdate = (
+  complaint: IComplaint,
+  newStatus: string | undefined,
+  now: Date,
+): Record<string, Date> => {
+  const sla = complaint.sla;
+  const update: Record<string, Date> = {};
+  // Complaints filed before SLAs were configured have no due dates
+  if (!sla?.resolutionDueAt) return update;
+
+  if (!sla.firstRespondedAt) {
+    update["sla.firstRespondedAt"] = now;
+    if (
+      !sla.responseBreachedAt &&
+      sla.firstResponseDueAt &&
+      now > sla.firstResponseDueAt
+    ) {
+      update["sla.responseBreachedAt"] = now;
+    }
+  }
+
+  if (
+    newStatus &&
+    !SLA_OPEN_STATUSES.includes(newStatus) &&
+    !sla.resolutionBreachedAt &&
+    now > sla.resolutionDueAt
+  ) {
+    update["sla.resolutionBreachedAt"] = now;
+  }
+
+  return update;
+};
+
+/**
+ * Query conditions for ?slaBreached=response|resolution|true and ?overdue=true
+ */
+export const slaFilter = (
+  slaBreached: unknown,
+  overdue: unknown,
+): Record<string, any>[] => {
+  const conditions: Record<string, any>[] = [];
+
+  if (slaBreached === "response") {
+    conditions.push({ "sla.responseBreachedAt": { $exists: true } });
+  } else if (slaBreached === "resolution") {
+    conditions.push({ "sla.resolutionBreachedAt": { $exists: true } });
+  } else if (slaBreached === "true") {
+    conditions.push({
+      $or: [
+        { "sla.responseBreachedAt": { $exists: true } },
+        { "sla.resolutionBreachedAt": { $exists: true } },
+      ],
+    });
+  }
+
+  // Past its resolution due date right now, even before the sweeper runs
+  if (overdue === "true") {
+    conditions.push({
+      status: { $in: SLA_OPEN_STATUSES },
+      "sla.resolutionDueAt": { $lt: new Date() },
+    });
+  }
+
+  return conditions;
+};
+
+export interface EscalationOptions {
+  performedBy?: string;
+  // Automatic escalations stop at the policy's maximum level
+  maxLevel?: number;
+  // Only escalate when not already escalated since this time
+  notEscalatedSince?: Date;
+}
+
+/**
+ * Raise a complaint's escalation level and tell the assignee and everyone
+ * overseeing the complaint queue.
+ * Returns null when the complaint is missing or the options rule it out.
+ */
+export const raiseEscalation = async (
+  complaintId: Types.ObjectId | string,
+  reason: string,
+  options: EscalationOptions = {},
+): Promise<IComplaint | null> => {
+  const now = new Date();
+  const filter: any = { _id: complaintId };
+  if (options.maxLevel !== undefined) {
+    filter.escalationLevel = { $lt: options.maxLevel };
+  }
+  if (options.notEscalatedSince) {
+    filter.$or = [
+      { lastEscalatedAt: { $exists: false } },
+      { lastEscalatedAt: { $lt: options.notEscalatedSince } },
+    ];
+  }
+
+  const complaint = await Complaint.findOneAndUpdate(
+    filter,
+    {
+      $inc: { escalationLevel: 1 },
+      lastEscalatedAt: now,
+      priority: "high",
+      $push: {
+        history: {
+          action: "Complaint escalated",
+          performedBy: options.performedBy,
+          notes: reason,
+          timestamp: now,
+        },
+      },
+    },
+    { new: true },
+  );
+  if (!complaint) return null;
+
+  // Everyone who oversees the complaint queue, whatever their role is called
+  const overseerRoles = await Role.namesWithPermission(
+    "complaint:view_all",
+    "complaint:assign",
+  );
+  const overseers = await User.find({
+    role: { $in: overseerRoles },
+    isActive: true,
+  }).select("_id");
+  const recipients = new Set(overseers.map((user) => user._id.toString()));
+  if (complaint.assignedTo) recipients.add(complaint.assignedTo.toString());
+  if (options.performedBy) recipients.delete(options.performedBy);
+
+  await Notification.insertMany(
+    [...recipients].map((userId) => ({
+      userId,
+      title: "Complaint Escalated",
+      message: `Complaint "${complaint.title}" has been escalated (Level ${complaint.escalationLevel}): ${reason}`,
+      type: "warning",
+      relatedId: complaint._id,
+      relatedType: "complaint",
+    })),
+  );
+
+  for (const userId of recipients) {
+    emitToUser(userId, "complaint:escalated", {
+      complaintId: complaint._id,
+      escalationLevel: complaint.escalationLevel,
+      reason,
+    });
+  }
+
+  return complaint;
+};
@@ -0,0 +1,199 @@
+import Complaint, {
+  ComplaintStatus,
+  ComplaintWorkflow,
+  DEFAULT_COMPLAINT_WORKFLOW,
+} from "../models/Complaint";
+import Notification from "../models/Notification";
+import SystemConfig from "../models/SystemConfig";
+import { IComplaint } from "../types";
+import { emitToUser, emitToComplaint } from "../config/socket";
+import { ConflictError, ValidationError } from "./AppError";
+import { slaProgressUpdate } from "./complaintSla";
+
+/**
+ * Complaint status rules shared by the single and bulk status updates
+ */
+
+export interface ComplaintStatusChange {
+  status: ComplaintStatus;
+  response?: string;
+  duplicateOf?: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  response: "A response",
+  duplicateOf: "The original complaint (duplicateOf)",
+};
+
+const STATUS_MESSAGES: Record<string, string> = {
+  pending: "Your complaint is back in the queue for review.",
+  "in-progress": "Your complaint is now being processed by our team.",
+  resolved: "Your complaint has been resolved. Please provide feedback!",
+  closed: "Your complaint has been closed.",
+  rejected: "Your complaint was not accepted.",
+  duplicate:
+    "Your complaint repeats one already being handled and has been linked to it.",
+};
+
+export const getComplaintWorkflow = async (): Promise<ComplaintWorkflow> => {
+  const config = await SystemConfig.findOne({ key: "complaint_workflow" });
+  return { ...DEFAULT_COMPLAINT_WORKFLOW, ...config?.value };
+};
+
+/**
+ * Throw when the workflow does not allow the change or a required field is
+ * missing
+ */
+export const checkStatusChange = async (
+  workflow: ComplaintWorkflow,
+  complaint: IComplaint,
+  change: ComplaintStatusChange,
+): Promise<void> => {
+  const allowed = workflow.transitions[complaint.status] || [];
+  if (!allowed.includes(change.status)) {
+    throw new ConflictError(
+      allowed.length === 0
+        ? `A ${complaint.status} complaint can no longer change status`
+        : `A ${complaint.status} complaint can only move to ${allowed.join(", ")}`,
+    );
+  }
+
+  for (const field of workflow.requiredFields[change.status] || []) {
+    if (!change[field]?.toString().trim()) {
+      throw new ValidationError(
+        `${FIELD_LABELS[field]} is required to mark a complaint ${change.status}`,
+      );
+    }
+  }
+
+  if (change.status === "duplicate" && change.duplicateOf) {
+    if (change.duplicateOf === complaint._id.toString()) {
+      throw new ValidationError("A complaint cannot duplicate itself");
+    }
+    const original = await Complaint.findById(change.duplicateOf).select(
+      "status",
+    );
+    if (!original) {
+      throw new ValidationError("The original complaint was not found");
+    }
+    if (original.status === "duplicate" || original.status === "rejected") {
+      throw new ValidationError(
+        `The original complaint is itself ${original.status}`,
+      );
+    }
+  }
+};
+
+/**
+ * Update document for a checked status change, including its history entry
+ */
+export const buildStatusUpdate = (
+  complaint: IComplaint,
+  change: ComplaintStatusChange,
+  performedBy: string | undefined,
+): any => {
+  const update: any = { status: change.status };
+
+  if (change.response) {
+    update.response = change.response;
+  }
+
+  // Closing a resolved complaint keeps the original resolution time; moving
+  // it back to work clears it, as a reopen does, so the next resolution
+  // counts from then
+  const resolves = change.status === "resolved" || change.status === "closed";
+  if (resolves && !complaint.resolvedAt) {
+    update.resolvedBy = performedBy;
+    update.resolvedAt = new Date();
+  } else if (!resolves && complaint.resolvedAt) {
+    update.$unset = { resolvedAt: 1, resolvedBy: 1 };
+  }
+
+  if (change.status === "duplicate" && change.duplicateOf) {
+    update.duplicateOf = change.duplicateOf;
+  }
+
+  // A staff status change is the first response if none came before
+  Object.assign(
+    update,
+    slaProgressUpdate(complaint, change.status, new Date()),
+  );
+
+  update.$push = {
+    history: {
+      action: "Status updated",
+      performedBy,
+      previousStatus: complaint.status,
+      newStatus: change.status,
+      notes:
+        change.response ||
+        (update.duplicateOf ? `Duplicate of ${change.duplicateOf}` : undefined),
+      timestamp: new Date(),
+    },
+  };
+
+  return update;
+};
+
+/**
+ * Tell the filer, linked reporters and anyone watching the complaint about a
+ * status change
+ */
+export const notifyStatusChange = async (
+  complaint: IComplaint,
+  previousStatus: string,
+  performedBy: string | undefined,
+): Promise<void> => {
+  // Anonymous filers follow the status through their tracking code
+  if (complaint.userId) {
+    await Notification.create({
+      userId: complaint.userId,
+      title: "Complaint Update",
+      message:
+        STATUS_MESSAGES[complaint.status] ||
+        "Your complaint status has been updated.",
+      type: complaint.status === "resolved" ? "success" : "info",
+      relatedId: complaint._id,
+      relatedType: "complaint",
+    });
+
+    emitToUser(complaint.userId.toString(), "complaint:status-changed", {
+      complaintId: complaint._id,
+      status: complaint.status,
+      previousStatus,
+    });
+  }
+
+  // Residents who reported the same problem follow this complaint too
+  const reporters = (complaint.reporters || []).map((reporter) =>
+    reporter.userId.toString(),
+  );
+  if (reporters.length > 0) {
+    await Notification.insertMany(
+      reporters.map((userId) => ({
+        userId,
+        title: "Update on a Problem You Reported",
+        message: `"${complaint.title}": ${
+          STATUS_MESSAGES[complaint.status] ||
+          "The complaint status has been updated."
+        }`,
+        type: complaint.status === "resolved" ? "success" : "info",
+        relatedId: complaint._id,
+        relatedType: "complaint",
+      })),
+    );
+    for (const userId of reporters) {
+      emitToUser(userId, "complaint:status-changed", {
+        complaintId: complaint._id,
+        status: complaint.status,
+        previousStatus,
+      });
+    }
+  }
+
+  emitToComplaint(complaint._id.toString(), "status:updated", {
+    status: complaint.status,
+    response: complaint.response,
+    updatedBy: performedBy,
+  });
+};
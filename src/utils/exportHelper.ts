@@ -101,6 +101,226 @@ export const exportComplaintsToExcel = async (
   return filePath;
 };
 
+// Whole years elapsed since a date, e.g. age or years of residency
+const yearsSince = (date?: Date): number | "" => {
+  if (!date) return "";
+  const from = new Date(date);
+  const now = new Date();
+  let years = now.getFullYear() - from.getFullYear();
+  if (
+    now.getMonth() < from.getMonth() ||
+    (now.getMonth() === from.getMonth() && now.getDate() < from.getDate())
+  ) {
+    years--;
+  }
+  return years;
+};
+
+const formatDate = (date?: Date): string =>
+  date ? new Date(date).toISOString().split("T")[0] : "";
+
+const yesNo = (value?: boolean): string =>
+  value === undefined || value === null ? "" : value ? "Yes" : "No";
+
+/**
+ * Write residents in the Registry of Barangay Inhabitants (RBI) layout.
+ * Expects users with `householdId` populated with address, purok and members.
+ */
+export const exportResidentsToRbiExcel = async (
+  residents: any[],
+  filename: string,
+): Promise<string> => {
+  const filePath = path.join(exportsDir, `${filename}.xlsx`);
+
+  const data = residents.map((r, index) => {
+    const profile = r.profile || {};
+    const household = r.householdId;
+    const membership = household?.members?.find(
+      (m: any) => m.userId?.toString() === r._id.toString(),
+    );
+
+    return {
+      No: index + 1,
+      "Last Name": r.lastName,
+      "First Name": r.firstName,
+      "Middle Name": profile.middleName || "",
+      "Ext.": profile.suffix || "",
+      Address: household?.address || r.address,
+      Purok: household?.purok || "",
+      "Place of Birth": profile.birthPlace || "",
+      "Date of Birth": formatDate(profile.birthDate),
+      Age: yearsSince(profile.birthDate),
+      Sex: profile.sex ? profile.sex.toUpperCase().charAt(0) : "",
+      "Civil Status": profile.civilStatus || "",
+      Citizenship: profile.citizenship || "",
+      Occupation: profile.occupation || "",
+      "Registered Voter": yesNo(profile.isRegisteredVoter),
+      "Precinct No.": profile.precinctNumber || "",
+      "Senior Citizen": yesNo(profile.isSeniorCitizen),
+      PWD: yesNo(profile.isPwd),
+      "Solo Parent": yesNo(profile.isSoloParent),
+      "Years of Residency": yearsSince(profile.residentSince),
+      "Household ID": household?._id?.toString() || "",
+      "Relationship to Head": membership?.relationship || "",
+      "Contact Number": r.phoneNumber || "",
+    };
+  });
+
+  const worksheet = XLSX.utils.json_to_sheet(data);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "RBI");
+
+  // Auto-size columns
+  const maxWidth = data.reduce((w: any, r: any) => {
+    return Object.keys(r).map((k, i) => {
+      const cellValue = r[k]?.toString() || "";
+      return Math.max(w[i] || 10, cellValue.length);
+    });
+  }, []);
+
+  worksheet["!cols"] = maxWidth.map((w: number) => ({
+    wch: Math.min(w + 2, 50),
+  }));
+
+  XLSX.writeFile(workbook, filePath);
+  return filePath;
+};
+
+/**
+ * Write the business registry for the treasurer. Expects businesses with
+ * `zoneId` populated and `clearance` set to the year's application, if any.
+ */
+export const exportBusinessesToExcel = async (
+  businesses: any[],
+  filename: string,
+): Promise<string> => {
+  const filePath = path.join(exportsDir, `${filename}.xlsx`);
+
+  const data = businesses.map((b, index) => ({
+    No: index + 1,
+    "Business Name": b.name,
+    Owner: b.ownerName,
+    Address: b.address,
+    Zone: b.zoneId?.name || "",
+    "Line of Business": b.lineOfBusiness,
+    TIN: b.tin || "",
+    Capitalization: b.capitalization ?? "",
+    "Contact Number": b.contactNumber || "",
+    "Clearance Type": b.clearance?.type || "",
+    "Clearance Status": b.clearance?.status || "none",
+    "Clearance No.": b.clearance?.clearanceNumber || "",
+    Fee: b.clearance?.fee ?? "",
+    "Date Issued": formatDate(b.clearance?.issuedAt),
+    "Valid Until": formatDate(b.clearance?.validUntil),
+    "Clearance Expires": formatDate(b.clearanceExpiresAt),
+    Active: yesNo(b.isActive),
+  }));
+
+  const worksheet = XLSX.utils.json_to_sheet(data);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Businesses");
+
+  // Auto-size columns
+  const maxWidth = data.reduce((w: any, r: any) => {
+    return Object.keys(r).map((k, i) => {
+      const cellValue = r[k]?.toString() || "";
+      return Math.max(w[i] || 10, cellValue.length);
+    });
+  }, []);
+
+  worksheet["!cols"] = maxWidth.map((w: number) => ({
+    wch: Math.min(w + 2, 50),
+  }));
+
+  XLSX.writeFile(workbook, filePath);
+  return filePath;
+};
+
+/**
+ * Write a distribution batch report: summary, claims and unclaimed
+ * households. Expects claims with `householdId` and `releasedBy` populated.
+ */
+export const exportDistributionToExcel = async (
+  batch: any,
+  claims: any[],
+  unclaimed: any[],
+  summary: any,
+  filename: string,
+): Promise<string> => {
+  const filePath = path.join(exportsDir, `${filename}.xlsx`);
+
+  const summaryRows = [
+    { Item: "Program", Value: batch.programId?.name || "" },
+    { Item: "Batch", Value: batch.name },
+    { Item: "Distribution Date", Value: formatDate(batch.distributionDate) },
+    { Item: "Location", Value: batch.location || "" },
+    { Item: "Items", Value: batch.items },
+    { Item: "Amount per Household", Value: batch.amountPerHousehold ?? "" },
+    { Item: "Eligible Households", Value: summary.eligible },
+    { Item: "Claimed", Value: summary.claimed },
+    { Item: "Unclaimed", Value: summary.unclaimed },
+    { Item: "Served by Override", Value: summary.overrides },
+    { Item: "Amount Released", Value: summary.amountReleased },
+    ...summary.byPurok.map((row: any) => ({
+      Item: `Purok ${row.purok}`,
+      Value: `${row.claimed} of ${row.eligible}`,
+    })),
+  ];
+
+  const claimRows = claims.map((c, index) => ({
+    No: index + 1,
+    Address: c.householdId?.address || "",
+    Purok: c.householdId?.purok || "",
+    Claimant: c.claimantName,
+    Relationship: c.claimantRelationship || "",
+    "Claimed At": c.claimedAt ? new Date(c.claimedAt).toLocaleString() : "",
+    "Released By": c.releasedBy
+      ? `${c.releasedBy.firstName} ${c.releasedBy.lastName}`
+      : "",
+    Override: c.overrideReason || "",
+    Notes: c.notes || "",
+  }));
+
+  const unclaimedRows = unclaimed.map((h, index) => {
+    const head = h.members?.find((m: any) => m.relationship === "head");
+    return {
+      No: index + 1,
+      Address: h.address,
+      Purok: h.purok || "",
+      "Head of Family": head ? `${head.firstName} ${head.lastName}` : "",
+      Members: h.members?.length || 0,
+    };
+  });
+
+  const workbook = XLSX.utils.book_new();
+  const sheets: [string, any[]][] = [
+    ["Summary", summaryRows],
+    ["Claims", claimRows],
+    ["Unclaimed", unclaimedRows],
+  ];
+
+  for (const [name, data] of sheets) {
+    const worksheet = XLSX.utils.json_to_sheet(data);
+
+    // Auto-size columns
+    const maxWidth = data.reduce((w: any, r: any) => {
+      return Object.keys(r).map((k, i) => {
+        const cellValue = r[k]?.toString() || "";
+        return Math.max(w[i] || 10, cellValue.length);
+      });
+    }, []);
+
+    worksheet["!cols"] = maxWidth.map((w: number) => ({
+      wch: Math.min(w + 2, 50),
+    }));
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, name);
+  }
+
+  XLSX.writeFile(workbook, filePath);
+  return filePath;
+};
+
 export const deleteExportFile = (filePath: string): void => {
   try {
     if (fs.existsSync(filePath)) {
@@ -0,0 +1,87 @@
+/**
+ * GeoJSON helpers for complaint locations. Coordinates are stored
+ * longitude first, as GeoJSON and the 2dsphere index expect.
+ */
+
+const EARTH_RADIUS_METERS = 6378100;
+
+export const DEFAULT_NEAR_RADIUS_METERS = 500;
+export const MAX_NEAR_RADIUS_METERS = 5000;
+
+export interface GeoPoint {
+  type: "Point";
+  coordinates: [number, number];
+}
+
+export const toPoint = (latitude: number, longitude: number): GeoPoint => ({
+  type: "Point",
+  coordinates: [longitude, latitude],
+});
+
+// "minLng,minLat,maxLng,maxLat" as numbers, or null when malformed
+export const parseBbox = (
+  bbox: string,
+): [number, number, number, number] | null => {
+  const parts = bbox.split(",").map(Number);
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (
+    minLng >= maxLng ||
+    minLat >= maxLat ||
+    minLng < -180 ||
+    maxLng > 180 ||
+    minLat < -90 ||
+    maxLat > 90
+  ) {
+    return null;
+  }
+  return [minLng, minLat, maxLng, maxLat];
+};
+
+/**
+ * `$geoWithin` condition for ?lat&lng&radius (meters) or ?bbox, or null when
+ * neither is given. Expects the query to have been validated.
+ */
+export const geoWithinQuery = (
+  query: Record<string, any>,
+): Record<string, any> | null => {
+  if (query.lat !== undefined && query.lng !== undefined) {
+    const radius = Math.min(
+      Number(query.radius) || DEFAULT_NEAR_RADIUS_METERS,
+      MAX_NEAR_RADIUS_METERS,
+    );
+    return {
+      $geoWithin: {
+        $centerSphere: [
+          [Number(query.lng), Number(query.lat)],
+          radius / EARTH_RADIUS_METERS,
+        ],
+      },
+    };
+  }
+
+  const box = query.bbox && parseBbox(query.bbox);
+  if (box) {
+    const [minLng, minLat, maxLng, maxLat] = box;
+    return {
+      $geoWithin: {
+        $geometry: {
+          type: "Polygon",
+          coordinates: [
+            [
+              [minLng, minLat],
+              [maxLng, minLat],
+              [maxLng, maxLat],
+              [minLng, maxLat],
+              [minLng, minLat],
+            ],
+          ],
+        },
+      },
+    };
+  }
+
+  return null;
+};
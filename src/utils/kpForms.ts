@@ -0,0 +1,235 @@
+import PDFDocument from "pdfkit";
+import { ICase, ICaseParty } from "../models/Case";
+import { drawBarangayHeader } from "./certificatePdf";
+
+/**
+ * Printable Katarungang Pambarangay forms issued by the Lupon
+ */
+export const KP_FORMS = {
+  notice_of_hearing: "Notice of Hearing",
+  summons: "Summons",
+  settlement: "Amicable Settlement",
+  cfa: "Certification to File Action",
+} as const;
+
+export type KpForm = keyof typeof KP_FORMS;
+
+export interface KpFormSigner {
+  name: string;
+  position: string;
+}
+
+const formatLongDate = (date: Date): string =>
+  date.toLocaleDateString("en-PH", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+const formatDateTime = (date: Date): string =>
+  `${formatLongDate(date)} at ${date.toLocaleTimeString("en-PH", {
+    hour: "numeric",
+    minute: "2-digit",
+  })}`;
+
+const partyNames = (parties: ICaseParty[]): string =>
+  parties.map((party) => party.name.toUpperCase()).join(", ");
+
+const nextHearing = (kpCase: ICase) =>
+  kpCase.hearings
+    .filter(
+      (hearing) =>
+        hearing.status === "scheduled" && hearing.scheduledAt >= new Date(),
+    )
+    .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime())[0];
+
+const drawCaption = (doc: PDFKit.PDFDocument, kpCase: ICase): void => {
+  const width = doc.page.width / 2 - 72;
+
+  doc.moveDown().font("Helvetica").fontSize(11);
+  const top = doc.y;
+  doc.text(partyNames(kpCase.complainants), 72, top, { width });
+  doc.text("Complainant(s)", { width });
+  doc.moveDown(0.5).text("- against -", { width });
+  doc.moveDown(0.5).text(partyNames(kpCase.respondents), { width });
+  doc.text("Respondent(s)", { width });
+  const bottom = doc.y;
+
+  doc.text(`Barangay Case No. ${kpCase.caseNumber}`, doc.page.width / 2, top, {
+    width,
+  });
+  doc.text(`For: ${kpCase.title}`, { width });
+
+  doc.x = 72;
+  doc.y = Math.max(bottom, doc.y);
+};
+
+const drawTitle = (doc: PDFKit.PDFDocument, title: string): void => {
+  doc
+    .moveDown(2)
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .text(title.toUpperCase(), 72, doc.y, {
+      width: doc.page.width - 144,
+      align: "center",
+    });
+  doc.moveDown().font("Helvetica").fontSize(11);
+};
+
+const paragraph = (doc: PDFKit.PDFDocument, text: string): void => {
+  doc.text(text, 72, doc.y, {
+    width: doc.page.width - 144,
+    align: "justify",
+    indent: 36,
+  });
+  doc.moveDown();
+};
+
+const drawSignature = (doc: PDFKit.PDFDocument, signer: KpFormSigner): void => {
+  const x = doc.page.width / 2;
+  const width = doc.page.width / 2 - 72;
+
+  doc.moveDown(3);
+  doc
+    .font("Helvetica-Bold")
+    .text(signer.name.toUpperCase(), x, doc.y, { width, align: "center" });
+  doc.font("Helvetica").text(signer.position, { width, align: "center" });
+  doc.x = 72;
+};
+
+const drawPartySignatures = (
+  doc: PDFKit.PDFDocument,
+  label: string,
+  parties: ICaseParty[],
+): void => {
+  doc.moveDown().font("Helvetica-Bold").text(label, 72);
+  doc.font("Helvetica");
+  for (const party of parties) {
+    doc.moveDown(1.5).text("______________________________", 72);
+    doc.text(party.name.toUpperCase());
+  }
+};
+
+const hearingSentence = (kpCase: ICase): string => {
+  const hearing = nextHearing(kpCase);
+  return hearing
+    ? `on ${formatDateTime(hearing.scheduledAt)} at ${hearing.venue}`
+    : "on ____________________ at the barangay hall";
+};
+
+const drawNoticeOfHearing = (doc: PDFKit.PDFDocument, kpCase: ICase): void => {
+  const body =
+    kpCase.status === "conciliation"
+      ? "the Pangkat ng Tagapagkasundo"
+      : "the Punong Barangay";
+
+  drawTitle(doc, KP_FORMS.notice_of_hearing);
+  doc.text(
+    `TO: ${partyNames([...kpCase.complainants, ...kpCase.respondents])}`,
+    72,
+  );
+  doc.moveDown();
+  paragraph(
+    doc,
+    `You are hereby required to appear before ${body} ${hearingSentence(
+      kpCase,
+    )} for the hearing of the above-entitled case.`,
+  );
+};
+
+const drawSummons = (doc: PDFKit.PDFDocument, kpCase: ICase): void => {
+  drawTitle(doc, KP_FORMS.summons);
+  doc.text(`TO: ${partyNames(kpCase.respondents)}`, 72);
+  doc.moveDown();
+  paragraph(
+    doc,
+    `You are hereby summoned to appear before me in person, together with your witnesses, ${hearingSentence(
+      kpCase,
+    )}, then and there to answer to a complaint made before me, copy of which is attached hereto, for mediation/conciliation of your dispute with the complainant(s).`,
+  );
+  paragraph(
+    doc,
+    "You are hereby warned that if you refuse or willfully fail to appear in obedience to this summons, you shall be barred from filing any counterclaim arising from said complaint.",
+  );
+  paragraph(doc, "FAIL NOT or else face punishment as for contempt of court.");
+};
+
+const drawSettlement = (doc: PDFKit.PDFDocument, kpCase: ICase): void => {
+  drawTitle(doc, KP_FORMS.settlement);
+  paragraph(
+    doc,
+    "We, complainant(s) and respondent(s) in the above-captioned case, do hereby agree to settle our dispute as follows:",
+  );
+  paragraph(doc, kpCase.settlement?.terms || "");
+  paragraph(
+    doc,
+    "and bind ourselves to comply honestly and faithfully with the above terms of settlement.",
+  );
+  if (kpCase.settlement?.settledAt) {
+    paragraph(
+      doc,
+      `Entered into this ${formatLongDate(kpCase.settlement.settledAt)}.`,
+    );
+  }
+
+  drawPartySignatures(doc, "Complainant(s):", kpCase.complainants);
+  drawPartySignatures(doc, "Respondent(s):", kpCase.respondents);
+
+  doc.moveDown(2).font("Helvetica-Bold").text("ATTESTATION", 72);
+  doc.font("Helvetica");
+  paragraph(
+    doc,
+    "I hereby certify that the foregoing amicable settlement was entered into by the parties freely and voluntarily, after I had explained to them the nature and consequence of such settlement.",
+  );
+};
+
+const drawCertification = (doc: PDFKit.PDFDocument, kpCase: ICase): void => {
+  drawTitle(doc, KP_FORMS.cfa);
+  paragraph(doc, "This is to certify that:");
+  paragraph(
+    doc,
+    `1. There has been a personal confrontation between the parties before the Punong Barangay${
+      kpCase.conciliationStartedAt ? " and the Pangkat ng Tagapagkasundo" : ""
+    } but mediation/conciliation failed;`,
+  );
+  paragraph(
+    doc,
+    kpCase.status === "certified" && kpCase.certification?.reason
+      ? `2. ${kpCase.certification.reason};`
+      : "2. No settlement or conciliation was reached;",
+  );
+  paragraph(
+    doc,
+    "3. Therefore, the corresponding complaint for the dispute may now be filed in court/government office.",
+  );
+  if (kpCase.certification?.issuedAt) {
+    paragraph(
+      doc,
+      `Issued this ${formatLongDate(kpCase.certification.issuedAt)}.`,
+    );
+  }
+};
+
+/**
+ * Write a KP form for a case to a stream (usually the HTTP response)
+ */
+export const writeKpForm = (
+  kpCase: ICase,
+  form: KpForm,
+  signer: KpFormSigner,
+  stream: NodeJS.WritableStream,
+): void => {
+  const doc = new PDFDocument({ size: "LETTER", margin: 72 });
+  doc.pipe(stream);
+
+  drawBarangayHeader(doc, "OFFICE OF THE LUPONG TAGAPAMAYAPA");
+  drawCaption(doc, kpCase);
+
+  if (form === "notice_of_hearing") drawNoticeOfHearing(doc, kpCase);
+  if (form === "summons") drawSummons(doc, kpCase);
+  if (form === "settlement") drawSettlement(doc, kpCase);
+  if (form === "cfa") drawCertification(doc, kpCase);
+
+  drawSignature(doc, signer);
+  doc.end();
+};
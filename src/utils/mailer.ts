@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+import { logger } from "./logger";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A mail transport delivers a fully composed message.
+ * Register custom transports with setMailTransport().
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Token query parameters in links, e.g. password reset and verification
+const TOKEN_PARAM = /([?&]token=)[^&\s]+/gi;
+
+const redactTokens = (text: string): string =>
+  text.replace(TOKEN_PARAM, "$1[redacted]");
+
+/**
+ * Prints outgoing mail to the console (development default). In production
+ * the links' tokens are redacted so logs never hold working reset or
+ * verification links.
+ */
+export const consoleTransport: MailTransport = {
+  name: "console",
+  async send(message) {
+    logger.info(`Mail to ${message.to}: ${message.subject}`, {
+      from: message.from,
+      text:
+        process.env.NODE_ENV === "production"
+          ? redactTokens(message.text)
+          : message.text,
+    });
+  },
+};
+
+/**
+ * Writes each outgoing mail as a JSON file under MAIL_OUTBOX_DIR (tests)
+ */
+export const createFileTransport = (
+  outboxDir: string = process.env.MAIL_OUTBOX_DIR ||
+    path.join(process.cwd(), "mail-outbox"),
+): MailTransport => ({
+  name: "file",
+  async send(message) {
+    await fs.promises.mkdir(outboxDir, { recursive: true });
+    const fileName = `${Date.now()}-${Math.round(Math.random() * 1e9)}.json`;
+    await fs.promises.writeFile(
+      path.join(outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+  },
+});
+
+/**
+ * Sends mail through an SMTP server configured via SMTP_* variables
+ */
+export const createSmtpTransport = (): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587"),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+};
+
+const resolveDefaultTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      return createSmtpTransport();
+    case "file":
+      return createFileTransport();
+    default:
+      if (process.env.NODE_ENV === "production") {
+        logger.warn(
+          "MAIL_TRANSPORT is not set; mail is only logged and not delivered",
+        );
+      }
+      return consoleTransport;
+  }
+};
+
+let transport: MailTransport | undefined;
+
+/**
+ * Override the active mail transport
+ */
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+/**
+ * Send an email through the active transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!transport) {
+    transport = resolveDefaultTransport();
+  }
+
+  await transport.send({
+    ...message,
+    from: process.env.MAIL_FROM || "iBarangay <no-reply@barangay.local>",
+  });
+};
@@ -0,0 +1,29 @@
+import crypto from "crypto";
+
+/**
+ * Tracking codes let anonymous filers follow their complaint without an
+ * account link. Only a hash is stored, so a leaked database cannot be used
+ * to look complaints up.
+ */
+
+// No 0/O or 1/I so codes survive being read aloud or copied by hand
+const TRACKING_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 12;
+const GROUP_LENGTH = 4;
+
+// e.g. "K7QX-M2HD-9WPA"
+export const generateTrackingCode = (): string => {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    if (i > 0 && i % GROUP_LENGTH === 0) code += "-";
+    code += TRACKING_ALPHABET[crypto.randomInt(TRACKING_ALPHABET.length)];
+  }
+  return code;
+};
+
+// Case, spaces and dashes are ignored when a code is typed back in
+export const hashTrackingCode = (code: string): string =>
+  crypto
+    .createHash("sha256")
+    .update(code.toUpperCase().replace(/[^A-Z0-9]/g, ""))
+    .digest("hex");